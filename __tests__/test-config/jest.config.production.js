@@ -0,0 +1,22 @@
+/**
+ * Jest configuration for unit tests
+ * Uses Next's SWC transform and the tsconfig path aliases; tests live in
+ * __tests__ folders next to the modules they cover
+ */
+
+const path = require('path');
+const nextJest = require('next/jest');
+
+const rootDir = path.resolve(__dirname, '../..');
+
+const createJestConfig = nextJest({ dir: rootDir });
+
+module.exports = createJestConfig({
+  rootDir,
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1'
+  },
+  testMatch: ['<rootDir>/**/__tests__/**/*.test.ts?(x)'],
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/.next/']
+});
@@ -35,17 +35,47 @@ import { PricingModalEnhanced as PricingModal } from "@/components/ui/PricingMod
 import { PricingBreakdown } from "@/components/ui/PricingBreakdown";
 import { cn } from "@/lib/utils";
 import { useEstimateStore } from "@/stores/useEstimateStore";
+import type { LineItem } from "@/lib/calculations/painting-calculator";
+import type { MaterialListItem } from "@/lib/calculations/paint-catalog";
+import { defaultRateCard } from "@/lib/calculations/rate-cards";
+import {
+  getTierFeatures,
+  tierDefinitions,
+} from "@/lib/calculations/pricing-tiers";
+import {
+  repriceMargin,
+  type MarginAnalysis,
+} from "@/lib/calculations/cost-model";
+import {
+  getPaymentSummary,
+  type PaymentSchedule,
+} from "@/lib/calculations/payment-schedule";
+import {
+  calculationService,
+  type FinalPrice,
+} from "@/lib/services/calculation-service";
+import {
+  buildEstimateSnapshot,
+  diffEstimates,
+  estimateVersionService,
+  type EstimateVersion,
+  type PriceAdjustment,
+} from "@/lib/services/estimate-versions";
 
 interface ReviewCalculationsProps {
   onNext: () => void;
   onPrevious: () => void;
 }
 
-interface PricingAdjustment {
-  reason: string;
-  percentage: number;
-  amount: number;
-}
+type TierKey = "good" | "better" | "best";
+
+// Shown until the estimate has been run through the calculator
+const defaultTierFeatures = Object.fromEntries(
+  (Object.keys(tierDefinitions) as TierKey[]).map((tier) => [
+    tier,
+    getTierFeatures(tierDefinitions[tier], defaultRateCard),
+  ]),
+) as Record<TierKey, string[]>;
 
 export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
   onNext,
@@ -54,15 +84,32 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
   const store = useEstimateStore();
   const { estimate, markStepCompleted, setCalculations } = store;
 
-  const [selectedTier, setSelectedTier] = useState<"good" | "better" | "best">(
-    "better",
-  );
-  const [adjustments, setAdjustments] = useState<PricingAdjustment[]>([]);
+  const [selectedTier, setSelectedTier] = useState<TierKey>("better");
+  const [adjustments, setAdjustments] = useState<PriceAdjustment[]>([]);
   const [customNotes, setCustomNotes] = useState("");
   const [isRecalculating, setIsRecalculating] = useState(false);
   const [showAdjustments, setShowAdjustments] = useState(false);
   const [showPricingModal, setShowPricingModal] = useState(false);
   const [showDetailedBreakdown, setShowDetailedBreakdown] = useState(false);
+  const [presentedVersion, setPresentedVersion] =
+    useState<EstimateVersion>();
+
+  // Last version sent to the customer, to show what has changed since
+  useEffect(() => {
+    if (!estimate.id) return;
+    let cancelled = false;
+    estimateVersionService
+      .getLastPresentedVersion(estimate.id)
+      .then((version) => {
+        if (!cancelled) setPresentedVersion(version);
+      })
+      .catch((error) =>
+        console.error("Failed to load presented estimate version:", error),
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [estimate.id]);
 
   const fadeIn = useSpring({
     from: { opacity: 0, transform: "translateY(20px)" },
@@ -114,6 +161,8 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
     profit: 0,
     total: 0,
     breakdown: [],
+    lineItems: [] as LineItem[],
+    materialList: [] as MaterialListItem[],
     pricing: {
       good: Math.round(
         ((Math.ceil(totalSqft / 180) + Math.ceil(totalTrimLf / 100)) * 65 +
@@ -139,11 +188,55 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
     },
   };
 
+  const lineItems: LineItem[] = calculation.lineItems || [];
+  const materialList: MaterialListItem[] = calculation.materialList || [];
+  const tierFeatures = (tier: TierKey): string[] =>
+    calculation.pricingTiers?.[tier]?.tier?.features ||
+    defaultTierFeatures[tier];
   const selectedPrice = calculation.pricing?.[selectedTier] || 0;
   const adjustedPrice = adjustments.reduce(
     (total, adj) => total + adj.amount,
     selectedPrice,
   );
+  const getTierMargin = (tier: TierKey): MarginAnalysis | undefined =>
+    calculation.pricingTiers?.[tier]?.margin;
+  // Manual adjustments change the price but not the cost
+  const selectedMargin = getTierMargin(selectedTier);
+  const adjustedMargin = selectedMargin
+    ? repriceMargin(selectedMargin, adjustedPrice)
+    : undefined;
+  const formatMargin = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const customerDiff = presentedVersion
+    ? diffEstimates(
+        presentedVersion,
+        buildEstimateSnapshot({
+          ...estimate,
+          calculations: {
+            ...calculation,
+            selectedTier,
+            adjustments,
+            finalPrice: adjustedPrice,
+          },
+        }),
+      )
+    : undefined;
+  // Tax and payment terms follow the final price; recorded payments stay
+  const finalPrice: FinalPrice | undefined =
+    calculation.paymentSchedule && calculation.pricingTiers?.[selectedTier]
+      ? calculationService.finalizePrice(
+          estimate,
+          calculation,
+          selectedTier,
+          adjustedPrice,
+        )
+      : undefined;
+  const paymentSchedule: PaymentSchedule | undefined =
+    finalPrice?.paymentSchedule;
+  const paymentSummary = paymentSchedule
+    ? getPaymentSummary(paymentSchedule)
+    : undefined;
+  const formatDelta = (value: number) =>
+    `${value >= 0 ? "+" : "-"}$${Math.abs(value).toLocaleString()}`;
 
   const addAdjustment = () => {
     setAdjustments([
@@ -158,7 +251,7 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
 
   const updateAdjustment = (
     index: number,
-    field: keyof PricingAdjustment,
+    field: keyof PriceAdjustment,
     value: any,
   ) => {
     const updated = adjustments.map((adj, i) => {
@@ -193,6 +286,19 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
       selectedTier,
       adjustments,
       finalPrice: adjustedPrice,
+      margin: adjustedMargin,
+      ...(finalPrice
+        ? {
+            totals: {
+              ...calculation.totals,
+              price: finalPrice.price,
+              tax: finalPrice.tax,
+              taxBreakdown: finalPrice.taxBreakdown,
+              total: finalPrice.total,
+            },
+            paymentSchedule: finalPrice.paymentSchedule,
+          }
+        : {}),
       customNotes,
       total: adjustedPrice,
     };
@@ -316,14 +422,18 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
               className="cursor-pointer"
               onClick={() => setSelectedTier("good")}
             >
-              <p className="text-3xl font-bold text-green-600 mb-4">
+              <p className="text-3xl font-bold text-green-600 mb-1">
                 ${calculation.pricing?.good?.toLocaleString() || "0"}
               </p>
+              <p className="text-xs text-gray-500 mb-4">
+                {getTierMargin("good")
+                  ? `${formatMargin(getTierMargin("good")!.grossMargin)} gross margin`
+                  : "\u00a0"}
+              </p>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Sherwin-Williams Emerald</li>
-                <li>• Standard prep work</li>
-                <li>• 3-year warranty</li>
-                <li>• 56% margin (competitive)</li>
+                {tierFeatures("good").map((feature) => (
+                  <li key={feature}>• {feature}</li>
+                ))}
               </ul>
             </div>
             {selectedTier === "good" && (
@@ -370,14 +480,18 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
               className="cursor-pointer"
               onClick={() => setSelectedTier("better")}
             >
-              <p className="text-3xl font-bold text-blue-600 mb-4">
+              <p className="text-3xl font-bold text-blue-600 mb-1">
                 ${calculation.pricing?.better?.toLocaleString() || "0"}
               </p>
+              <p className="text-xs text-gray-500 mb-4">
+                {getTierMargin("better")
+                  ? `${formatMargin(getTierMargin("better")!.grossMargin)} gross margin`
+                  : "\u00a0"}
+              </p>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• SW Rain Refresh Premium</li>
-                <li>• Enhanced prep work</li>
-                <li>• 5-year warranty</li>
-                <li>• 58% margin (optimal)</li>
+                {tierFeatures("better").map((feature) => (
+                  <li key={feature}>• {feature}</li>
+                ))}
               </ul>
             </div>
             {selectedTier === "better" && (
@@ -421,14 +535,18 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
               className="cursor-pointer"
               onClick={() => setSelectedTier("best")}
             >
-              <p className="text-3xl font-bold text-purple-600 mb-4">
+              <p className="text-3xl font-bold text-purple-600 mb-1">
                 ${calculation.pricing?.best?.toLocaleString() || "0"}
               </p>
+              <p className="text-xs text-gray-500 mb-4">
+                {getTierMargin("best")
+                  ? `${formatMargin(getTierMargin("best")!.grossMargin)} gross margin`
+                  : "\u00a0"}
+              </p>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Benjamin Moore Aura</li>
-                <li>• Premium restoration</li>
-                <li>• 7-year warranty</li>
-                <li>• 62% margin (premium)</li>
+                {tierFeatures("best").map((feature) => (
+                  <li key={feature}>• {feature}</li>
+                ))}
               </ul>
             </div>
             {selectedTier === "best" && (
@@ -502,25 +620,30 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
               totalLaborCost: calculation.laborCost || 0,
               subtotal:
                 (calculation.materialCost || 0) + (calculation.laborCost || 0),
-              overheadPercent: 15,
-              overheadAmount:
-                ((calculation.materialCost || 0) +
-                  (calculation.laborCost || 0)) *
-                0.15,
-              profitPercent:
-                selectedTier === "good"
+              overheadPercent: selectedMargin
+                ? Math.round(selectedMargin.overhead / Math.max(1, selectedMargin.price) * 100)
+                : 15,
+              overheadAmount: selectedMargin
+                ? selectedMargin.overhead
+                : ((calculation.materialCost || 0) +
+                    (calculation.laborCost || 0)) *
+                  0.15,
+              profitPercent: selectedMargin
+                ? Math.round(selectedMargin.netMargin * 100)
+                : selectedTier === "good"
                   ? 41
                   : selectedTier === "better"
                     ? 43
                     : 47,
-              profitAmount:
-                ((calculation.materialCost || 0) +
-                  (calculation.laborCost || 0)) *
-                (selectedTier === "good"
-                  ? 0.41
-                  : selectedTier === "better"
-                    ? 0.43
-                    : 0.47),
+              profitAmount: selectedMargin
+                ? selectedMargin.profit
+                : ((calculation.materialCost || 0) +
+                    (calculation.laborCost || 0)) *
+                  (selectedTier === "good"
+                    ? 0.41
+                    : selectedTier === "better"
+                      ? 0.43
+                      : 0.47),
               preDiscountTotal:
                 ((calculation.materialCost || 0) +
                   (calculation.laborCost || 0)) *
@@ -547,6 +670,219 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
             }}
             showDetailed={true}
           />
+
+          {lineItems.length > 0 && (
+            <div className="mt-6">
+              <h4 className="font-semibold text-gray-900 mb-3">
+                Cost by Area
+              </h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Area</th>
+                    <th className="py-2 font-medium text-right">Hours</th>
+                    <th className="py-2 font-medium text-right">Gallons</th>
+                    <th className="py-2 font-medium text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lineItems.map((item) => (
+                    <React.Fragment key={item.id}>
+                      <tr className="border-b border-gray-100">
+                        <td className="py-2 font-medium text-gray-900">
+                          {item.name}
+                        </td>
+                        <td className="py-2 text-right">
+                          {item.hours.total.toFixed(1)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {(item.gallons.primer + item.gallons.paint).toFixed(1)}
+                        </td>
+                        <td className="py-2 text-right font-medium">
+                          ${item.cost.total.toLocaleString()}
+                        </td>
+                      </tr>
+                      {item.parts?.map((part) => (
+                        <tr key={part.id} className="text-gray-600">
+                          <td className="py-1 pl-4">{part.name}</td>
+                          <td className="py-1 text-right">
+                            {part.hours.total.toFixed(1)}
+                          </td>
+                          <td className="py-1 text-right">
+                            {(part.gallons.primer + part.gallons.paint).toFixed(1)}
+                          </td>
+                          <td className="py-1 text-right">
+                            ${part.cost.total.toLocaleString()}
+                          </td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {materialList.length > 0 && (
+            <div className="mt-6">
+              <h4 className="font-semibold text-gray-900 mb-3">
+                Paint Purchase List
+              </h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Product</th>
+                    <th className="py-2 font-medium">Sheen</th>
+                    <th className="py-2 font-medium">Containers</th>
+                    <th className="py-2 font-medium text-right">Gallons</th>
+                    <th className="py-2 font-medium text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {materialList.map((item) => (
+                    <tr
+                      key={`${item.productId}-${item.sheen}-${item.color || ""}`}
+                      className="border-b border-gray-100"
+                    >
+                      <td className="py-2 font-medium text-gray-900">
+                        {item.brand} {item.productLine}
+                        {item.color && (
+                          <span className="block text-xs font-normal text-gray-500">
+                            {item.color}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 capitalize">{item.sheen}</td>
+                      <td className="py-2">
+                        {item.containers
+                          .map((container) => `${container.count} × ${container.size}`)
+                          .join(", ")}
+                      </td>
+                      <td className="py-2 text-right">
+                        {item.gallonsNeeded.toFixed(1)} / {item.gallonsPurchased}
+                      </td>
+                      <td className="py-2 text-right font-medium">
+                        ${item.cost.toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Changes since the customer last saw the estimate */}
+      {customerDiff?.hasChanges && (
+        <div className="bg-white rounded-lg border border-amber-200 shadow-sm p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <RefreshCw className="w-5 h-5" />
+              Changes Since Version {customerDiff.fromVersion}
+            </h3>
+            <span className="text-sm text-gray-500">
+              Sent to customer{" "}
+              {presentedVersion?.presentedAt &&
+                new Date(presentedVersion.presentedAt).toLocaleDateString()}
+            </span>
+          </div>
+
+          <div className="space-y-1 text-sm text-gray-700 mb-4">
+            {customerDiff.measurements.added.map((ref) => (
+              <p key={`added-${ref.group}-${ref.key}`}>
+                <span className="text-green-600 font-medium">Added</span>{" "}
+                {ref.name}
+              </p>
+            ))}
+            {customerDiff.measurements.removed.map((ref) => (
+              <p key={`removed-${ref.group}-${ref.key}`}>
+                <span className="text-red-600 font-medium">Removed</span>{" "}
+                {ref.name}
+              </p>
+            ))}
+            {customerDiff.measurements.changed.map((change) => (
+              <p key={`changed-${change.group}-${change.key}`}>
+                <span className="text-blue-600 font-medium">Changed</span>{" "}
+                {change.name}:{" "}
+                {change.changes
+                  .map((field) =>
+                    typeof field.before === "object" ||
+                    typeof field.after === "object"
+                      ? field.field
+                      : `${field.field} ${field.before ?? "—"} → ${field.after ?? "—"}`,
+                  )
+                  .join(", ")}
+              </p>
+            ))}
+            {customerDiff.selectedTier && (
+              <p>
+                <span className="text-blue-600 font-medium">Tier</span>{" "}
+                {customerDiff.selectedTier.before ?? "—"} →{" "}
+                {customerDiff.selectedTier.after ?? "—"}
+              </p>
+            )}
+            {customerDiff.rateCard && (
+              <p>
+                <span className="text-blue-600 font-medium">Rate card</span>{" "}
+                v{customerDiff.rateCard.before?.version ?? "—"} → v
+                {customerDiff.rateCard.after?.version ?? "—"}
+              </p>
+            )}
+          </div>
+
+          {customerDiff.lineItems.length > 0 && (
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Line Item</th>
+                  <th className="py-2 font-medium text-right">Quantity</th>
+                  <th className="py-2 font-medium text-right">Was</th>
+                  <th className="py-2 font-medium text-right">Now</th>
+                  <th className="py-2 font-medium text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {customerDiff.lineItems.map((item) => (
+                  <tr key={item.key} className="border-b border-gray-100">
+                    <td className="py-2">
+                      {item.name}
+                      {item.status !== "changed" && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          {item.status}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {item.quantity.before ?? "—"} → {item.quantity.after ?? "—"}
+                    </td>
+                    <td className="py-2 text-right">
+                      ${item.price.before.toLocaleString()}
+                    </td>
+                    <td className="py-2 text-right">
+                      ${item.price.after.toLocaleString()}
+                    </td>
+                    <td
+                      className={cn(
+                        "py-2 text-right font-medium",
+                        item.price.delta > 0 ? "text-red-600" : "text-green-600",
+                      )}
+                    >
+                      {formatDelta(item.price.delta)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex justify-between font-semibold text-gray-900">
+            <span>
+              Price ${customerDiff.price.before.toLocaleString()} → $
+              {customerDiff.price.after.toLocaleString()}
+            </span>
+            <span>{formatDelta(customerDiff.price.delta)}</span>
+          </div>
         </div>
       )}
 
@@ -655,11 +991,91 @@ export const ReviewCalculations: React.FC<ReviewCalculationsProps> = ({
               <p className="text-3xl font-bold text-green-600">
                 ${adjustedPrice.toLocaleString()}
               </p>
+              {adjustedMargin && (
+                <p
+                  className={cn(
+                    "text-sm font-medium",
+                    adjustedMargin.belowFloor ? "text-red-600" : "text-gray-600",
+                  )}
+                >
+                  {formatMargin(adjustedMargin.grossMargin)} gross margin
+                </p>
+              )}
             </div>
           </div>
+          {adjustedMargin && adjustedMargin.warnings.length > 0 && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-red-700">
+                {adjustedMargin.warnings.map((warning) => (
+                  <p key={warning}>{warning}</p>
+                ))}
+                <p className="mt-1 text-red-600">
+                  Target is {formatMargin(adjustedMargin.targetGrossMargin)};
+                  review adjustments before finalizing.
+                </p>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Payment Schedule */}
+      {paymentSchedule && (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <DollarSign className="w-5 h-5" />
+            Payment Schedule
+            <span className="text-sm font-normal text-gray-500">
+              {paymentSchedule.template.name}
+            </span>
+          </h3>
+          {paymentSummary && paymentSummary.paid > 0 && (
+            <p className="text-sm text-gray-600 mb-4">
+              ${paymentSummary.paid.toLocaleString()} paid, $
+              {paymentSummary.outstanding.toLocaleString()} outstanding
+            </p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Milestone</th>
+                <th className="py-2 font-medium">Due</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+                <th className="py-2 font-medium text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paymentSchedule.milestones.map((milestone) => (
+                <tr key={milestone.id} className="border-b border-gray-100">
+                  <td className="py-2 font-medium text-gray-900">
+                    {milestone.label}
+                  </td>
+                  <td className="py-2">
+                    {new Date(
+                      `${milestone.dueDate}T00:00:00`,
+                    ).toLocaleDateString()}
+                  </td>
+                  <td className="py-2 text-right">
+                    ${milestone.amount.toLocaleString()}
+                  </td>
+                  <td
+                    className={cn(
+                      "py-2 text-right capitalize",
+                      milestone.status === "paid"
+                        ? "text-green-600"
+                        : "text-gray-500",
+                    )}
+                  >
+                    {milestone.status}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Custom Notes */}
       <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6 mb-8">
         <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -0,0 +1,55 @@
+import {
+  defaultAccessRates as rates,
+  getHeightSlowdown,
+  getWorkingHeight,
+  selectAccessEquipment
+} from '../access';
+import { PaintingCalculator, type Surface } from '../painting-calculator';
+
+function surface(overrides: Partial<Surface> = {}): Surface {
+  return { name: 'Gable', width: 30, height: 10, sqft: 300, condition: 'good', substrate: 'wood-siding', coats: 2, ...overrides };
+}
+
+describe('selectAccessEquipment', () => {
+  it('picks the smallest equipment that reaches the working height', () => {
+    expect(selectAccessEquipment({ height: 10 }, rates)).toBe('ladder');
+    expect(selectAccessEquipment({ height: 10, stories: 2 }, rates)).toBe('extension-ladder');
+    expect(selectAccessEquipment({ height: 35 }, rates)).toBe('lift');
+    expect(selectAccessEquipment({ height: 80 }, rates)).toBe('scaffolding');
+  });
+
+  it('honors the estimator override', () => {
+    expect(selectAccessEquipment({ height: 35, accessEquipment: 'scaffolding' }, rates)).toBe('scaffolding');
+  });
+
+  it('uses the story count when it is taller than the measured height', () => {
+    expect(getWorkingHeight({ height: 8, stories: 3 }, rates)).toBe(30);
+  });
+});
+
+describe('getHeightSlowdown', () => {
+  it('slows labor only above the second story', () => {
+    expect(getHeightSlowdown({ height: 20 }, rates)).toBe(1);
+    expect(getHeightSlowdown({ height: 10, stories: 3 }, rates)).toBeCloseTo(1.15, 10);
+    expect(getHeightSlowdown({ height: 40 }, rates)).toBeCloseTo(1.3, 10);
+  });
+});
+
+describe('access equipment on exterior estimates', () => {
+  const calculator = new PaintingCalculator();
+
+  it('adds a rental line item with delivery for lifts', () => {
+    const result = calculator.calculateExterior([surface({ height: 35 })]);
+    const rental = result.lineItems.find(item => item.kind === 'access-equipment');
+
+    expect(rental).toMatchObject({ id: 'access-lift', unit: 'day' });
+    expect(rental?.cost.equipment).toBe((rental?.quantity || 0) * 325 + 150);
+    expect(result.equipment).toBe(rental?.cost.equipment);
+  });
+
+  it('does not charge for crew-owned ladders', () => {
+    const result = calculator.calculateExterior([surface()]);
+    expect(result.lineItems.some(item => item.kind === 'access-equipment')).toBe(false);
+    expect(result.equipment).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { BusinessRulesEngine, validateBusinessRules, type BusinessRule } from '../business-rules';
+import { PaintingCalculator, type CalculationResult } from '../painting-calculator';
+
+const base = new PaintingCalculator().calculateExterior([
+  { name: 'Front', width: 40, height: 10, sqft: 400, condition: 'good', substrate: 'wood-siding', coats: 2 }
+]);
+
+function estimate(total: number): CalculationResult {
+  return { ...base, total, markup: 1000 };
+}
+
+function rule(overrides: Partial<BusinessRule>): BusinessRule {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    priority: 10,
+    enabled: true,
+    conditions: [],
+    effect: { type: 'minimum', amount: 0 },
+    stopProcessing: false,
+    ...overrides
+  };
+}
+
+describe('default business rules', () => {
+  const engine = new BusinessRulesEngine();
+
+  it('raises small jobs to the minimum and records the rule', () => {
+    const result = engine.apply(estimate(1800));
+    expect(result.total).toBe(2500);
+    expect(result.markup).toBe(1700);
+    expect(result.appliedRules).toEqual([
+      { ruleId: 'minimum-job', name: 'Minimum job size', effect: 'minimum', totalBefore: 1800, totalAfter: 2500, adjustment: 700 }
+    ]);
+  });
+
+  it('discounts large jobs', () => {
+    expect(engine.apply(estimate(30000)).total).toBe(28500);
+  });
+
+  it('records nothing when no rule changes the price', () => {
+    expect(engine.apply(estimate(10000)).appliedRules).toEqual([]);
+  });
+});
+
+describe('BusinessRulesEngine', () => {
+  it('applies rules by priority and stops when asked', () => {
+    const engine = new BusinessRulesEngine([
+      rule({ id: 'round', priority: 30, effect: { type: 'rounding', increment: 100, mode: 'up' } }),
+      rule({ id: 'surcharge', priority: 10, effect: { type: 'surcharge', adjustment: { unit: 'amount', value: 25 } }, stopProcessing: true })
+    ]);
+    expect(engine.apply(estimate(1010)).total).toBe(1035);
+    expect(engine.getRules().map(existing => existing.id)).toEqual(['surcharge', 'round']);
+  });
+
+  it('matches conditions against the context and the estimate', () => {
+    const engine = new BusinessRulesEngine([
+      rule({
+        id: 'repeat-exterior',
+        conditions: [
+          { type: 'repeatCustomer', value: true },
+          { type: 'serviceType', serviceTypes: ['exterior'] }
+        ],
+        effect: { type: 'discount', adjustment: { unit: 'percent', value: 0.1 } }
+      }),
+      rule({
+        id: 'winter',
+        priority: 20,
+        conditions: [{ type: 'offSeason', months: [12, 1, 2] }],
+        effect: { type: 'discount', adjustment: { unit: 'amount', value: 50 } }
+      })
+    ]);
+
+    expect(engine.apply(estimate(1000), { repeatCustomer: true, date: new Date(2024, 5, 1) }).total).toBe(900);
+    expect(engine.apply(estimate(1000), { repeatCustomer: false, date: new Date(2024, 0, 15) }).total).toBe(950);
+    expect(engine.apply(estimate(1000), { repeatCustomer: true, serviceTypes: ['interior'], date: new Date(2024, 5, 1) }).total).toBe(1000);
+  });
+
+  it('skips disabled rules', () => {
+    const engine = new BusinessRulesEngine([rule({ enabled: false, effect: { type: 'minimum', amount: 5000 } })]);
+    expect(engine.apply(estimate(1000)).total).toBe(1000);
+  });
+
+  it('reports the largest minimum whose conditions match', () => {
+    const engine = new BusinessRulesEngine([
+      rule({ id: 'exterior', conditions: [{ type: 'serviceType', serviceTypes: ['exterior'] }], effect: { type: 'minimum', amount: 3000 } }),
+      rule({ id: 'interior', conditions: [{ type: 'serviceType', serviceTypes: ['interior'] }], effect: { type: 'minimum', amount: 4000 } })
+    ]);
+    expect(engine.getMinimumTotal(estimate(3000))).toBe(3000);
+    expect(new BusinessRulesEngine([]).getMinimumTotal(estimate(3000))).toBe(0);
+  });
+});
+
+describe('validateBusinessRules', () => {
+  it('rejects duplicate ids and percentages over 100%', () => {
+    expect(() => validateBusinessRules([rule({}), rule({})])).toThrow(/Rule ids must be unique/);
+    expect(() => validateBusinessRules([
+      rule({ effect: { type: 'discount', adjustment: { unit: 'percent', value: 5 } } })
+    ])).toThrow(/effect\.adjustment\.value: Percentages are fractions/);
+  });
+});
@@ -0,0 +1,74 @@
+import { assessColorChange, defaultColorChangeRates as rates, getLrv } from '../color-change';
+import { PaintingCalculator, type Surface } from '../painting-calculator';
+
+describe('assessColorChange', () => {
+  it('keeps the base coats for similar colors', () => {
+    expect(assessColorChange({ from: 60, to: 70 }, 2, rates)).toMatchObject({
+      severity: 'none',
+      coats: 2,
+      tintedPrimer: false,
+      laborFactor: 1
+    });
+  });
+
+  it('adds a third coat for moderate changes', () => {
+    expect(assessColorChange({ from: 'light', to: 'medium' }, 2, rates)).toMatchObject({ severity: 'moderate', coats: 3 });
+  });
+
+  it('adds tinted primer and slower work for a deep new color', () => {
+    expect(assessColorChange({ from: 'light', to: 'dark' }, 2, rates)).toMatchObject({
+      severity: 'major',
+      coats: 2,
+      tintedPrimer: true,
+      laborFactor: 1.1
+    });
+  });
+
+  it('never lowers the surface coats and lets the estimator override', () => {
+    expect(assessColorChange({ from: 60, to: 70 }, 3, rates).coats).toBe(3);
+    expect(assessColorChange({ from: 'light', to: 'dark', coats: 4, tintedPrimer: false }, 2, rates)).toMatchObject({
+      coats: 4,
+      tintedPrimer: false,
+      overridden: true
+    });
+  });
+
+  it('clamps LRV values to 0-100', () => {
+    expect(getLrv(120, rates)).toBe(100);
+    expect(getLrv(-5, rates)).toBe(0);
+  });
+});
+
+describe('color changes on estimates', () => {
+  const calculator = new PaintingCalculator();
+  const surface: Surface = { name: 'Front', width: 40, height: 10, sqft: 400, condition: 'good', substrate: 'wood-siding', coats: 2 };
+
+  it('primes and paints an extra pass for a major change', () => {
+    const same = calculator.calculateExterior([surface]).lineItems[0];
+    const major = calculator.calculateExterior([{ ...surface, colorChange: { from: 'light', to: 'dark' } }]).lineItems[0];
+
+    expect(major.colorChange?.severity).toBe('major');
+    expect(same.gallons.primer).toBe(0);
+    expect(major.gallons.primer).toBeGreaterThan(0);
+    // Two slower finish coats over a primer pass
+    expect(major.hours.painting).toBeCloseTo(same.hours.painting * (2 * 1.1 + 1) / 2, 1);
+  });
+
+  it('paints a third coat on interior walls for a moderate change', () => {
+    const room = {
+      name: 'Den',
+      walls: { width: 40, height: 9, sqft: 360 },
+      ceiling: { width: 10, height: 10, sqft: 100 },
+      trim: { linear_feet: 40 },
+      doors: 0,
+      windows: 0
+    };
+    const [plain] = calculator.calculateInterior([room]).lineItems[0].parts!;
+    const [moderate] = calculator.calculateInterior([
+      { ...room, walls: { ...room.walls, colorChange: { from: 'light', to: 'medium' } } }
+    ]).lineItems[0].parts!;
+
+    expect(moderate.coats).toBe(3);
+    expect(moderate.gallons.paint).toBeCloseTo(plain.gallons.paint * 1.5, 1);
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  analyzeMargin,
+  defaultCostModelRates as rates,
+  getLaborBurden,
+  priceFromCost,
+  repriceMargin
+} from '../cost-model';
+
+// $1,000 labor over 20 hours: $180 burden, $1,680 direct cost
+const costs = { laborHours: 20, labor: 1000, materials: 400, equipment: 100 };
+
+describe('cost model', () => {
+  it('burdens labor with payroll taxes and workers comp', () => {
+    expect(getLaborBurden(1000, rates)).toBe(180);
+  });
+
+  it('prices direct cost at the target gross margin', () => {
+    const price = priceFromCost(costs, rates);
+    expect(price).toBe(2584.62);
+    expect(analyzeMargin(costs, price, rates)).toMatchObject({
+      directCost: 1680,
+      overhead: 240,
+      grossProfit: 904.62,
+      grossMargin: 0.35,
+      profit: 664.62,
+      belowFloor: false,
+      warnings: []
+    });
+  });
+
+  it('warns when a discount drops the margin below the floor', () => {
+    const analysis = repriceMargin(analyzeMargin(costs, 2584.62, rates), 2100);
+    expect(analysis.grossMargin).toBe(0.2);
+    expect(analysis.belowFloor).toBe(true);
+    expect(analysis.warnings).toEqual(['Gross margin 20.0% is below the 25.0% floor']);
+  });
+
+  it('warns when the price does not cover overhead', () => {
+    expect(analyzeMargin(costs, 1800, rates).warnings).toContain('Price does not cover allocated overhead');
+  });
+
+  it('reports no margin on a zero price', () => {
+    expect(analyzeMargin({ laborHours: 0, labor: 0, materials: 0, equipment: 0 }, 0, rates)).toMatchObject({
+      grossMargin: 0,
+      belowFloor: false,
+      warnings: []
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { assessRrp, buildRrpChecklist } from '../lead-safety';
+import { PaintingCalculator, type EstimateScope } from '../painting-calculator';
+
+const scope: EstimateScope = {
+  surfaces: [{ name: 'Front', width: 50, height: 20, sqft: 1000, condition: 'fair', substrate: 'wood-siding', coats: 2 }],
+  rooms: [{
+    name: 'Den',
+    walls: { width: 40, height: 9, sqft: 360 },
+    ceiling: { width: 10, height: 10, sqft: 100 },
+    trim: { linear_feet: 40 },
+    doors: 1,
+    windows: 1
+  }]
+};
+
+describe('assessRrp', () => {
+  it('requires lead-safe work for homes built before 1978', () => {
+    expect(assessRrp({ yearBuilt: 1977 }).status).toBe('required');
+    expect(assessRrp({ yearBuilt: 1978 }).status).toBe('not-applicable');
+  });
+
+  it('exempts homes certified lead-free and flags unknown build years', () => {
+    expect(assessRrp({ yearBuilt: 1950, leadFree: true }).status).toBe('exempt');
+    expect(assessRrp().status).toBe('unknown');
+  });
+});
+
+describe('buildRrpChecklist', () => {
+  it('lists every step before, during and after the work', () => {
+    const checklist = buildRrpChecklist(assessRrp({ yearBuilt: 1960 }), 'Jordan Lee');
+    expect(checklist.certifiedRenovator).toBe('Jordan Lee');
+    expect(new Set(checklist.items.map(item => item.phase))).toEqual(new Set(['before', 'during', 'after']));
+    expect(checklist.items.every(item => !item.completed)).toBe(true);
+  });
+
+  it('asks the crew to confirm the year built when it is unknown', () => {
+    expect(buildRrpChecklist(assessRrp()).items.map(item => item.id)).toEqual(['confirm-year-built']);
+    expect(buildRrpChecklist(assessRrp({ yearBuilt: 2001 })).items).toEqual([]);
+  });
+});
+
+describe('calculateLeadSafety', () => {
+  const calculator = new PaintingCalculator();
+
+  it('adds containment, cleanup, renovator and disposal costs for pre-1978 homes', () => {
+    const base = calculator.calculateScope(scope);
+    const lead = calculator.calculateScope({ ...scope, property: { yearBuilt: 1965 } });
+    const item = lead.lineItems.find(entry => entry.kind === 'lead-safety');
+
+    expect(item?.parts?.map(part => part.name)).toEqual([
+      'Containment',
+      'HEPA Cleanup',
+      'Certified Renovator',
+      'Lead Waste Disposal'
+    ]);
+    // 1,000 sq ft of exterior: $175 per job plus $40 per 1,000 sq ft
+    expect(item?.parts?.[3].cost.other).toBe(215);
+    expect(lead.subtotal).toBeCloseTo(base.subtotal + (item?.cost.total || 0), 2);
+  });
+
+  it('adds nothing when the rule does not apply', () => {
+    const estimate = calculator.calculateScope({ ...scope, property: { yearBuilt: 1990 } });
+    expect(estimate.lineItems.some(entry => entry.kind === 'lead-safety')).toBe(false);
+  });
+});
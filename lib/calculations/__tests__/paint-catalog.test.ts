@@ -0,0 +1,72 @@
+import {
+  buildMaterialList,
+  cheapestContainerMix,
+  defaultPaintCatalog as catalog,
+  getProduct,
+  selectProduct
+} from '../paint-catalog';
+import { PaintingCalculator } from '../painting-calculator';
+
+const emerald = getProduct(catalog, 'sw-emerald-exterior'); // $19 quart, $55 gallon, $255 pail
+
+describe('cheapestContainerMix', () => {
+  it('buys quarts for small amounts', () => {
+    expect(cheapestContainerMix(0.5, emerald)).toEqual([{ size: 'quart', count: 2, unitPrice: 19, total: 38 }]);
+  });
+
+  it('buys a gallon once it is cheaper than quarts', () => {
+    expect(cheapestContainerMix(0.8, emerald)).toEqual([{ size: 'gallon', count: 1, unitPrice: 55, total: 55 }]);
+  });
+
+  it('buys a pail once it is cheaper than gallons', () => {
+    expect(cheapestContainerMix(4.75, emerald)).toEqual([{ size: 'pail', count: 1, unitPrice: 255, total: 255 }]);
+    expect(cheapestContainerMix(6.1, emerald)).toEqual([
+      { size: 'pail', count: 1, unitPrice: 255, total: 255 },
+      { size: 'gallon', count: 1, unitPrice: 55, total: 55 },
+      { size: 'quart', count: 1, unitPrice: 19, total: 19 }
+    ]);
+  });
+
+  it('rounds up to whole gallons when the product has no quarts', () => {
+    const trim = getProduct(catalog, 'sw-emerald-trim');
+    expect(cheapestContainerMix(1.1, { ...trim, prices: { gallon: 62 } })).toEqual([
+      { size: 'gallon', count: 2, unitPrice: 62, total: 124 }
+    ]);
+  });
+
+  it('buys nothing for no paint', () => {
+    expect(cheapestContainerMix(0, emerald)).toEqual([]);
+  });
+});
+
+describe('selectProduct', () => {
+  it('rejects sheens the product does not come in', () => {
+    expect(() => selectProduct(catalog, 'exterior', 'eggshell')).toThrow(/Emerald Exterior is not available in eggshell/);
+  });
+});
+
+describe('buildMaterialList', () => {
+  it('combines usage by product, sheen and color', () => {
+    const list = buildMaterialList(catalog, [
+      { productId: 'sw-emerald-interior', sheen: 'eggshell', gallons: 1.5 },
+      { productId: 'sw-emerald-interior', sheen: 'eggshell', gallons: 2 },
+      { productId: 'sw-emerald-interior', sheen: 'eggshell', color: 'SW 7006', gallons: 1 }
+    ]);
+    expect(list.map(item => [item.color, item.gallonsNeeded, item.gallonsPurchased])).toEqual([
+      [undefined, 3.5, 3.5],
+      ['SW 7006', 1, 1]
+    ]);
+  });
+});
+
+describe('material list on estimates', () => {
+  it('reconciles line item paint with whole containers', () => {
+    const result = new PaintingCalculator().calculateExterior([
+      { name: 'Front', width: 40, height: 10, sqft: 400, condition: 'good', substrate: 'wood-siding', coats: 2 }
+    ]);
+    const purchased = result.materialList.reduce((sum, item) => sum + item.cost, 0);
+
+    expect(result.lineItems.at(-1)?.kind).toBe('container-rounding');
+    expect(result.materials.paint.total + result.materials.primer.total).toBeCloseTo(purchased, 2);
+  });
+});
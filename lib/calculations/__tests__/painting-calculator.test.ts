@@ -0,0 +1,89 @@
+import { PaintingCalculator, type Room, type Surface } from '../painting-calculator';
+
+const calculator = new PaintingCalculator();
+
+function surface(overrides: Partial<Surface> = {}): Surface {
+  return {
+    name: 'South Wall',
+    width: 40,
+    height: 10,
+    sqft: 400,
+    condition: 'good',
+    substrate: 'wood',
+    coats: 2,
+    ...overrides
+  };
+}
+
+function room(overrides: Partial<Room> = {}): Room {
+  return {
+    name: 'Living Room',
+    walls: { width: 50, height: 9, sqft: 450 },
+    ceiling: { width: 15, height: 15, sqft: 225 },
+    trim: { linear_feet: 60 },
+    doors: 1,
+    windows: 2,
+    ...overrides
+  };
+}
+
+describe('application methods', () => {
+  it('paints fastest by spray and slowest by brush', () => {
+    const [spray, roll, brush] = (['spray', 'roll', 'brush'] as const).map(method =>
+      calculator.calculateExterior([surface({ applicationMethod: method })]).labor.painting.hours
+    );
+    expect(spray).toBeLessThan(roll);
+    expect(roll).toBeLessThan(brush);
+  });
+
+  it('defaults to rolling', () => {
+    expect(calculator.calculateExterior([surface()]).labor)
+      .toEqual(calculator.calculateExterior([surface({ applicationMethod: 'roll' })]).labor);
+  });
+
+  it('adds masking labor and overspray when spraying', () => {
+    const rolled = calculator.calculateExterior([surface({ applicationMethod: 'roll' })]);
+    const sprayed = calculator.calculateExterior([surface({ applicationMethod: 'spray' })]);
+
+    expect(sprayed.labor.prep.hours).toBeGreaterThan(rolled.labor.prep.hours);
+    expect(sprayed.lineItems[0].gallons.paint).toBeCloseTo(rolled.lineItems[0].gallons.paint * 1.25, 1);
+  });
+
+  it('applies the method to interior walls', () => {
+    const rolled = calculator.calculateInterior([room()]);
+    const brushed = calculator.calculateInterior([
+      room({ walls: { width: 50, height: 9, sqft: 450, applicationMethod: 'brush' } })
+    ]);
+    expect(brushed.labor.painting.hours).toBeGreaterThan(rolled.labor.painting.hours);
+  });
+});
+
+describe('line items', () => {
+  it('returns one line item per surface and room', () => {
+    const result = calculator.calculateScope({
+      surfaces: [surface(), surface({ name: 'North Wall' })],
+      rooms: [room()]
+    });
+    const names = result.lineItems.filter(item => item.kind !== 'container-rounding').map(item => item.name);
+    expect(names).toEqual(['South Wall', 'North Wall', 'Living Room']);
+  });
+
+  it('rolls room parts up exactly into the room', () => {
+    const [living] = calculator.calculateInterior([room()]).lineItems;
+    const parts = living.parts || [];
+
+    expect(parts.map(part => part.kind)).toEqual(['walls', 'ceiling', 'trim', 'doors', 'windows']);
+    expect(living.cost.total).toBeCloseTo(parts.reduce((total, part) => total + part.cost.total, 0), 10);
+    expect(living.hours.total).toBeCloseTo(parts.reduce((total, part) => total + part.hours.total, 0), 10);
+  });
+
+  it('adds up exactly to the estimate totals', () => {
+    const result = calculator.calculateScope({ surfaces: [surface()], rooms: [room()] });
+    const total = (key: 'labor' | 'materials' | 'equipment') =>
+      result.lineItems.reduce((sum, item) => sum + item.cost[key], 0);
+
+    expect(total('labor')).toBeCloseTo(result.labor.total, 10);
+    expect(total('materials')).toBeCloseTo(result.materials.total, 10);
+    expect(total('labor') + total('materials') + total('equipment')).toBeCloseTo(result.subtotal, 10);
+  });
+});
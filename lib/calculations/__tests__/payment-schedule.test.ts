@@ -0,0 +1,98 @@
+import {
+  buildPaymentSchedule,
+  defaultPaymentTemplates,
+  getPaymentSummary,
+  recordPayment,
+  rescalePaymentSchedule,
+  selectPaymentTemplate
+} from '../payment-schedule';
+import { scheduleWork } from '../timeline';
+
+// Two days of prep then four of paint, starting Monday 2024-06-03
+const project = scheduleWork(
+  [{ phase: 'prep', hours: 16 }, { phase: 'paint', hours: 32 }],
+  { startDate: '2024-06-03', crews: { prep: 1, paint: 1 } }
+);
+const standard = selectPaymentTemplate(defaultPaymentTemplates, 10000);
+
+describe('selectPaymentTemplate', () => {
+  it('picks the template whose range covers the total', () => {
+    expect(selectPaymentTemplate(defaultPaymentTemplates, 4999.99).id).toBe('small-job');
+    expect(standard.id).toBe('standard');
+  });
+});
+
+describe('buildPaymentSchedule', () => {
+  it('dates milestones from the project schedule and balances to the cent', () => {
+    const schedule = buildPaymentSchedule(standard, 10000.01, project, '2024-05-20');
+
+    expect(schedule.milestones.map(milestone => [milestone.amount, milestone.dueDate])).toEqual([
+      [3000, '2024-05-20'],
+      [4000, '2024-06-05'],
+      [3000.01, project.finishDate]
+    ]);
+  });
+
+  it('never exceeds the job with a fixed deposit', () => {
+    const small = selectPaymentTemplate(defaultPaymentTemplates, 300);
+    expect(buildPaymentSchedule(small, 300, project, '2024-05-20').milestones.map(milestone => milestone.amount))
+      .toEqual([300, 0]);
+  });
+});
+
+describe('recordPayment', () => {
+  it('accumulates partial payments and rejects overpayment', () => {
+    const schedule = buildPaymentSchedule(standard, 10000, project, '2024-05-20');
+    const partial = recordPayment(schedule, 'milestone-1', { amount: 1000, paidAt: '2024-05-20' });
+    const paid = recordPayment(partial, 'milestone-1', { paidAt: '2024-05-21', reference: 'CHK 1042' });
+
+    expect(partial.milestones[0]).toMatchObject({ status: 'partial', paidAmount: 1000 });
+    expect(paid.milestones[0]).toMatchObject({ status: 'paid', paidAmount: 3000, reference: 'CHK 1042' });
+    expect(() => recordPayment(paid, 'milestone-1', { amount: 1 })).toThrow(/does not fit/);
+    expect(getPaymentSummary(paid, '2024-06-10')).toMatchObject({
+      paid: 3000,
+      outstanding: 7000,
+      nextDue: paid.milestones[1],
+      overdue: [paid.milestones[1]]
+    });
+  });
+});
+
+describe('rescalePaymentSchedule', () => {
+  const schedule = buildPaymentSchedule(standard, 10000, project, '2024-05-20');
+
+  it('re-selects the template before any payment', () => {
+    const rescaled = rescalePaymentSchedule(schedule, 4000, project, {
+      templates: defaultPaymentTemplates,
+      signedDate: '2024-05-20'
+    });
+    expect(rescaled.template.id).toBe('small-job');
+    expect(rescaled.milestones.map(milestone => milestone.amount)).toEqual([500, 3500]);
+  });
+
+  it('keeps recorded payments and the terms they were taken under', () => {
+    const paid = recordPayment(schedule, 'milestone-1', { paidAt: '2024-05-20', reference: 'CHK 1042' });
+    const rescaled = rescalePaymentSchedule(paid, 12000, project, {
+      templates: defaultPaymentTemplates,
+      signedDate: '2024-05-20'
+    });
+
+    expect(rescaled.template).toBe(standard);
+    expect(rescaled.total).toBe(12000);
+    expect(rescaled.milestones[0]).toMatchObject({ amount: 3000, status: 'paid', paidAmount: 3000, reference: 'CHK 1042' });
+    expect(rescaled.milestones.map(milestone => milestone.amount)).toEqual([3000, 4800, 4200]);
+  });
+
+  it('raises a partly paid milestone to what was paid', () => {
+    const partial = recordPayment(schedule, 'milestone-2', { amount: 3500, paidAt: '2024-06-06' });
+    const rescaled = rescalePaymentSchedule(partial, 8000, project);
+
+    expect(rescaled.milestones[1]).toMatchObject({ amount: 3500, status: 'paid', paidAmount: 3500 });
+    expect(rescaled.milestones.map(milestone => milestone.amount)).toEqual([2400, 3500, 2100]);
+  });
+
+  it('rejects totals below what has been paid', () => {
+    const paid = recordPayment(recordPayment(schedule, 'milestone-1'), 'milestone-2');
+    expect(() => rescalePaymentSchedule(paid, 6000, project)).toThrow(/exceed a total of 6000/);
+  });
+});
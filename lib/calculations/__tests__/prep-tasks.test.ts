@@ -0,0 +1,74 @@
+import { PaintingCalculator, type Surface } from '../painting-calculator';
+import { defaultPrepTaskRates } from '../prep-tasks';
+
+const calculator = new PaintingCalculator();
+
+function surface(overrides: Partial<Surface> = {}): Surface {
+  return { name: 'Front', width: 50, height: 20, sqft: 1000, condition: 'fair', substrate: 'wood-siding', coats: 2, ...overrides };
+}
+
+function taskIds(result: ReturnType<PaintingCalculator['calculateExterior']>): string[] {
+  return (result.lineItems[0].parts || []).map(part => part.id);
+}
+
+describe('itemized exterior prep', () => {
+  it('prices each task in scope as its own line, in work order', () => {
+    const result = calculator.calculateExterior([surface()], {
+      prepWork: { priming: true, powerWashing: true, caulking: true, scraping: true }
+    });
+    expect(taskIds(result)).toEqual([
+      'surface-1-painting',
+      'surface-1-powerWashing',
+      'surface-1-scraping',
+      'surface-1-caulking',
+      'surface-1-priming'
+    ]);
+  });
+
+  it('sizes condition-driven tasks to the affected share of the surface', () => {
+    const [fair, poor] = (['fair', 'poor'] as const).map(condition =>
+      calculator.calculateExterior([surface({ condition })], { prepWork: { scraping: true } }).lineItems[0].parts![1]
+    );
+    expect(fair.quantity).toBe(350);
+    expect(poor.quantity).toBe(700);
+    expect(poor.hours.prep).toBeCloseTo(700 / defaultPrepTaskRates.tasks.scraping.rate, 2);
+  });
+
+  it('buys consumables in whole purchase units', () => {
+    const result = calculator.calculateExterior([surface({ caulkLinearFeet: 130 })], { prepWork: { caulking: true } });
+    const caulking = result.lineItems[0].parts![1];
+
+    expect(caulking.consumables).toEqual([
+      { name: 'Elastomeric caulk', unit: 'tube', quantity: 6, unitPrice: 7.5, total: 45 }
+    ]);
+    expect(caulking.cost.other).toBe(45);
+  });
+
+  it('primes only when priming is in scope', () => {
+    const unprimed = calculator.calculateExterior([surface()], { prepWork: { powerWashing: true } });
+    const primed = calculator.calculateExterior([surface()], { prepWork: { powerWashing: true, priming: true } });
+
+    expect(unprimed.materials.primer.gallons).toBe(0);
+    expect(primed.materials.primer.gallons).toBeGreaterThan(0);
+  });
+
+  it('adds priming for substrates that always need primer', () => {
+    const result = calculator.calculateExterior([surface({ substrate: 'metal' })], { prepWork: { powerWashing: true } });
+    const priming = result.lineItems[0].parts!.find(part => part.id === 'surface-1-priming');
+
+    expect(priming?.gallons.primer).toBeGreaterThan(0);
+    // The finish coats go over primer, so they use no extra paint for porosity
+    const condition = calculator.calculateExterior([surface({ substrate: 'metal' })]);
+    expect(result.lineItems[0].gallons.paint).toBe(condition.lineItems[0].gallons.paint);
+  });
+
+  it('lets a surface override the job-level prep', () => {
+    const result = calculator.calculateExterior(
+      [surface({ prepWork: { scraping: true } }), surface({ name: 'Back' })],
+      { prepWork: { powerWashing: true } }
+    );
+    expect(result.lineItems[0].parts!.map(part => part.kind)).toEqual(['surface-painting', 'prep-task']);
+    expect(result.lineItems[0].parts![1].name).toBe('Scraping & Sanding');
+    expect(result.lineItems[1].parts![1].name).toBe('Power Washing');
+  });
+});
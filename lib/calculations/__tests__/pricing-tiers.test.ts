@@ -0,0 +1,70 @@
+import { PaintingCalculator, type EstimateScope } from '../painting-calculator';
+import {
+  applyTierToScope,
+  getProductLineLabel,
+  getTierFeatures,
+  tierDefinitions
+} from '../pricing-tiers';
+import { defaultRateCard } from '../rate-cards';
+
+const scope: EstimateScope = {
+  surfaces: [{ name: 'Front', width: 40, height: 10, sqft: 400, condition: 'fair', substrate: 'wood-siding', coats: 2 }],
+  rooms: [{
+    name: 'Den',
+    walls: { width: 40, height: 9, sqft: 360 },
+    ceiling: { width: 10, height: 10, sqft: 100 },
+    trim: { linear_feet: 40 },
+    doors: 1,
+    windows: 1
+  }]
+};
+
+describe('getTierFeatures', () => {
+  it('labels each tier with the products it is priced with', () => {
+    expect(getTierFeatures(tierDefinitions.good, defaultRateCard)[0])
+      .toBe('Sherwin-Williams Emerald Exterior, Emerald Interior, Emerald Urethane Trim Enamel');
+    // Better only upgrades the exterior product
+    expect(getTierFeatures(tierDefinitions.better, defaultRateCard)[0])
+      .toBe('Sherwin-Williams Rain Refresh Premium, Emerald Interior, Emerald Urethane Trim Enamel');
+    expect(getTierFeatures(tierDefinitions.best, defaultRateCard)[0])
+      .toBe('Benjamin Moore Aura Exterior, Aura Interior, Advance Interior Alkyd');
+  });
+
+  it('lists coats, prep scope and warranty', () => {
+    expect(getTierFeatures(tierDefinitions.best, defaultRateCard).slice(1))
+      .toEqual(['3-coat finish', 'Premium restoration prep', '7-year warranty']);
+  });
+
+  it('follows the catalog product selections', () => {
+    const catalog = defaultRateCard.paintCatalog;
+    expect(getProductLineLabel({
+      ...catalog,
+      selections: { ...catalog.selections, trim: { productId: 'bm-advance', sheen: 'semi-gloss' } }
+    })).toBe('Sherwin-Williams Emerald Exterior, Emerald Interior; Benjamin Moore Advance Interior Alkyd');
+  });
+});
+
+describe('applyTierToScope', () => {
+  it('raises coats to the tier minimum without lowering them', () => {
+    const best = applyTierToScope(scope, tierDefinitions.best);
+    expect(best.surfaces?.[0].coats).toBe(3);
+    expect(applyTierToScope({ surfaces: [{ ...scope.surfaces![0], coats: 4 }] }, tierDefinitions.best).surfaces?.[0].coats).toBe(4);
+  });
+});
+
+describe('calculatePricingTiers', () => {
+  const tiers = new PaintingCalculator().calculatePricingTiers(scope);
+
+  it('recalculates each tier with its own inputs', () => {
+    expect(tiers.good.total).toBeLessThan(tiers.better.total);
+    expect(tiers.better.total).toBeLessThan(tiers.best.total);
+    expect(tiers.best.labor.prep.hours).toBeGreaterThan(tiers.good.labor.prep.hours);
+    expect(tiers.best.materialList.map(item => item.brand)).toContain('Benjamin Moore');
+  });
+
+  it('reports each tier relative to Good', () => {
+    expect(tiers.good.tier.multiplier).toBe(1);
+    expect(tiers.best.tier.multiplier).toBeCloseTo(tiers.best.total / tiers.good.total, 2);
+    expect(tiers.better.tier.features).toEqual(getTierFeatures(tierDefinitions.better, defaultRateCard));
+  });
+});
@@ -0,0 +1,79 @@
+import { PaintingCalculator } from '../painting-calculator';
+import { RateCardRegistry, defaultRateCard, validateRateCard } from '../rate-cards';
+
+const surface = {
+  name: 'South Wall',
+  width: 40,
+  height: 10,
+  sqft: 400,
+  condition: 'good' as const,
+  substrate: 'wood',
+  coats: 2
+};
+
+describe('validateRateCard', () => {
+  it('accepts the default rate card', () => {
+    expect(validateRateCard(defaultRateCard)).toEqual(defaultRateCard);
+  });
+
+  it('lists every invalid field', () => {
+    const card = {
+      ...defaultRateCard,
+      laborRates: { ...defaultRateCard.laborRates, prep: -1 },
+      effectiveTo: '2023-12-31'
+    };
+    expect(() => validateRateCard(card)).toThrow(/laborRates\.prep: Rate must be positive/);
+    expect(() => validateRateCard(card)).toThrow(/effectiveTo: effectiveTo must not be before effectiveFrom/);
+  });
+});
+
+describe('RateCardRegistry', () => {
+  let registry: RateCardRegistry;
+
+  beforeEach(() => {
+    registry = new RateCardRegistry();
+    registry.load([
+      defaultRateCard,
+      { ...defaultRateCard, version: 2, effectiveFrom: '2025-01-01', laborRates: { ...defaultRateCard.laborRates, painting: 70 } }
+    ]);
+  });
+
+  it('resolves the latest version in effect on a date', () => {
+    expect(registry.resolve(defaultRateCard.id, new Date('2024-06-01')).version).toBe(1);
+    expect(registry.resolve(defaultRateCard.id, new Date('2025-06-01')).version).toBe(2);
+  });
+
+  it('rejects dates before any version is effective', () => {
+    expect(() => registry.resolve(defaultRateCard.id, new Date('2023-06-01'))).toThrow(/No version/);
+  });
+
+  it('keeps registered versions immutable', () => {
+    expect(() => registry.register(defaultRateCard)).toThrow(/already registered/);
+    expect(Object.isFrozen(registry.get({ id: defaultRateCard.id, version: 1 }))).toBe(true);
+  });
+
+  it('freezes nested rates without freezing the caller\'s data', () => {
+    const card = registry.resolve(defaultRateCard.id, new Date('2024-06-01'));
+    expect(() => { card.laborRates.painting = 1; }).toThrow(TypeError);
+    expect(() => { card.paymentTemplates[0].milestones.pop(); }).toThrow(TypeError);
+    expect(card.laborRates.painting).toBe(defaultRateCard.laborRates.painting);
+    expect(Object.isFrozen(defaultRateCard.laborRates)).toBe(false);
+  });
+});
+
+describe('PaintingCalculator rate cards', () => {
+  it('prices labor at the rate card rates and records the version', () => {
+    const card = validateRateCard({
+      ...defaultRateCard,
+      version: 2,
+      laborRates: { ...defaultRateCard.laborRates, painting: 130 }
+    });
+    const standard = new PaintingCalculator().calculateExterior([surface]);
+    const raised = new PaintingCalculator(card).calculateExterior([surface]);
+
+    expect(raised.labor.painting.rate).toBe(130);
+    expect(raised.labor.painting.total).toBeCloseTo(standard.labor.painting.total * 2, 2);
+    expect(raised.rateCard).toEqual({ id: defaultRateCard.id, version: 2 });
+  });
+});
+
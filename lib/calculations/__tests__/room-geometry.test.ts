@@ -0,0 +1,72 @@
+import { PaintingCalculator, type Room } from '../painting-calculator';
+import { getGrossWallArea, getOpeningArea, getPitchedArea, getWallArea } from '../room-geometry';
+
+describe('wall areas', () => {
+  it('computes rectangle, sloped and gable walls', () => {
+    expect(getGrossWallArea({ length: 12, height: 8 })).toBe(96);
+    expect(getGrossWallArea({ length: 12, height: 8, peakHeight: 12, shape: 'sloped' })).toBe(120);
+    expect(getGrossWallArea({ length: 12, height: 8, peakHeight: 12, shape: 'gable' })).toBe(120);
+    expect(getGrossWallArea({ length: 12, height: 8, sqft: 100 })).toBe(100);
+  });
+
+  it('deducts openings at their measured or standard size', () => {
+    expect(getOpeningArea({ type: 'door' })).toBe(21);
+    expect(getOpeningArea({ type: 'window', width: 4, height: 4, count: 2 })).toBe(32);
+    expect(getWallArea({
+      length: 12,
+      height: 8,
+      openings: [{ type: 'door' }, { type: 'window', count: 2 }]
+    })).toEqual({ gross: 96, openings: 51, net: 45 });
+  });
+
+  it('never goes below zero', () => {
+    expect(getWallArea({ length: 3, height: 7, openings: [{ type: 'opening' }] }).net).toBe(0);
+  });
+
+  it('adds area for pitched ceilings', () => {
+    expect(getPitchedArea(100)).toBe(100);
+    expect(getPitchedArea(100, 12)).toBeCloseTo(141.42, 2);
+  });
+});
+
+describe('rooms with individual walls', () => {
+  const calculator = new PaintingCalculator();
+  const room: Room = {
+    name: 'Stair Hall',
+    walls: [
+      { length: 12, height: 8, openings: [{ type: 'door' }] },
+      { length: 12, height: 8, accent: true, color: 'SW 6258' },
+      { length: 12, height: 8, location: 'stairwell' }
+    ],
+    ceiling: { width: 12, height: 12, sqft: 144 },
+    trim: { linear_feet: 48 },
+    doors: 1,
+    windows: 0
+  };
+
+  it('prices each wall on its net area', () => {
+    const [hall] = calculator.calculateInterior([room]).lineItems;
+    const walls = (hall.parts || []).filter(part => part.kind === 'walls');
+
+    expect(walls.map(wall => [wall.name, wall.quantity])).toEqual([
+      ['Wall 1', 75],
+      ['Accent Wall 2', 96],
+      ['Stairwell Wall 3', 96]
+    ]);
+  });
+
+  it('slows labor for accent and stairwell walls', () => {
+    const [hall] = calculator.calculateInterior([room]).lineItems;
+    const [, accent, stairwell] = hall.parts || [];
+    const plain = calculator.calculateInterior([{ ...room, walls: [{ length: 12, height: 8 }] }]).lineItems[0].parts![0];
+
+    expect(accent.hours.painting).toBeCloseTo(plain.hours.painting * 1.2, 1);
+    expect(stairwell.hours.painting).toBeCloseTo(plain.hours.painting * 1.5, 1);
+  });
+
+  it('buys accent colors separately', () => {
+    const result = calculator.calculateInterior([room]);
+    const walls = result.materialList.filter(item => item.productId === 'sw-emerald-interior');
+    expect(walls.map(item => item.color)).toEqual([undefined, 'SW 6258']);
+  });
+});
@@ -0,0 +1,78 @@
+import { SalesTaxEngine, defaultTaxRateTable, validateTaxRateTable } from '../sales-tax';
+
+const engine = new SalesTaxEngine();
+const job = { labor: 6000, materials: 2000, equipment: 500, markup: 1500 };
+
+describe('SalesTaxEngine', () => {
+  it('itemizes each jurisdiction for the ZIP code', () => {
+    const breakdown = engine.calculate({ ...job, zip: '80202' });
+
+    expect(breakdown.location).toBe('Denver');
+    expect(breakdown.fallback).toBe(false);
+    expect(breakdown.lines.map(line => [line.name, line.amount])).toEqual([
+      ['Colorado', 290],
+      ['City and County of Denver', 481],
+      ['Regional Transportation District', 100],
+      ['Scientific & Cultural Facilities District', 10]
+    ]);
+    expect(breakdown.rate).toBeCloseTo(0.0881, 10);
+    expect(breakdown.total).toBe(881);
+  });
+
+  it('taxes only materials in materials-basis jurisdictions', () => {
+    const breakdown = engine.calculate({ ...job, zip: '80302' });
+    const city = breakdown.lines.find(line => line.name === 'City of Boulder');
+    const county = breakdown.lines.find(line => line.name === 'Boulder County');
+
+    expect(city).toMatchObject({ basis: 'materials', taxable: 2000, amount: 77.2 });
+    expect(county).toMatchObject({ basis: 'subtotal', taxable: 10000 });
+    expect(breakdown.total).toBeCloseTo(breakdown.lines.reduce((sum, line) => sum + line.amount, 0), 10);
+  });
+
+  it('accepts ZIP+4 strings and numeric ZIP codes', () => {
+    expect(engine.calculate({ ...job, zip: ' 80202-1234 ' }).location).toBe('Denver');
+    expect(engine.calculate({ ...job, zip: 80202 })).toMatchObject({ location: 'Denver', zip: '80202' });
+  });
+
+  it('estimates with the fallback rates for unknown ZIP codes', () => {
+    const breakdown = engine.calculate({ ...job, zip: '99999' });
+    expect(breakdown.fallback).toBe(true);
+    expect(breakdown.rate).toBeCloseTo(0.0875, 10);
+    expect(engine.calculate(job).fallback).toBe(true);
+  });
+
+  it('charges nothing to exempt customers', () => {
+    expect(engine.calculate({ ...job, zip: '80202', exempt: true, exemptionId: 'EX-1' })).toMatchObject({
+      exempt: true,
+      exemptionId: 'EX-1',
+      lines: [],
+      total: 0
+    });
+  });
+
+  it('loads replacement rate tables', () => {
+    const custom = new SalesTaxEngine({
+      ...defaultTaxRateTable,
+      version: '2025-01',
+      locations: [{ label: 'Golden', zips: ['80401'], jurisdictions: [{ level: 'state', name: 'Colorado', rate: 0.029 }] }]
+    });
+    expect(custom.calculate({ ...job, zip: '80401' })).toMatchObject({ location: 'Golden', tableVersion: '2025-01', total: 290 });
+  });
+});
+
+describe('validateTaxRateTable', () => {
+  it('rejects ZIP codes listed under two locations', () => {
+    const [denver] = defaultTaxRateTable.locations;
+    expect(() => validateTaxRateTable({
+      ...defaultTaxRateTable,
+      locations: [denver, { ...denver, label: 'Copy' }]
+    })).toThrow(/Each ZIP code may only appear in one location/);
+  });
+
+  it('rejects rates given as percentages', () => {
+    expect(() => validateTaxRateTable({
+      ...defaultTaxRateTable,
+      fallback: { label: 'Bad', zips: [], jurisdictions: [{ level: 'state', name: 'Colorado', rate: 2.9 }] }
+    })).toThrow(/Rates are fractions/);
+  });
+});
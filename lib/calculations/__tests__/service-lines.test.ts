@@ -0,0 +1,48 @@
+import { PaintingCalculator } from '../painting-calculator';
+import { defaultServiceLineRates, isCabinetFinish } from '../service-lines';
+
+const calculator = new PaintingCalculator();
+
+describe('isCabinetFinish', () => {
+  it('accepts only known finishes', () => {
+    expect(isCabinetFinish('lacquer')).toBe(true);
+    expect(isCabinetFinish('chalk')).toBe(false);
+    expect(isCabinetFinish(undefined)).toBe(false);
+  });
+});
+
+describe('calculateGutters', () => {
+  it('prices gutters by linear foot and downspouts each', () => {
+    const result = calculator.calculateGutters([{ name: 'Front', linearFeet: 100, downspouts: 4 }]);
+    const [gutters, downspouts] = result.lineItems[0].parts || [];
+    const rates = defaultServiceLineRates.gutter;
+
+    expect(gutters).toMatchObject({ quantity: 100, unit: 'lf' });
+    expect(gutters.hours.painting).toBeCloseTo(100 * rates.linearFoot.hours, 10);
+    expect(downspouts).toMatchObject({ quantity: 4, unit: 'each' });
+    expect(downspouts.cost.other).toBeCloseTo(4 * rates.downspout.materials, 10);
+  });
+});
+
+describe('calculateCabinets', () => {
+  it('prices doors and drawer fronts at the finish rates', () => {
+    const [paint, glaze] = (['paint', 'glaze'] as const).map(finish =>
+      calculator.calculateCabinets([{ name: 'Kitchen', doors: 20, drawerFronts: 10, finish }])
+    );
+    const rates = defaultServiceLineRates.cabinet.glaze;
+
+    expect(glaze.labor.painting.hours).toBeCloseTo(20 * rates.door.hours + 10 * rates.drawerFront.hours, 10);
+    expect(glaze.total).toBeGreaterThan(paint.total);
+  });
+});
+
+describe('calculateHolidayLighting', () => {
+  it('bills install as specialty labor and adds removal when included', () => {
+    const installOnly = calculator.calculateHolidayLighting([{ name: 'Roofline', rooflineFeet: 150, includeRemoval: false }]);
+    const withRemoval = calculator.calculateHolidayLighting([{ name: 'Roofline', rooflineFeet: 150, includeRemoval: true }]);
+
+    expect(installOnly.labor.painting.hours).toBe(0);
+    expect(installOnly.labor.specialty.hours).toBeCloseTo(150 * 0.06, 10);
+    expect(withRemoval.lineItems[0].parts?.map(part => part.kind)).toEqual(['lighting-install', 'lighting-removal']);
+  });
+});
@@ -0,0 +1,47 @@
+import { PaintingCalculator, type Surface } from '../painting-calculator';
+import { getSubstrateProfile, isKnownSubstrate, substrateCatalog } from '../substrates';
+
+const calculator = new PaintingCalculator();
+
+function surface(substrate: string, condition: Surface['condition'] = 'good'): Surface {
+  return { name: 'Wall', width: 40, height: 10, sqft: 400, condition, substrate, coats: 2 };
+}
+
+describe('getSubstrateProfile', () => {
+  it('returns catalog profiles for known substrates', () => {
+    expect(isKnownSubstrate('stucco')).toBe(true);
+    expect(getSubstrateProfile('stucco', substrateCatalog.vinyl)).toBe(substrateCatalog.stucco);
+  });
+
+  it('falls back for unknown substrates', () => {
+    expect(isKnownSubstrate('toString')).toBe(false);
+    expect(getSubstrateProfile('adobe', substrateCatalog.vinyl)).toBe(substrateCatalog.vinyl);
+  });
+});
+
+describe('substrate-driven estimates', () => {
+  it('uses more paint on rough, porous substrates', () => {
+    const stucco = calculator.calculateExterior([surface('stucco')]);
+    const vinyl = calculator.calculateExterior([surface('vinyl')]);
+    expect(stucco.lineItems[0].gallons.paint).toBeGreaterThan(vinyl.lineItems[0].gallons.paint);
+  });
+
+  it('always primes substrates that require it', () => {
+    expect(calculator.calculateExterior([surface('metal', 'excellent')]).lineItems[0].gallons.primer).toBeGreaterThan(0);
+  });
+
+  it('primes condition-driven substrates only in poor or fair condition', () => {
+    expect(calculator.calculateExterior([surface('wood', 'good')]).lineItems[0].gallons.primer).toBe(0);
+    expect(calculator.calculateExterior([surface('wood', 'fair')]).lineItems[0].gallons.primer).toBeGreaterThan(0);
+  });
+
+  it('never primes factory-primed substrates', () => {
+    expect(calculator.calculateExterior([surface('fiber-cement', 'poor')]).lineItems[0].gallons.primer).toBe(0);
+  });
+
+  it('scales prep hours by the substrate prep multiplier', () => {
+    const brick = calculator.calculateExterior([surface('brick')]).labor.prep.hours;
+    const siding = calculator.calculateExterior([surface('wood-siding')]).labor.prep.hours;
+    expect(brick / siding).toBeCloseTo(1.3, 1);
+  });
+});
@@ -0,0 +1,123 @@
+import { businessRulesEngine } from '../business-rules';
+import { PaintingCalculator, type EstimateScope, type Surface } from '../painting-calculator';
+import {
+  applyCoatsToScope,
+  dropScopeItems,
+  getDropCombinations,
+  priceOption,
+  rankPriceOptions
+} from '../target-price';
+
+const calculator = new PaintingCalculator();
+
+function surface(name: string, sqft: number): Surface {
+  return { name, width: sqft / 10, height: 10, sqft, condition: 'fair', substrate: 'wood-siding', coats: 2 };
+}
+
+const scope: EstimateScope = {
+  surfaces: [surface('House', 1500), surface('Garage', 600), surface('Shed', 200)],
+  gutters: [{ name: 'Front', linearFeet: 80, downspouts: 2 }]
+};
+
+describe('getDropCombinations', () => {
+  it('lists every combination up to the limit, smallest first', () => {
+    const [a, b, c] = ['A', 'B', 'C'].map(name => ({ line: 'surfaces' as const, name }));
+    expect(getDropCombinations([a, b, c], 2)).toEqual([[], [a], [b], [c], [a, b], [a, c], [b, c]]);
+  });
+});
+
+describe('dropScopeItems', () => {
+  it('removes the named items from their own service line only', () => {
+    const result = dropScopeItems(scope, [
+      { line: 'surfaces', name: 'Shed' },
+      { line: 'gutters', name: 'Garage' }
+    ]);
+    expect(result.surfaces?.map(item => item.name)).toEqual(['House', 'Garage']);
+    expect(result.gutters).toEqual(scope.gutters);
+  });
+
+  it('returns the scope unchanged when nothing is dropped', () => {
+    expect(dropScopeItems(scope, [])).toBe(scope);
+  });
+});
+
+describe('applyCoatsToScope', () => {
+  it('sets coats on surfaces and walls', () => {
+    const result = applyCoatsToScope({
+      ...scope,
+      rooms: [{
+        name: 'Den',
+        walls: [{ length: 10, height: 8 }],
+        ceiling: { width: 10, height: 10, sqft: 100 },
+        trim: { linear_feet: 40 },
+        doors: 0,
+        windows: 0
+      }]
+    }, 1);
+    expect(result.surfaces?.every(item => item.coats === 1)).toBe(true);
+    expect(result.rooms?.[0].walls).toEqual([{ length: 10, height: 8, coats: 1 }]);
+  });
+});
+
+describe('priceOption', () => {
+  const estimate = calculator.calculatePricingTiers(scope).good;
+
+  it('discounts toward the target up to the cap', () => {
+    const option = priceOption({ tier: 'good', dropped: [], estimate }, estimate.total * 0.8, 0.1, 0.05);
+    expect(option.discount).toBe(0.1);
+    expect(option.price).toBeCloseTo(estimate.total * 0.9, 1);
+    expect(option.withinTolerance).toBe(false);
+  });
+
+  it('never discounts below the margin floor', () => {
+    const option = priceOption({ tier: 'good', dropped: [], estimate }, 1, 0.9, 0.05);
+    expect(option.margin.grossMargin).toBeGreaterThanOrEqual(estimate.margin.marginFloor);
+  });
+
+  it('never discounts below the minimum job', () => {
+    const small = calculator.applyBusinessRules(calculator.calculatePricingTiers({ surfaces: [surface('Shed', 100)] }).good);
+    const minimum = businessRulesEngine.getMinimumTotal(small);
+    const option = priceOption({ tier: 'good', dropped: [], estimate: small }, 2000, 0.3, 0.05, minimum);
+
+    expect(small.total).toBe(2500);
+    expect(option).toMatchObject({ listPrice: 2500, price: 2500, discount: 0 });
+  });
+
+  it('keeps the list price when it is already under the target', () => {
+    const option = priceOption({ tier: 'good', dropped: [], estimate }, estimate.total + 500, 0.2, 0.05);
+    expect(option).toMatchObject({ price: estimate.total, discount: 0, difference: -500 });
+  });
+});
+
+describe('solveTargetPrice', () => {
+  it('ranks options by distance from the target', () => {
+    const full = calculator.calculatePricingTiers(scope).good.total;
+    const options = calculator.solveTargetPrice(scope, {
+      targetPrice: Math.round(full * 0.8),
+      levers: {
+        tiers: ['good', 'better'],
+        droppableItems: [{ line: 'surfaces', name: 'Garage' }, { line: 'surfaces', name: 'Shed' }],
+        maxDiscount: 0.05
+      },
+      limit: 10
+    });
+    const distances = options.map(option => Math.abs(option.difference));
+
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    expect(options[0].dropped.length).toBeGreaterThan(0);
+    expect(rankPriceOptions([...options].reverse())).toEqual(options);
+  });
+
+  it('keeps small jobs at the minimum job price', () => {
+    const options = calculator.solveTargetPrice({ surfaces: [surface('Shed', 100)] }, {
+      targetPrice: 2000,
+      levers: { maxDiscount: 0.3 }
+    });
+    expect(options.map(option => option.price)).toEqual(options.map(() => 2500));
+  });
+
+  it('rejects non-positive targets and discounts of 100% or more', () => {
+    expect(() => calculator.solveTargetPrice(scope, { targetPrice: 0 })).toThrow(/greater than zero/);
+    expect(() => calculator.solveTargetPrice(scope, { targetPrice: 1000, levers: { maxDiscount: 1 } })).toThrow(/between 0 and 100%/);
+  });
+});
@@ -0,0 +1,109 @@
+import { PaintingCalculator, type Surface } from '../painting-calculator';
+import { getPhaseWork, scheduleWork } from '../timeline';
+
+const calculator = new PaintingCalculator();
+
+function surface(overrides: Partial<Surface> = {}): Surface {
+  return { name: 'Front', width: 40, height: 10, sqft: 400, condition: 'good', substrate: 'wood-siding', coats: 2, ...overrides };
+}
+
+// 2024-06-03 is a Monday
+const monday = '2024-06-03';
+
+describe('getPhaseWork', () => {
+  it('groups paint work by the coats each line item takes', () => {
+    const estimate = calculator.calculateExterior([surface({ coats: 3 }), surface({ name: 'Back' })]);
+    const paint = getPhaseWork(estimate).filter(segment => segment.phase === 'paint');
+
+    expect(paint.map(segment => [segment.coats, segment.exterior])).toEqual([[2, true], [3, true]]);
+    expect(paint.reduce((sum, segment) => sum + segment.hours, 0)).toBeCloseTo(estimate.labor.painting.hours, 10);
+  });
+
+  it('counts a tinted primer coat as a pass', () => {
+    const estimate = calculator.calculateExterior([
+      surface({ colorChange: { from: 8, to: 85 } })
+    ]);
+    expect(estimate.lineItems[0].coats).toBe(estimate.lineItems[0].colorChange!.coats + 1);
+  });
+
+  it('schedules RRP supervision as its own phase without lengthening painting', () => {
+    const estimate = calculator.calculateExterior([surface()]);
+    const leadSafety = calculator.calculateLeadSafety(estimate, { yearBuilt: 1960 });
+    const schedule = (work: typeof estimate) => calculator.scheduleProject(work, { startDate: monday });
+    const paintDays = (work: typeof estimate) =>
+      schedule(work).days.filter(day => day.phases.some(phase => phase.phase === 'paint')).length;
+    const withRrp = calculator.combine([estimate, leadSafety]);
+
+    expect(leadSafety.labor.specialty.hours).toBeGreaterThan(0);
+    expect(getPhaseWork(withRrp).filter(segment => segment.phase === 'paint'))
+      .toEqual(getPhaseWork(estimate).filter(segment => segment.phase === 'paint'));
+    expect(paintDays(withRrp)).toBe(paintDays(estimate));
+    expect(schedule(withRrp).phases.find(phase => phase.phase === 'specialty')?.hours)
+      .toBe(leadSafety.labor.specialty.hours);
+  });
+});
+
+describe('scheduleWork', () => {
+  it('skips weekends and holidays', () => {
+    const schedule = scheduleWork([{ phase: 'paint', hours: 48 }], {
+      startDate: '2024-06-06',
+      calendar: { holidays: ['2024-06-07'] },
+      crews: { paint: 3 }
+    });
+    expect(schedule.days.map(day => day.date)).toEqual(['2024-06-06', '2024-06-10']);
+    expect(schedule.calendarDays).toBe(5);
+  });
+
+  it('waits out the recoat window between coats', () => {
+    const schedule = scheduleWork([{ phase: 'paint', hours: 12, coats: 2, exterior: true }], {
+      startDate: monday,
+      calendar: { dayStartHour: 8, hoursPerDay: 8 },
+      dryTimes: { exteriorRecoatHours: 16 },
+      crews: { paint: 1 }
+    });
+    // Monday's coat dries overnight; the second starts Tuesday morning
+    expect(schedule.days).toEqual([
+      { date: '2024-06-03', phases: [{ phase: 'paint', hours: 6, crewSize: 1, coat: 1 }], drying: false },
+      { date: '2024-06-04', phases: [{ phase: 'paint', hours: 6, crewSize: 1, coat: 2 }], drying: false }
+    ]);
+    expect(schedule.finishDate).toBe('2024-06-04');
+  });
+
+  it('lets exterior prep dry before painting and marks drying days', () => {
+    const schedule = scheduleWork([
+      { phase: 'prep', hours: 24, exterior: true },
+      { phase: 'paint', hours: 24, coats: 1, exterior: true }
+    ], { startDate: monday, dryTimes: { exteriorPrepHours: 40 } });
+
+    expect(schedule.phases.map(phase => [phase.phase, phase.startDate, phase.finishDate])).toEqual([
+      ['prep', '2024-06-03', '2024-06-03'],
+      ['paint', '2024-06-05', '2024-06-05']
+    ]);
+    expect(schedule.days[1]).toEqual({ date: '2024-06-04', phases: [], drying: true });
+  });
+
+  it('schedules the Best tier with three coats', () => {
+    const tiers = calculator.calculatePricingTiers({ surfaces: [surface()] });
+    const coats = (estimate: typeof tiers.good) => Math.max(
+      ...calculator.scheduleProject(estimate, { startDate: monday }).days
+        .flatMap(day => day.phases.map(phase => phase.coat || 0))
+    );
+    expect(coats(tiers.good)).toBe(2);
+    expect(coats(tiers.best)).toBe(3);
+  });
+
+  it('rejects working days too short for a block of work', () => {
+    expect(() => scheduleWork([{ phase: 'paint', hours: 8 }], { calendar: { hoursPerDay: 0.25 } }))
+      .toThrow(/at least 0.5 working hours/);
+  });
+
+  it.each([[[7]], [[-1]], [[1.5]], [[1, 1]]])('rejects work days %p', workDays => {
+    expect(() => scheduleWork([{ phase: 'paint', hours: 8 }], { calendar: { workDays } }))
+      .toThrow(/Work days must/);
+  });
+
+  it('rejects working hours that run past midnight', () => {
+    expect(() => scheduleWork([{ phase: 'paint', hours: 8 }], { calendar: { dayStartHour: 20, hoursPerDay: 8 } }))
+      .toThrow(/within a single day/);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Access Model
+ * Picks ladders, lifts or scaffolding from working height and prices the
+ * rental plus the labor slowdown for high work
+ */
+
+export type AccessEquipment = 'ladder' | 'extension-ladder' | 'lift' | 'scaffolding';
+
+export interface AccessRates {
+  equipment: Record<AccessEquipment, {
+    label: string;
+    maxHeight: number; // feet of working height this equipment reaches
+    dailyRate: number; // 0 for equipment the crew owns
+    deliveryFee: number; // per rental
+  }>;
+  storyHeight: number; // feet per story when only a story count is known
+  slowdownPerStory: number; // labor multiplier added per story above the second
+}
+
+export const accessEquipmentOrder: AccessEquipment[] = [
+  'ladder',
+  'extension-ladder',
+  'lift',
+  'scaffolding'
+];
+
+export const defaultAccessRates: AccessRates = {
+  equipment: {
+    ladder: { label: 'Step Ladders', maxHeight: 12, dailyRate: 0, deliveryFee: 0 },
+    'extension-ladder': { label: 'Extension Ladders & Ladder Jacks', maxHeight: 24, dailyRate: 25, deliveryFee: 0 },
+    lift: { label: 'Boom Lift Rental', maxHeight: 40, dailyRate: 325, deliveryFee: 150 },
+    scaffolding: { label: 'Scaffolding Rental', maxHeight: 60, dailyRate: 90, deliveryFee: 400 }
+  },
+  storyHeight: 10,
+  slowdownPerStory: 0.15
+};
+
+export interface AccessTarget {
+  height: number;
+  stories?: number;
+  accessEquipment?: AccessEquipment; // estimator override
+}
+
+/**
+ * Working height of a surface: the greater of its measured height and its
+ * story count
+ */
+export function getWorkingHeight(target: AccessTarget, rates: AccessRates): number {
+  return Math.max(target.height || 0, (target.stories || 1) * rates.storyHeight);
+}
+
+export function selectAccessEquipment(target: AccessTarget, rates: AccessRates): AccessEquipment {
+  if (target.accessEquipment) {
+    return target.accessEquipment;
+  }
+
+  // Anything taller than the tallest rated equipment still gets scaffolding
+  const workingHeight = getWorkingHeight(target, rates);
+  return accessEquipmentOrder.find(
+    equipment => workingHeight <= rates.equipment[equipment].maxHeight
+  ) || 'scaffolding';
+}
+
+/**
+ * Labor multiplier for work above the second story
+ */
+export function getHeightSlowdown(target: AccessTarget, rates: AccessRates): number {
+  const stories = target.stories || Math.max(1, Math.round((target.height || 0) / rates.storyHeight));
+  return 1 + Math.max(0, stories - 2) * rates.slowdownPerStory;
+}
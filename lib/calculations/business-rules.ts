@@ -0,0 +1,270 @@
+/**
+ * Business Rules Engine
+ * Ordered, data-driven pricing rules (minimums, discounts, surcharges,
+ * rounding) with every fired rule recorded on the estimate
+ */
+
+import Decimal from 'decimal.js';
+import { z } from 'zod';
+import type { CalculationResult, LineItemKind } from './painting-calculator';
+
+export type ServiceType = 'exterior' | 'interior' | 'cabinets' | 'gutters' | 'holiday';
+
+const serviceTypes = ['exterior', 'interior', 'cabinets', 'gutters', 'holiday'] as const;
+
+const amount = z.number().min(0, 'Amount cannot be negative');
+
+const adjustmentSchema = z.object({
+  unit: z.enum(['percent', 'amount']),
+  value: amount
+}).refine(adjustment => adjustment.unit !== 'percent' || adjustment.value <= 1, {
+  message: 'Percentages are fractions between 0 and 1',
+  path: ['value'],
+});
+
+export const ruleConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('serviceType'),
+    serviceTypes: z.array(z.enum(serviceTypes)).min(1, 'At least one service type required')
+  }),
+  z.object({ type: z.literal('totalBelow'), amount }),
+  z.object({ type: z.literal('totalAbove'), amount }),
+  z.object({ type: z.literal('repeatCustomer'), value: z.boolean() }),
+  z.object({
+    type: z.literal('offSeason'),
+    months: z.array(z.number().int().min(1).max(12)).min(1, 'At least one month required')
+  })
+]);
+
+export const ruleEffectSchema = z.union([
+  z.object({ type: z.literal('minimum'), amount }),
+  z.object({ type: z.literal('discount'), adjustment: adjustmentSchema }),
+  z.object({ type: z.literal('surcharge'), adjustment: adjustmentSchema }),
+  z.object({
+    type: z.literal('rounding'),
+    increment: z.number().positive('Rounding increment must be positive'),
+    mode: z.enum(['up', 'down', 'nearest'])
+  })
+]);
+
+export const businessRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Rule id must be lowercase kebab-case').max(100),
+  name: z.string().min(1, 'Rule name required').max(255),
+  description: z.string().max(1000).optional(),
+  priority: z.number().int(),
+  enabled: z.boolean().default(true),
+  conditions: z.array(ruleConditionSchema), // all must match; empty always fires
+  effect: ruleEffectSchema,
+  stopProcessing: z.boolean().default(false)
+});
+
+export const businessRulesSchema = z.array(businessRuleSchema).refine(
+  rules => new Set(rules.map(rule => rule.id)).size === rules.length,
+  { message: 'Rule ids must be unique' }
+);
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type RuleEffect = z.infer<typeof ruleEffectSchema>;
+export type BusinessRule = z.infer<typeof businessRuleSchema>;
+
+export interface RuleContext {
+  serviceTypes?: ServiceType[]; // derived from the estimate's line items when omitted
+  repeatCustomer?: boolean;
+  date?: Date;
+}
+
+/**
+ * Record of a rule that changed the price, kept on the estimate
+ */
+export interface AppliedRule {
+  ruleId: string;
+  name: string;
+  effect: RuleEffect['type'];
+  totalBefore: number;
+  totalAfter: number;
+  adjustment: number;
+}
+
+/**
+ * KIND HOME defaults: $2,500 minimum job, 5% volume discount over $20,000
+ */
+export const defaultBusinessRules: BusinessRule[] = [
+  {
+    id: 'minimum-job',
+    name: 'Minimum job size',
+    priority: 10,
+    enabled: true,
+    conditions: [],
+    effect: { type: 'minimum', amount: 2500 },
+    stopProcessing: false
+  },
+  {
+    id: 'volume-discount',
+    name: 'Volume discount for large jobs',
+    priority: 20,
+    enabled: true,
+    conditions: [{ type: 'totalAbove', amount: 20000 }],
+    effect: { type: 'discount', adjustment: { unit: 'percent', value: 0.05 } },
+    stopProcessing: false
+  }
+];
+
+const serviceTypeByKind: Partial<Record<LineItemKind, ServiceType>> = {
+  surface: 'exterior',
+  room: 'interior',
+  'cabinet-set': 'cabinets',
+  'gutter-run': 'gutters',
+  'holiday-lighting': 'holiday'
+};
+
+/**
+ * Validate rules loaded from storage or an admin API
+ */
+export function validateBusinessRules(data: unknown): BusinessRule[] {
+  const result = businessRulesSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'rules'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid business rules: ${issues}`);
+  }
+  return result.data;
+}
+
+export class BusinessRulesEngine {
+  private rules: BusinessRule[];
+
+  constructor(rules: unknown = defaultBusinessRules) {
+    // Stable sort keeps definition order for equal priorities
+    this.rules = validateBusinessRules(rules)
+      .map((rule, index) => ({ rule, index }))
+      .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+      .map(({ rule }) => rule);
+  }
+
+  getRules(): BusinessRule[] {
+    return [...this.rules];
+  }
+
+  apply<T extends CalculationResult>(estimate: T, context: RuleContext = {}): T {
+    const serviceTypes = context.serviceTypes || this.getServiceTypes(estimate);
+    const appliedRules: AppliedRule[] = [...(estimate.appliedRules || [])];
+    let total = new Decimal(estimate.total);
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+
+      const matches = rule.conditions.every(condition =>
+        this.matches(condition, total, serviceTypes, context)
+      );
+      if (!matches) continue;
+
+      const totalAfter = this.applyEffect(rule.effect, total);
+      if (!totalAfter.equals(total)) {
+        appliedRules.push({
+          ruleId: rule.id,
+          name: rule.name,
+          effect: rule.effect.type,
+          totalBefore: total.toNumber(),
+          totalAfter: totalAfter.toNumber(),
+          adjustment: totalAfter.minus(total).toNumber()
+        });
+        total = totalAfter;
+      }
+
+      if (rule.stopProcessing) break;
+    }
+
+    const adjustment = total.minus(estimate.total);
+    return {
+      ...estimate,
+      markup: new Decimal(estimate.markup).plus(adjustment).toNumber(),
+      total: total.toNumber(),
+      appliedRules
+    };
+  }
+
+  /**
+   * Lowest total the minimum rules allow for an estimate, with conditions
+   * matched at its current total; 0 when none apply
+   */
+  getMinimumTotal(estimate: CalculationResult, context: RuleContext = {}): number {
+    const serviceTypes = context.serviceTypes || this.getServiceTypes(estimate);
+    const total = new Decimal(estimate.total);
+    let minimum = new Decimal(0);
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+
+      const matches = rule.conditions.every(condition =>
+        this.matches(condition, total, serviceTypes, context)
+      );
+      if (!matches) continue;
+
+      if (rule.effect.type === 'minimum') {
+        minimum = Decimal.max(minimum, rule.effect.amount);
+      }
+      if (rule.stopProcessing) break;
+    }
+    return minimum.toNumber();
+  }
+
+  private getServiceTypes(estimate: CalculationResult): ServiceType[] {
+    const types = new Set<ServiceType>();
+    estimate.lineItems.forEach(item => {
+      const type = serviceTypeByKind[item.kind];
+      if (type) types.add(type);
+    });
+    return Array.from(types);
+  }
+
+  private matches(
+    condition: RuleCondition,
+    total: Decimal,
+    serviceTypes: ServiceType[],
+    context: RuleContext
+  ): boolean {
+    switch (condition.type) {
+      case 'serviceType':
+        return condition.serviceTypes.some(type => serviceTypes.includes(type));
+      case 'totalBelow':
+        return total.lessThan(condition.amount);
+      case 'totalAbove':
+        return total.greaterThan(condition.amount);
+      case 'repeatCustomer':
+        return Boolean(context.repeatCustomer) === condition.value;
+      case 'offSeason': {
+        const month = (context.date || new Date()).getMonth() + 1;
+        return condition.months.includes(month);
+      }
+    }
+  }
+
+  private applyEffect(effect: RuleEffect, total: Decimal): Decimal {
+    switch (effect.type) {
+      case 'minimum':
+        return Decimal.max(total, effect.amount);
+      case 'discount':
+        return Decimal.max(0, total.minus(this.getAdjustmentAmount(effect.adjustment, total)));
+      case 'surcharge':
+        return total.plus(this.getAdjustmentAmount(effect.adjustment, total));
+      case 'rounding': {
+        const rounding = {
+          up: Decimal.ROUND_UP,
+          down: Decimal.ROUND_DOWN,
+          nearest: Decimal.ROUND_HALF_UP
+        }[effect.mode];
+        return total.dividedBy(effect.increment).toDecimalPlaces(0, rounding).times(effect.increment);
+      }
+    }
+  }
+
+  private getAdjustmentAmount(adjustment: { unit: 'percent' | 'amount'; value: number }, total: Decimal): Decimal {
+    const amount = adjustment.unit === 'percent'
+      ? total.times(adjustment.value)
+      : new Decimal(adjustment.value);
+    return amount.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+  }
+}
+
+export const businessRulesEngine = new BusinessRulesEngine();
@@ -0,0 +1,88 @@
+/**
+ * Color Change Model
+ * Derives coats, tinted primer and extra labor from the existing and new
+ * colors, by light reflectance value (LRV)
+ */
+
+export type ColorDepth = 'light' | 'medium' | 'dark';
+
+/**
+ * A color depth or a light reflectance value from 0 (black) to 100 (white)
+ */
+export type ColorValue = ColorDepth | number;
+
+export interface ColorChange {
+  from: ColorValue;
+  to: ColorValue;
+  // Estimator overrides
+  coats?: number;
+  tintedPrimer?: boolean;
+}
+
+export interface ColorChangeRates {
+  lrv: Record<ColorDepth, number>; // representative LRV for each depth
+  moderateDelta: number; // LRV difference that needs an extra coat
+  majorDelta: number; // LRV difference that needs tinted primer
+  deepColorLrv: number; // new colors at or below this are deep bases
+  deepColorLaborFactor: number; // careful cutting in and lap marks
+}
+
+export type ColorChangeSeverity = 'none' | 'moderate' | 'major';
+
+export interface ColorChangeAssessment {
+  fromLrv: number;
+  toLrv: number;
+  severity: ColorChangeSeverity;
+  coats: number;
+  tintedPrimer: boolean;
+  laborFactor: number;
+  overridden: boolean;
+}
+
+export const defaultColorChangeRates: ColorChangeRates = {
+  lrv: { light: 70, medium: 40, dark: 15 },
+  moderateDelta: 20,
+  majorDelta: 40,
+  deepColorLrv: 15,
+  deepColorLaborFactor: 1.1
+};
+
+export function getLrv(value: ColorValue, rates: ColorChangeRates): number {
+  if (typeof value === 'number') {
+    return Math.min(100, Math.max(0, value));
+  }
+  return rates.lrv[value];
+}
+
+/**
+ * Coats and primer for a color change. Moderate changes take a third
+ * finish coat; major changes take a tinted primer coat under the usual
+ * finish coats. Never fewer coats than the surface already specifies, and
+ * estimator overrides win.
+ */
+export function assessColorChange(
+  change: ColorChange,
+  baseCoats: number,
+  rates: ColorChangeRates
+): ColorChangeAssessment {
+  const fromLrv = getLrv(change.from, rates);
+  const toLrv = getLrv(change.to, rates);
+  const delta = Math.abs(fromLrv - toLrv);
+
+  const severity: ColorChangeSeverity = delta >= rates.majorDelta
+    ? 'major'
+    : delta >= rates.moderateDelta ? 'moderate' : 'none';
+
+  const coats = change.coats ?? Math.max(baseCoats, severity === 'moderate' ? 3 : 2);
+  const tintedPrimer = change.tintedPrimer ?? severity === 'major';
+
+  return {
+    fromLrv,
+    toLrv,
+    severity,
+    coats,
+    tintedPrimer,
+    laborFactor: toLrv <= rates.deepColorLrv ? rates.deepColorLaborFactor : 1,
+    overridden: change.coats !== undefined || change.tintedPrimer !== undefined
+  };
+}
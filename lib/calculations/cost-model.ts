@@ -0,0 +1,139 @@
+/**
+ * Cost Model
+ * Direct labor burden, overhead allocated per labor hour and a target gross
+ * margin: prices an estimate from its cost and reports the margin it earns
+ */
+
+import Decimal from 'decimal.js';
+
+export interface CostModelRates {
+  laborBurden: {
+    payrollTaxes: number; // employer FICA, FUTA and SUTA as a share of labor cost
+    workersComp: number;
+  };
+  overheadPerLaborHour: number; // office, vehicles, insurance and sales spread over field hours
+  targetGrossMargin: number; // share of the price left after direct costs
+  marginFloor: number; // lowest gross margin accepted without review
+}
+
+/**
+ * Cost side of an estimate at rate card rates
+ */
+export interface EstimateCosts {
+  laborHours: number;
+  labor: number;
+  materials: number;
+  equipment: number;
+}
+
+export interface MarginAnalysis {
+  laborBurden: number;
+  directCost: number; // labor, burden, materials and equipment
+  overhead: number;
+  price: number;
+  grossProfit: number;
+  grossMargin: number; // share of price, 0-1
+  profit: number; // after overhead
+  netMargin: number;
+  targetGrossMargin: number;
+  marginFloor: number;
+  belowFloor: boolean;
+  warnings: string[];
+}
+
+export const defaultCostModelRates: CostModelRates = {
+  laborBurden: {
+    payrollTaxes: 0.1,
+    workersComp: 0.08
+  },
+  overheadPerLaborHour: 12,
+  targetGrossMargin: 0.35,
+  marginFloor: 0.25
+};
+
+function toCents(value: Decimal): Decimal {
+  return value.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export function getLaborBurden(labor: number, rates: CostModelRates): number {
+  const share = new Decimal(rates.laborBurden.payrollTaxes).plus(rates.laborBurden.workersComp);
+  return toCents(new Decimal(labor).times(share)).toNumber();
+}
+
+/**
+ * Price that earns the target gross margin on direct cost
+ */
+export function priceFromCost(costs: EstimateCosts, rates: CostModelRates): number {
+  const directCost = new Decimal(costs.labor)
+    .plus(getLaborBurden(costs.labor, rates))
+    .plus(costs.materials)
+    .plus(costs.equipment);
+  return toCents(directCost.dividedBy(new Decimal(1).minus(rates.targetGrossMargin))).toNumber();
+}
+
+/**
+ * Margin earned at a price; warns when it falls below the floor or does
+ * not cover overhead
+ */
+export function analyzeMargin(costs: EstimateCosts, price: number, rates: CostModelRates): MarginAnalysis {
+  const laborBurden = getLaborBurden(costs.labor, rates);
+  const directCost = new Decimal(costs.labor).plus(laborBurden).plus(costs.materials).plus(costs.equipment);
+  const overhead = toCents(new Decimal(costs.laborHours).times(rates.overheadPerLaborHour));
+
+  return evaluateMargin({
+    laborBurden,
+    directCost: directCost.toNumber(),
+    overhead: overhead.toNumber(),
+    targetGrossMargin: rates.targetGrossMargin,
+    marginFloor: rates.marginFloor
+  }, price);
+}
+
+/**
+ * Re-evaluate a margin analysis at a new price, e.g. after business rules
+ * or manual adjustments; costs and overhead are unchanged
+ */
+export function repriceMargin(analysis: MarginAnalysis, price: number): MarginAnalysis {
+  return evaluateMargin(analysis, price);
+}
+
+function evaluateMargin(
+  basis: Pick<MarginAnalysis, 'laborBurden' | 'directCost' | 'overhead' | 'targetGrossMargin' | 'marginFloor'>,
+  price: number
+): MarginAnalysis {
+  const grossProfit = new Decimal(price).minus(basis.directCost);
+  const profit = grossProfit.minus(basis.overhead);
+  const share = (amount: Decimal) =>
+    price > 0 ? amount.dividedBy(price).toDecimalPlaces(4, Decimal.ROUND_HALF_UP).toNumber() : 0;
+
+  const grossMargin = share(grossProfit);
+  const belowFloor = price > 0 && grossMargin < basis.marginFloor;
+  const warnings: string[] = [];
+  if (belowFloor) {
+    warnings.push(
+      `Gross margin ${formatPercent(grossMargin)} is below the ${formatPercent(basis.marginFloor)} floor`
+    );
+  }
+  if (price > 0 && profit.isNegative()) {
+    warnings.push('Price does not cover allocated overhead');
+  }
+
+  return {
+    laborBurden: basis.laborBurden,
+    directCost: basis.directCost,
+    overhead: basis.overhead,
+    price,
+    grossProfit: toCents(grossProfit).toNumber(),
+    grossMargin,
+    profit: toCents(profit).toNumber(),
+    netMargin: share(profit),
+    targetGrossMargin: basis.targetGrossMargin,
+    marginFloor: basis.marginFloor,
+    belowFloor,
+    warnings
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Lead-Safe Work Practices (EPA RRP)
+ * Decides when the Renovation, Repair and Painting rule applies, prices
+ * containment, cleanup, certified renovator time and disposal, and builds
+ * the compliance checklist that goes to the crew
+ */
+
+export const RRP_CUTOFF_YEAR = 1978;
+
+export interface PropertyInfo {
+  yearBuilt?: number;
+  leadFree?: boolean; // certified inspector or risk assessor found no lead paint
+}
+
+export type RrpStatus = 'required' | 'exempt' | 'not-applicable' | 'unknown';
+
+export interface RrpAssessment {
+  status: RrpStatus;
+  yearBuilt?: number;
+  reason: string;
+}
+
+export interface LeadSafetyRates {
+  containment: {
+    exteriorHoursPer100Sqft: number;
+    exteriorMaterialsPerSqft: number; // poly sheeting, tape, signage
+    interiorHoursPerRoom: number;
+    interiorMaterialsPerRoom: number;
+  };
+  cleanup: {
+    exteriorHoursPer100Sqft: number;
+    interiorHoursPerRoom: number;
+    hepaVacuumPerDay: number;
+  };
+  certifiedRenovatorShare: number; // specialty hours per labor hour on the job
+  disposal: {
+    perJob: number;
+    per1000Sqft: number;
+  };
+}
+
+export type ChecklistPhase = 'before' | 'during' | 'after';
+
+export interface ChecklistItem {
+  id: string;
+  phase: ChecklistPhase;
+  label: string;
+  completed: boolean;
+  completedBy?: string;
+  completedAt?: string;
+}
+
+/**
+ * Compliance record kept with the estimate and handed to the crew
+ */
+export interface RrpChecklist {
+  assessment: RrpAssessment;
+  certifiedRenovator?: string;
+  items: ChecklistItem[];
+  createdAt: string;
+}
+
+export const defaultLeadSafetyRates: LeadSafetyRates = {
+  containment: {
+    exteriorHoursPer100Sqft: 0.25,
+    exteriorMaterialsPerSqft: 0.12,
+    interiorHoursPerRoom: 1.5,
+    interiorMaterialsPerRoom: 35
+  },
+  cleanup: {
+    exteriorHoursPer100Sqft: 0.15,
+    interiorHoursPerRoom: 1,
+    hepaVacuumPerDay: 45
+  },
+  certifiedRenovatorShare: 0.1,
+  disposal: {
+    perJob: 175,
+    per1000Sqft: 40
+  }
+};
+
+const checklistTemplate: Array<Omit<ChecklistItem, 'completed'>> = [
+  { id: 'firm-certification', phase: 'before', label: 'EPA firm certification on file' },
+  { id: 'certified-renovator', phase: 'before', label: 'Certified renovator assigned to the job' },
+  { id: 'renovate-right', phase: 'before', label: 'Renovate Right pamphlet delivered and acknowledgment signed' },
+  { id: 'warning-signs', phase: 'before', label: 'Warning signs posted at the work area' },
+  { id: 'containment', phase: 'during', label: 'Work area contained (6 ft interior, 10 ft exterior sheeting)' },
+  { id: 'hvac-covered', phase: 'during', label: 'HVAC vents closed and covered; windows and doors within 20 ft closed' },
+  { id: 'prohibited-practices', phase: 'during', label: 'No open-flame burning, unshrouded power sanding or heat guns above 1100°F' },
+  { id: 'daily-cleanup', phase: 'during', label: 'Daily cleanup of paint chips and debris' },
+  { id: 'hepa-cleanup', phase: 'after', label: 'HEPA vacuum and wet wipe of all surfaces in the work area' },
+  { id: 'cleaning-verification', phase: 'after', label: 'Cleaning verification completed' },
+  { id: 'waste-disposal', phase: 'after', label: 'Waste bagged, sealed and removed' },
+  { id: 'records', phase: 'after', label: 'Compliance records retained for 3 years' }
+];
+
+export function assessRrp(property: PropertyInfo = {}): RrpAssessment {
+  const { yearBuilt } = property;
+
+  if (yearBuilt === undefined) {
+    return { status: 'unknown', reason: 'Year built not recorded' };
+  }
+  if (yearBuilt >= RRP_CUTOFF_YEAR) {
+    return { status: 'not-applicable', yearBuilt, reason: `Built in ${yearBuilt}, after ${RRP_CUTOFF_YEAR - 1}` };
+  }
+  if (property.leadFree) {
+    return { status: 'exempt', yearBuilt, reason: 'Certified lead-free by inspection' };
+  }
+  return { status: 'required', yearBuilt, reason: `Built in ${yearBuilt}, before ${RRP_CUTOFF_YEAR}` };
+}
+
+export function buildRrpChecklist(assessment: RrpAssessment, certifiedRenovator?: string): RrpChecklist {
+  const items: ChecklistItem[] = [];
+  if (assessment.status === 'required') {
+    items.push(...checklistTemplate.map(item => ({ ...item, completed: false })));
+  } else if (assessment.status === 'unknown') {
+    items.push({
+      id: 'confirm-year-built',
+      phase: 'before',
+      label: `Confirm the home was built in ${RRP_CUTOFF_YEAR} or later before disturbing paint`,
+      completed: false
+    });
+  }
+
+  return {
+    assessment,
+    certifiedRenovator,
+    items,
+    createdAt: new Date().toISOString()
+  };
+}
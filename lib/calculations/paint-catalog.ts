@@ -0,0 +1,258 @@
+/**
+ * Paint Product Catalog
+ * Brand, product line, sheen, coverage and container pricing, plus the
+ * cheapest container mix for a quantity of paint
+ */
+
+export type Sheen = 'flat' | 'matte' | 'eggshell' | 'satin' | 'semi-gloss' | 'gloss';
+
+export type ContainerSize = 'quart' | 'gallon' | 'pail';
+
+/**
+ * What a product is used for on an estimate
+ */
+export type PaintApplication = 'exterior' | 'interior-walls' | 'ceiling' | 'trim' | 'primer';
+
+export interface PaintProduct {
+  id: string;
+  brand: string;
+  productLine: string;
+  sheens: Sheen[];
+  coverage: number; // sq ft per gallon per coat
+  prices: Partial<Record<ContainerSize, number>> & { gallon: number };
+}
+
+export interface ProductSelection {
+  productId: string;
+  sheen: Sheen;
+  color?: string; // tinted per wall; the material list buys each color separately
+}
+
+export interface PaintCatalog {
+  products: PaintProduct[];
+  selections: Record<PaintApplication, ProductSelection>; // defaults per application
+}
+
+/**
+ * Gallons of one product and sheen needed by a line item
+ */
+export interface ProductUsage extends ProductSelection {
+  gallons: number;
+  primer?: boolean;
+}
+
+export interface ContainerPurchase {
+  size: ContainerSize;
+  count: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface MaterialListItem extends ProductSelection {
+  primer: boolean;
+  brand: string;
+  productLine: string;
+  gallonsNeeded: number;
+  gallonsPurchased: number;
+  containers: ContainerPurchase[];
+  cost: number;
+}
+
+export const containerGallons: Record<ContainerSize, number> = {
+  quart: 0.25,
+  gallon: 1,
+  pail: 5
+};
+
+export const sheens: Sheen[] = ['flat', 'matte', 'eggshell', 'satin', 'semi-gloss', 'gloss'];
+
+export function isSheen(value: unknown): value is Sheen {
+  return typeof value === 'string' && (sheens as string[]).includes(value);
+}
+
+/**
+ * KIND HOME contractor pricing
+ */
+export const defaultPaintCatalog: PaintCatalog = {
+  products: [
+    {
+      id: 'sw-multipurpose-primer',
+      brand: 'Sherwin-Williams',
+      productLine: 'Multi-Purpose Primer',
+      sheens: ['flat'],
+      coverage: 300,
+      prices: { quart: 15, gallon: 45, pail: 205 }
+    },
+    {
+      id: 'sw-emerald-exterior',
+      brand: 'Sherwin-Williams',
+      productLine: 'Emerald Exterior',
+      sheens: ['flat', 'satin', 'semi-gloss'],
+      coverage: 350,
+      prices: { quart: 19, gallon: 55, pail: 255 }
+    },
+    {
+      id: 'sw-emerald-interior',
+      brand: 'Sherwin-Williams',
+      productLine: 'Emerald Interior',
+      sheens: ['flat', 'matte', 'eggshell', 'satin', 'semi-gloss'],
+      coverage: 350,
+      prices: { quart: 19, gallon: 55, pail: 255 }
+    },
+    {
+      id: 'sw-emerald-trim',
+      brand: 'Sherwin-Williams',
+      productLine: 'Emerald Urethane Trim Enamel',
+      sheens: ['satin', 'semi-gloss', 'gloss'],
+      coverage: 350,
+      prices: { quart: 21, gallon: 62 }
+    },
+    {
+      id: 'sw-promar-ceiling',
+      brand: 'Sherwin-Williams',
+      productLine: 'ProMar Ceiling',
+      sheens: ['flat'],
+      coverage: 400,
+      prices: { gallon: 55, pail: 240 }
+    },
+    {
+      id: 'sw-rain-refresh',
+      brand: 'Sherwin-Williams',
+      productLine: 'Rain Refresh Premium',
+      sheens: ['flat', 'satin', 'semi-gloss'],
+      coverage: 350,
+      prices: { quart: 22, gallon: 63, pail: 295 }
+    },
+    {
+      id: 'bm-aura-exterior',
+      brand: 'Benjamin Moore',
+      productLine: 'Aura Exterior',
+      sheens: ['flat', 'satin', 'semi-gloss'],
+      coverage: 375,
+      prices: { quart: 27, gallon: 77, pail: 365 }
+    },
+    {
+      id: 'bm-aura-interior',
+      brand: 'Benjamin Moore',
+      productLine: 'Aura Interior',
+      sheens: ['flat', 'matte', 'eggshell', 'satin', 'semi-gloss'],
+      coverage: 375,
+      prices: { quart: 27, gallon: 77, pail: 365 }
+    },
+    {
+      id: 'bm-advance',
+      brand: 'Benjamin Moore',
+      productLine: 'Advance Interior Alkyd',
+      sheens: ['satin', 'semi-gloss', 'gloss'],
+      coverage: 400,
+      prices: { quart: 26, gallon: 75 }
+    }
+  ],
+  selections: {
+    exterior: { productId: 'sw-emerald-exterior', sheen: 'satin' },
+    'interior-walls': { productId: 'sw-emerald-interior', sheen: 'eggshell' },
+    ceiling: { productId: 'sw-promar-ceiling', sheen: 'flat' },
+    trim: { productId: 'sw-emerald-trim', sheen: 'semi-gloss' },
+    primer: { productId: 'sw-multipurpose-primer', sheen: 'flat' }
+  }
+};
+
+export function getProduct(catalog: PaintCatalog, productId: string): PaintProduct {
+  const product = catalog.products.find(candidate => candidate.id === productId);
+  if (!product) {
+    throw new Error(`Paint product ${productId} is not in the catalog`);
+  }
+  return product;
+}
+
+/**
+ * Product for an application, with an optional sheen override
+ */
+export function selectProduct(
+  catalog: PaintCatalog,
+  application: PaintApplication,
+  sheen?: Sheen
+): { product: PaintProduct; selection: ProductSelection } {
+  const selection = { ...catalog.selections[application], ...(sheen ? { sheen } : {}) };
+  const product = getProduct(catalog, selection.productId);
+
+  if (!product.sheens.includes(selection.sheen)) {
+    throw new Error(`${product.brand} ${product.productLine} is not available in ${selection.sheen}`);
+  }
+
+  return { product, selection };
+}
+
+/**
+ * Cheapest combination of the product's containers holding at least the
+ * given gallons; ties go to fewer containers
+ */
+export function cheapestContainerMix(gallons: number, product: PaintProduct): ContainerPurchase[] {
+  const quartsNeeded = Math.max(0, Math.ceil(gallons * 4 - 1e-9));
+  if (quartsNeeded === 0) {
+    return [];
+  }
+
+  const { quart, gallon, pail } = product.prices;
+  let best: { pails: number; gallons: number; quarts: number; cost: number } | undefined;
+
+  const maxPails = pail === undefined ? 0 : Math.ceil(quartsNeeded / 20);
+  for (let pails = 0; pails <= maxPails; pails++) {
+    const afterPails = Math.max(0, quartsNeeded - pails * 20);
+    for (let gallons = 0; gallons <= Math.ceil(afterPails / 4); gallons++) {
+      const afterGallons = Math.max(0, afterPails - gallons * 4);
+      if (afterGallons > 0 && quart === undefined) continue;
+
+      const quarts = afterGallons;
+      const cost = pails * (pail || 0) + gallons * gallon + quarts * (quart || 0);
+      const count = pails + gallons + quarts;
+      if (
+        !best ||
+        cost < best.cost - 1e-9 ||
+        (Math.abs(cost - best.cost) < 1e-9 && count < best.pails + best.gallons + best.quarts)
+      ) {
+        best = { pails, gallons, quarts, cost };
+      }
+    }
+  }
+
+  const purchases: ContainerPurchase[] = [];
+  const add = (size: ContainerSize, count: number, unitPrice: number | undefined) => {
+    if (count > 0 && unitPrice !== undefined) {
+      purchases.push({ size, count, unitPrice, total: Math.round(count * unitPrice * 100) / 100 });
+    }
+  };
+  add('pail', best!.pails, pail);
+  add('gallon', best!.gallons, gallon);
+  add('quart', best!.quarts, quart);
+  return purchases;
+}
+
+/**
+ * Combine product usage across line items into a shopping list
+ */
+export function buildMaterialList(catalog: PaintCatalog, usage: ProductUsage[]): MaterialListItem[] {
+  const totals = new Map<string, ProductUsage>();
+  usage.forEach(entry => {
+    const key = `${entry.productId}:${entry.sheen}:${entry.color || ''}`;
+    const existing = totals.get(key);
+    totals.set(key, { ...entry, gallons: (existing?.gallons || 0) + entry.gallons });
+  });
+
+  return Array.from(totals.values()).map(entry => {
+    const product = getProduct(catalog, entry.productId);
+    const containers = cheapestContainerMix(entry.gallons, product);
+    return {
+      productId: entry.productId,
+      sheen: entry.sheen,
+      ...(entry.color ? { color: entry.color } : {}),
+      primer: Boolean(entry.primer),
+      brand: product.brand,
+      productLine: product.productLine,
+      gallonsNeeded: Math.round(entry.gallons * 100) / 100,
+      gallonsPurchased: containers.reduce((sum, container) => sum + container.count * containerGallons[container.size], 0),
+      containers,
+      cost: Math.round(containers.reduce((sum, container) => sum + container.total, 0) * 100) / 100
+    };
+  });
+}
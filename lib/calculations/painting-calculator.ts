@@ -5,10 +5,67 @@
  */
 
 import Decimal from 'decimal.js';
+import { defaultRateCard, type RateCard, type RateCardReference } from './rate-cards';
+import { getSubstrateProfile, type SubstrateProfile } from './substrates';
+import {
+  applyTierToRateCard,
+  applyTierToScope,
+  getTierFeatures,
+  tierDefinitions,
+  type TierDefinition,
+  type TierKey
+} from './pricing-tiers';
+import {
+  businessRulesEngine,
+  type AppliedRule,
+  type BusinessRulesEngine,
+  type RuleContext
+} from './business-rules';
+import type { PricingTier } from '@/lib/excel-engine/types';
+import {
+  accessEquipmentOrder,
+  getHeightSlowdown,
+  selectAccessEquipment,
+  type AccessEquipment
+} from './access';
+import { getPhaseWork, scheduleWork, type ProjectSchedule, type ScheduleOptions } from './timeline';
+import {
+  isCabinetFinish,
+  type CabinetFinish,
+  type CabinetSet,
+  type GutterRun,
+  type HolidayLightingRun,
+  type UnitRate
+} from './service-lines';
+import {
+  buildMaterialList,
+  selectProduct,
+  type MaterialListItem,
+  type PaintApplication,
+  type ProductSelection,
+  type ProductUsage,
+  type Sheen
+} from './paint-catalog';
+import { assessRrp, type PropertyInfo } from './lead-safety';
+import { assessColorChange, type ColorChange, type ColorChangeAssessment } from './color-change';
+import { analyzeMargin, priceFromCost, repriceMargin, type MarginAnalysis } from './cost-model';
+import {
+  applyCoatsToScope,
+  dropScopeItems,
+  getDropCombinations,
+  priceOption,
+  rankPriceOptions,
+  type PriceOption,
+  type TargetPriceRequest
+} from './target-price';
+import { getWallArea, type Wall, type WallLocation } from './room-geometry';
+import { prepTaskOrder, type ConsumablePurchase, type PrepTask, type PrepWork } from './prep-tasks';
 
 // Configure Decimal for financial precision
 Decimal.set({ precision: 10, rounding: 4 });
 
+export type ApplicationMethod = 'spray' | 'roll' | 'brush';
+
 export interface Surface {
   name: string;
   width: number;
@@ -17,16 +74,61 @@ export interface Surface {
   condition: 'excellent' | 'good' | 'fair' | 'poor';
   substrate: string;
   coats: number;
+  applicationMethod?: ApplicationMethod; // defaults to roll
+  stories?: number;
+  accessEquipment?: AccessEquipment; // overrides the height-based pick
+  sheen?: Sheen; // defaults to the catalog's exterior selection
+  prepWork?: PrepWork; // overrides the job-level prep tasks
+  caulkLinearFeet?: number;
+  colorChange?: ColorChange;
+}
+
+export interface ExteriorOptions {
+  crewSize?: number; // used to size equipment rental days
+  prepWork?: PrepWork; // itemized prep tasks instead of condition-based prep
+}
+
+/**
+ * Everything being priced on one estimate, across service lines
+ */
+export interface EstimateScope {
+  surfaces?: Surface[];
+  rooms?: Room[];
+  gutters?: GutterRun[];
+  cabinets?: CabinetSet[];
+  holidayLighting?: HolidayLightingRun[];
+  exteriorOptions?: ExteriorOptions;
+  property?: PropertyInfo; // year built drives lead-safe work practices
+}
+
+/**
+ * Walls measured as one paintable area
+ */
+export interface RoomWalls {
+  width: number;
+  height: number;
+  sqft: number;
+  applicationMethod?: ApplicationMethod;
+  coats?: number; // defaults to 2
+  sheen?: Sheen;
+  colorChange?: ColorChange;
 }
 
 export interface Room {
   name: string;
-  walls: { width: number; height: number; sqft: number };
+  walls: RoomWalls | Wall[]; // individual walls deduct their own openings
   ceiling: { width: number; height: number; sqft: number };
   trim: { linear_feet: number };
   doors: number;
   windows: number;
-  cabinets?: { count: number; condition: string };
+  // doors/drawerFronts/finish price cabinets per piece; otherwise by count
+  cabinets?: {
+    count: number;
+    condition: string;
+    doors?: number;
+    drawerFronts?: number;
+    finish?: CabinetFinish;
+  };
 }
 
 export interface LaborRates {
@@ -36,287 +138,1066 @@ export interface LaborRates {
 }
 
 export interface MaterialPrices {
-  primerPerGallon: number;
-  paintPerGallon: number;
-  suppliesPercentage: number;
+  suppliesPercentage: number; // paint and primer prices come from the catalog
+}
+
+export interface CoverageRates {
+  trim: number;
+  oversprayLoss: number; // extra material fraction lost when spraying
+}
+
+export interface ProductionRates {
+  wallPrep: Record<Surface['condition'], number>;
+  wallPainting: Record<ApplicationMethod, number>;
+  wallLocation: Record<WallLocation, number>; // labor multiplier for closets and stairwells
+  accentWall: number; // labor multiplier for cutting in a second color
+  sprayMasking: number; // sq ft of sprayed surface masked per hour
+  ceilingPainting: number;
+  trimPainting: number;
+  cabinetPainting: number;
+}
+
+export type LineItemKind =
+  | 'surface'
+  | 'room'
+  | 'walls'
+  | 'ceiling'
+  | 'trim'
+  | 'doors'
+  | 'windows'
+  | 'cabinets'
+  | 'gutter-run'
+  | 'gutters'
+  | 'downspouts'
+  | 'cabinet-set'
+  | 'cabinet-doors'
+  | 'drawer-fronts'
+  | 'holiday-lighting'
+  | 'lighting-install'
+  | 'lighting-removal'
+  | 'access-equipment'
+  | 'container-rounding'
+  | 'surface-painting'
+  | 'prep-task'
+  | 'lead-safety'
+  | 'rrp-task';
+
+/**
+ * Priced piece of work. Parent items (rooms) carry their sub-parts and
+ * their numbers are the exact sum of those parts.
+ */
+export interface LineItem {
+  id: string;
+  name: string;
+  kind: LineItemKind;
+  quantity?: number;
+  unit?: 'sqft' | 'lf' | 'each' | 'day';
+  coats?: number; // painting passes, including a tinted primer coat; the schedule waits between them
+  hours: { prep: number; painting: number; specialty: number; total: number };
+  gallons: { primer: number; paint: number };
+  cost: {
+    prep: number;
+    painting: number;
+    specialty: number;
+    labor: number;
+    primer: number;
+    paint: number;
+    supplies: number;
+    other: number; // non-paint materials (lights, hardware, consumables)
+    materials: number;
+    equipment: number; // rentals and delivery
+    total: number;
+  };
+  products?: ProductUsage[]; // paint and primer gallons by catalog product
+  consumables?: ConsumablePurchase[];
+  colorChange?: ColorChangeAssessment; // derived coats and primer for a color change
+  parts?: LineItem[];
 }
 
 export interface CalculationResult {
   labor: {
     prep: { hours: number; rate: number; total: number };
     painting: { hours: number; rate: number; total: number };
+    specialty: { hours: number; rate: number; total: number };
     total: number;
   };
   materials: {
     primer: { gallons: number; pricePerGallon: number; total: number };
     paint: { gallons: number; pricePerGallon: number; total: number };
     supplies: number;
+    other: number;
     total: number;
   };
-  subtotal: number;
-  markup: number;
+  equipment: number;
+  subtotal: number; // cost at rate card rates
+  markup: number; // price over cost, after business rules
   total: number;
+  overhead: number;
+  profit: number;
+  margin: MarginAnalysis;
+  lineItems: LineItem[];
+  materialList: MaterialListItem[];
+  appliedRules?: AppliedRule[];
+  rateCard: RateCardReference;
 }
 
-export class PaintingCalculator {
-  private laborRates: LaborRates = {
-    prep: 65,
-    painting: 65,
-    specialty: 85
-  };
+export interface TierEstimate extends CalculationResult {
+  tier: PricingTier;
+}
 
-  private materialPrices: MaterialPrices = {
-    primerPerGallon: 45,
-    paintPerGallon: 55,
-    suppliesPercentage: 0.15
+interface WorkQuantities {
+  prepHours: Decimal;
+  paintHours: Decimal;
+  specialtyHours: Decimal;
+  primerGallons: Decimal;
+  paintGallons: Decimal;
+  otherMaterials: Decimal;
+  equipment: Decimal;
+  coats?: number;
+  primerProduct?: ProductSelection;
+  paintProduct?: ProductSelection;
+  // Fixed costs instead of gallons at the product's gallon price
+  primerCost?: Decimal;
+  paintCost?: Decimal;
+}
+
+function emptyWork(): WorkQuantities {
+  return {
+    prepHours: new Decimal(0),
+    paintHours: new Decimal(0),
+    specialtyHours: new Decimal(0),
+    primerGallons: new Decimal(0),
+    paintGallons: new Decimal(0),
+    otherMaterials: new Decimal(0),
+    equipment: new Decimal(0)
   };
+}
+
+function roundCurrency(value: Decimal): Decimal {
+  return value.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+function roundQuantity(value: Decimal): Decimal {
+  return value.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+function sumLineItems(items: LineItem[]) {
+  return items.reduce(
+    (sum, item) => ({
+      prepHours: sum.prepHours.plus(item.hours.prep),
+      paintHours: sum.paintHours.plus(item.hours.painting),
+      specialtyHours: sum.specialtyHours.plus(item.hours.specialty),
+      primerGallons: sum.primerGallons.plus(item.gallons.primer),
+      paintGallons: sum.paintGallons.plus(item.gallons.paint),
+      prep: sum.prep.plus(item.cost.prep),
+      painting: sum.painting.plus(item.cost.painting),
+      specialty: sum.specialty.plus(item.cost.specialty),
+      primer: sum.primer.plus(item.cost.primer),
+      paint: sum.paint.plus(item.cost.paint),
+      supplies: sum.supplies.plus(item.cost.supplies),
+      other: sum.other.plus(item.cost.other),
+      equipment: sum.equipment.plus(item.cost.equipment)
+    }),
+    {
+      prepHours: new Decimal(0),
+      paintHours: new Decimal(0),
+      specialtyHours: new Decimal(0),
+      primerGallons: new Decimal(0),
+      paintGallons: new Decimal(0),
+      prep: new Decimal(0),
+      painting: new Decimal(0),
+      specialty: new Decimal(0),
+      primer: new Decimal(0),
+      paint: new Decimal(0),
+      supplies: new Decimal(0),
+      other: new Decimal(0),
+      equipment: new Decimal(0)
+    }
+  );
+}
+
+export class PaintingCalculator {
+  private readonly rateCard: RateCard;
+  private laborRates: LaborRates;
+  private materialPrices: MaterialPrices;
 
   // Coverage rates (sq ft per gallon)
-  private coverageRates = {
-    primer: 300,
-    paint: 350,
-    ceilingPaint: 400,
-    trim: 150 // linear feet per gallon
-  };
+  private coverageRates: CoverageRates;
 
   // Labor production rates (sq ft per hour)
-  private productionRates = {
-    wallPrep: {
-      excellent: 200,
-      good: 150,
-      fair: 100,
-      poor: 60
-    },
-    wallPainting: {
-      spray: 250,
-      roll: 150,
-      brush: 80
-    },
-    ceilingPainting: 180,
-    trimPainting: 40, // linear feet per hour
-    cabinetPainting: 2 // cabinets per hour
-  };
+  private productionRates: ProductionRates;
+
+  constructor(rateCard: RateCard = defaultRateCard) {
+    this.rateCard = rateCard;
+    this.laborRates = rateCard.laborRates;
+    this.materialPrices = rateCard.materialPrices;
+    this.coverageRates = rateCard.coverageRates;
+    this.productionRates = rateCard.productionRates;
+  }
+
+  /**
+   * Rate card version that produced this calculator's results
+   */
+  getRateCardReference(): RateCardReference {
+    return { id: this.rateCard.id, version: this.rateCard.version };
+  }
 
   /**
    * Calculate exterior painting estimate
    */
-  calculateExterior(surfaces: Surface[]): CalculationResult {
-    let totalPrepHours = new Decimal(0);
-    let totalPaintHours = new Decimal(0);
-    let totalPrimerGallons = new Decimal(0);
-    let totalPaintGallons = new Decimal(0);
+  calculateExterior(surfaces: Surface[], options: ExteriorOptions = {}): CalculationResult {
+    const accessRates = this.rateCard.access;
+    const hoursByEquipment = new Map<AccessEquipment, number>();
 
-    surfaces.forEach(surface => {
+    const lineItems = surfaces.map((surface, index) => {
+      const id = `surface-${index + 1}`;
+      const work = emptyWork();
       const sqft = new Decimal(surface.sqft);
-      
-      // Calculate prep hours based on condition
-      const prepRate = this.productionRates.wallPrep[surface.condition];
-      const prepHours = sqft.dividedBy(prepRate);
-      totalPrepHours = totalPrepHours.plus(prepHours);
-
-      // Calculate painting hours
-      const paintRate = this.productionRates.wallPainting.roll;
-      const paintHours = sqft.dividedBy(paintRate).times(surface.coats);
-      totalPaintHours = totalPaintHours.plus(paintHours);
-
-      // Calculate primer needed (only for poor/fair conditions)
-      if (surface.condition === 'poor' || surface.condition === 'fair') {
-        const primerGallons = sqft.dividedBy(this.coverageRates.primer);
-        totalPrimerGallons = totalPrimerGallons.plus(primerGallons);
+      const primer = this.selectPaint('primer');
+      const paint = this.selectPaint('exterior', surface.sheen);
+      const substrate = this.getSubstrate(surface.substrate, paint.product.coverage);
+      const equipment = selectAccessEquipment(surface, accessRates);
+      const prepWork = surface.prepWork || options.prepWork;
+      const measure = { quantity: surface.sqft, unit: 'sqft' as const };
+
+      // Work above the second story is slower
+      const slowdown = getHeightSlowdown(surface, accessRates);
+
+      // Color changes can add coats, a tinted primer coat and slower work
+      const colorChange = surface.colorChange
+        ? assessColorChange(surface.colorChange, surface.coats, this.rateCard.colorChange)
+        : undefined;
+      const coats = colorChange?.coats ?? surface.coats;
+      const laborFactor = colorChange?.laborFactor ?? 1;
+
+      // Calculate painting hours for the chosen application method
+      const method = surface.applicationMethod || 'roll';
+      const paintRate = this.productionRates.wallPainting[method];
+      work.paintHours = sqft.dividedBy(paintRate).times(coats).times(slowdown).times(laborFactor);
+
+      // Spraying requires masking everything that isn't being painted
+      if (method === 'spray') {
+        work.prepHours = this.calculateMaskingHours(sqft).times(slowdown);
       }
 
-      // Calculate paint needed
-      const paintGallons = sqft.dividedBy(this.coverageRates.paint).times(surface.coats);
-      totalPaintGallons = totalPaintGallons.plus(paintGallons);
-    });
+      // Primer takes the porous first pass so the finish coats go onto a
+      // sealed surface; itemized prep primes when priming is in scope or the
+      // substrate always needs it
+      const needsPrimer = Boolean(colorChange?.tintedPrimer) || (prepWork
+        ? Boolean(prepWork.priming) || substrate.primerRequirement === 'always'
+        : this.requiresPrimer(substrate, surface.condition));
+      const primerGallons = sqft.dividedBy(primer.product.coverage).times(substrate.porosityFactor);
 
-    // Add 10% waste factor
-    totalPrimerGallons = totalPrimerGallons.times(1.1);
-    totalPaintGallons = totalPaintGallons.times(1.1);
+      // Calculate paint needed at the substrate's coverage rate
+      const effectiveCoats = needsPrimer
+        ? new Decimal(coats)
+        : new Decimal(coats).minus(1).plus(substrate.porosityFactor);
+      const paintGallons = sqft.dividedBy(substrate.coverageRate).times(effectiveCoats);
+      work.paintGallons = this.applyOverspray(paintGallons, method);
+      work.paintProduct = paint.selection;
+      work.coats = coats;
 
-    // Calculate costs
-    const prepLabor = totalPrepHours.times(this.laborRates.prep);
-    const paintLabor = totalPaintHours.times(this.laborRates.painting);
-    const totalLabor = prepLabor.plus(paintLabor);
+      let lineItem: LineItem;
+      if (prepWork) {
+        // Required primer and a tinted primer coat are priced as the priming task
+        const tasks = needsPrimer ? { ...prepWork, priming: true } : prepWork;
+        lineItem = this.groupLineItems(id, surface.name, 'surface', [
+          this.priceLineItem(`${id}-painting`, 'Painting', 'surface-painting', work, measure),
+          ...this.pricePrepTasks(id, surface, tasks, {
+            multiplier: new Decimal(substrate.prepMultiplier).times(slowdown),
+            primerGallons,
+            primerProduct: primer.selection
+          })
+        ], measure);
+      } else {
+        // Calculate prep hours based on condition and substrate
+        const prepRate = this.productionRates.wallPrep[surface.condition];
+        work.prepHours = work.prepHours.plus(
+          sqft.dividedBy(prepRate).times(substrate.prepMultiplier).times(slowdown)
+        );
+        if (needsPrimer) {
+          work.primerGallons = primerGallons;
+          work.primerProduct = primer.selection;
+        }
+        if (colorChange?.tintedPrimer) {
+          work.paintHours = work.paintHours.plus(sqft.dividedBy(paintRate).times(slowdown));
+          work.coats = coats + 1;
+        }
+        lineItem = this.priceLineItem(id, surface.name, 'surface', work, measure);
+      }
+      if (colorChange) {
+        lineItem = { ...lineItem, colorChange };
+      }
 
-    const primerCost = totalPrimerGallons.times(this.materialPrices.primerPerGallon);
-    const paintCost = totalPaintGallons.times(this.materialPrices.paintPerGallon);
-    const suppliesCost = primerCost.plus(paintCost).times(this.materialPrices.suppliesPercentage);
-    const totalMaterials = primerCost.plus(paintCost).plus(suppliesCost);
+      hoursByEquipment.set(equipment, (hoursByEquipment.get(equipment) || 0) + lineItem.hours.total);
+      return lineItem;
+    });
 
-    const subtotal = totalLabor.plus(totalMaterials);
+    lineItems.push(...this.priceAccessEquipment(hoursByEquipment, options.crewSize));
 
-    return {
-      labor: {
-        prep: {
-          hours: totalPrepHours.toNumber(),
-          rate: this.laborRates.prep,
-          total: prepLabor.toNumber()
-        },
-        painting: {
-          hours: totalPaintHours.toNumber(),
-          rate: this.laborRates.painting,
-          total: paintLabor.toNumber()
-        },
-        total: totalLabor.toNumber()
-      },
-      materials: {
-        primer: {
-          gallons: Math.ceil(totalPrimerGallons.toNumber()),
-          pricePerGallon: this.materialPrices.primerPerGallon,
-          total: primerCost.toNumber()
-        },
-        paint: {
-          gallons: Math.ceil(totalPaintGallons.toNumber()),
-          pricePerGallon: this.materialPrices.paintPerGallon,
-          total: paintCost.toNumber()
-        },
-        supplies: suppliesCost.toNumber(),
-        total: totalMaterials.toNumber()
-      },
-      subtotal: subtotal.toNumber(),
-      markup: 0,
-      total: subtotal.toNumber()
-    };
+    return this.summarize(lineItems);
   }
 
   /**
    * Calculate interior painting estimate
    */
   calculateInterior(rooms: Room[]): CalculationResult {
-    let totalPrepHours = new Decimal(0);
-    let totalPaintHours = new Decimal(0);
-    let totalPrimerGallons = new Decimal(0);
-    let totalPaintGallons = new Decimal(0);
-    let totalCeilingPaintGallons = new Decimal(0);
+    const lineItems = rooms.map((room, index) => {
+      const id = `room-${index + 1}`;
+      const parts: LineItem[] = [];
 
-    rooms.forEach(room => {
       // Wall calculations
-      const wallSqft = new Decimal(room.walls.sqft);
-      const wallPrepHours = wallSqft.dividedBy(this.productionRates.wallPrep.good);
-      const wallPaintHours = wallSqft.dividedBy(this.productionRates.wallPainting.roll).times(2); // 2 coats
-      
-      totalPrepHours = totalPrepHours.plus(wallPrepHours);
-      totalPaintHours = totalPaintHours.plus(wallPaintHours);
+      if (Array.isArray(room.walls)) {
+        room.walls.forEach((wall, wallIndex) => {
+          const area = getWallArea(wall);
+          const locationFactor = this.productionRates.wallLocation[wall.location || 'room'];
+          parts.push(this.priceWalls(`${id}-wall-${wallIndex + 1}`, this.getWallName(wall, wallIndex), {
+            sqft: area.net,
+            method: wall.applicationMethod,
+            coats: wall.coats,
+            sheen: wall.sheen,
+            color: wall.color,
+            colorChange: wall.colorChange,
+            laborFactor: wall.accent ? locationFactor * this.productionRates.accentWall : locationFactor
+          }, { quantity: area.net, unit: 'sqft' }));
+        });
+      } else {
+        parts.push(this.priceWalls(`${id}-walls`, 'Walls', {
+          sqft: room.walls.sqft,
+          method: room.walls.applicationMethod,
+          coats: room.walls.coats,
+          sheen: room.walls.sheen,
+          colorChange: room.walls.colorChange,
+          laborFactor: 1
+        }));
+      }
 
       // Ceiling calculations
+      const ceiling = emptyWork();
       const ceilingSqft = new Decimal(room.ceiling.sqft);
-      const ceilingPaintHours = ceilingSqft.dividedBy(this.productionRates.ceilingPainting);
-      totalPaintHours = totalPaintHours.plus(ceilingPaintHours);
+      ceiling.paintHours = ceilingSqft.dividedBy(this.productionRates.ceilingPainting);
+      const ceilingPaint = this.selectPaint('ceiling');
+      ceiling.paintGallons = ceilingSqft.dividedBy(ceilingPaint.product.coverage);
+      ceiling.paintProduct = ceilingPaint.selection;
+      parts.push(this.priceLineItem(`${id}-ceiling`, 'Ceiling', 'ceiling', ceiling));
 
       // Trim calculations
+      const trim = emptyWork();
       const trimLinearFeet = new Decimal(room.trim.linear_feet);
-      const trimPaintHours = trimLinearFeet.dividedBy(this.productionRates.trimPainting);
-      totalPaintHours = totalPaintHours.plus(trimPaintHours);
+      trim.paintHours = trimLinearFeet.dividedBy(this.productionRates.trimPainting);
+      trim.paintGallons = trimLinearFeet.dividedBy(this.coverageRates.trim);
+      trim.paintProduct = this.selectPaint('trim').selection;
+      parts.push(this.priceLineItem(`${id}-trim`, 'Trim', 'trim', trim));
 
       // Door and window trim
-      const doorTrimHours = new Decimal(room.doors).times(1.5); // 1.5 hours per door
-      const windowTrimHours = new Decimal(room.windows).times(0.75); // 0.75 hours per window
-      totalPaintHours = totalPaintHours.plus(doorTrimHours).plus(windowTrimHours);
+      const doors = emptyWork();
+      doors.paintHours = new Decimal(room.doors).times(1.5); // 1.5 hours per door
+      parts.push(this.priceLineItem(`${id}-doors`, 'Doors', 'doors', doors));
+
+      const windows = emptyWork();
+      windows.paintHours = new Decimal(room.windows).times(0.75); // 0.75 hours per window
+      parts.push(this.priceLineItem(`${id}-windows`, 'Windows', 'windows', windows));
 
       // Cabinet calculations
       if (room.cabinets) {
-        const cabinetHours = new Decimal(room.cabinets.count).dividedBy(this.productionRates.cabinetPainting);
-        totalPaintHours = totalPaintHours.plus(cabinetHours);
-        totalPrepHours = totalPrepHours.plus(cabinetHours.times(0.5)); // 50% prep time for cabinets
+        const { doors, drawerFronts, finish } = room.cabinets;
+        if (doors !== undefined || drawerFronts !== undefined) {
+          parts.push(this.priceCabinetSet(`${id}-cabinets`, {
+            name: 'Cabinets',
+            doors: doors || 0,
+            drawerFronts: drawerFronts || 0,
+            finish: isCabinetFinish(finish) ? finish : 'paint'
+          }));
+        } else {
+          const cabinets = emptyWork();
+          cabinets.paintHours = new Decimal(room.cabinets.count).dividedBy(this.productionRates.cabinetPainting);
+          cabinets.prepHours = cabinets.paintHours.times(0.5); // 50% prep time for cabinets
+          parts.push(this.priceLineItem(`${id}-cabinets`, 'Cabinets', 'cabinets', cabinets));
+        }
       }
 
-      // Material calculations
-      const wallPaintGallons = wallSqft.dividedBy(this.coverageRates.paint).times(2);
-      const ceilingPaintGallons = ceilingSqft.dividedBy(this.coverageRates.ceilingPaint);
-      const trimPaintGallons = trimLinearFeet.dividedBy(this.coverageRates.trim);
+      return this.groupLineItems(id, room.name, 'room', parts);
+    });
+
+    return this.summarize(lineItems);
+  }
+
+  /**
+   * Price a wall or a room's walls: prep, paint, and primer for the 30% of
+   * walls that typically need it (new drywall, repairs), or a full tinted
+   * primer coat for a major color change
+   */
+  private priceWalls(
+    id: string,
+    name: string,
+    wall: {
+      sqft: number;
+      method?: ApplicationMethod;
+      coats?: number;
+      sheen?: Sheen;
+      color?: string;
+      colorChange?: ColorChange;
+      laborFactor: number;
+    },
+    measure: Pick<LineItem, 'quantity' | 'unit'> = {}
+  ): LineItem {
+    const work = emptyWork();
+    const sqft = new Decimal(wall.sqft);
+    const method = wall.method || 'roll';
+    const colorChange = wall.colorChange
+      ? assessColorChange(wall.colorChange, wall.coats || 2, this.rateCard.colorChange)
+      : undefined;
+    const coats = colorChange?.coats ?? (wall.coats || 2);
+    const primerCoats = colorChange?.tintedPrimer ? 1 : 0;
+    const paintRate = this.productionRates.wallPainting[method];
+    work.prepHours = sqft.dividedBy(this.productionRates.wallPrep.good);
+    work.paintHours = sqft.dividedBy(paintRate).times(coats + primerCoats);
+    work.coats = coats + primerCoats;
+
+    if (method === 'spray') {
+      work.prepHours = work.prepHours.plus(this.calculateMaskingHours(sqft));
+    }
+    work.prepHours = work.prepHours.times(wall.laborFactor);
+    work.paintHours = work.paintHours.times(wall.laborFactor).times(colorChange?.laborFactor ?? 1);
+
+    const paint = this.selectPaint('interior-walls', wall.sheen);
+    work.paintGallons = this.applyOverspray(sqft.dividedBy(paint.product.coverage).times(coats), method);
+    work.paintProduct = wall.color ? { ...paint.selection, color: wall.color } : paint.selection;
 
-      totalPaintGallons = totalPaintGallons.plus(wallPaintGallons).plus(trimPaintGallons);
-      totalCeilingPaintGallons = totalCeilingPaintGallons.plus(ceilingPaintGallons);
+    const primer = this.selectPaint('primer');
+    work.primerGallons = sqft.dividedBy(primer.product.coverage).times(primerCoats ? 1 : 0.3);
+    work.primerProduct = primer.selection;
+
+    const lineItem = this.priceLineItem(id, name, 'walls', work, measure);
+    return colorChange ? { ...lineItem, colorChange } : lineItem;
+  }
 
-      // Primer for new drywall or repairs
-      const primerGallons = wallSqft.dividedBy(this.coverageRates.primer).times(0.3); // 30% of walls need primer
-      totalPrimerGallons = totalPrimerGallons.plus(primerGallons);
+  private getWallName(wall: Wall, index: number): string {
+    if (wall.name) {
+      return wall.name;
+    }
+    const label = wall.accent
+      ? 'Accent Wall'
+      : { room: 'Wall', closet: 'Closet Wall', stairwell: 'Stairwell Wall' }[wall.location || 'room'];
+    return `${label} ${index + 1}`;
+  }
+
+  /**
+   * Calculate gutter and downspout painting by linear foot
+   */
+  calculateGutters(runs: GutterRun[]): CalculationResult {
+    const rates = this.rateCard.serviceLines.gutter;
+
+    const lineItems = runs.map((run, index) => {
+      const id = `gutter-${index + 1}`;
+      return this.groupLineItems(id, run.name, 'gutter-run', [
+        this.priceUnits(`${id}-gutters`, 'Gutters', 'gutters', run.linearFeet, 'lf', rates.linearFoot),
+        this.priceUnits(`${id}-downspouts`, 'Downspouts', 'downspouts', run.downspouts, 'each', rates.downspout)
+      ]);
     });
 
-    // Add waste factor
-    totalPrimerGallons = totalPrimerGallons.times(1.1);
-    totalPaintGallons = totalPaintGallons.plus(totalCeilingPaintGallons).times(1.1);
+    return this.summarize(lineItems);
+  }
+
+  /**
+   * Calculate cabinet refinishing by door and drawer front for each finish
+   */
+  calculateCabinets(sets: CabinetSet[]): CalculationResult {
+    const lineItems = sets.map((set, index) => this.priceCabinetSet(`cabinet-${index + 1}`, set));
+    return this.summarize(lineItems);
+  }
+
+  /**
+   * Calculate holiday lighting by roofline foot, with optional removal visit
+   */
+  calculateHolidayLighting(runs: HolidayLightingRun[]): CalculationResult {
+    const rates = this.rateCard.serviceLines.holidayLighting;
 
-    // Calculate costs
-    const prepLabor = totalPrepHours.times(this.laborRates.prep);
-    const paintLabor = totalPaintHours.times(this.laborRates.painting);
-    const totalLabor = prepLabor.plus(paintLabor);
+    const lineItems = runs.map((run, index) => {
+      const id = `holiday-${index + 1}`;
+      const parts = [
+        this.priceUnits(`${id}-install`, 'Install', 'lighting-install', run.rooflineFeet, 'lf', rates.install, 'specialty')
+      ];
+      if (run.includeRemoval) {
+        parts.push(
+          this.priceUnits(`${id}-removal`, 'Removal', 'lighting-removal', run.rooflineFeet, 'lf', rates.removal, 'specialty')
+        );
+      }
+      return this.groupLineItems(id, run.name, 'holiday-lighting', parts);
+    });
+
+    return this.summarize(lineItems);
+  }
+
+  /**
+   * Rental line items for lifts and scaffolding, kept on site for as many
+   * working days as the surfaces that need them take
+   */
+  private priceAccessEquipment(hoursByEquipment: Map<AccessEquipment, number>, crewSize: number = 3): LineItem[] {
+    const lineItems: LineItem[] = [];
+
+    accessEquipmentOrder.forEach(equipment => {
+      const hours = hoursByEquipment.get(equipment);
+      const rates = this.rateCard.access.equipment[equipment];
+      if (!hours || (rates.dailyRate === 0 && rates.deliveryFee === 0)) {
+        return;
+      }
+
+      const rentalDays = Math.max(1, this.calculateTimeline(hours, crewSize).days);
+      const work = emptyWork();
+      work.equipment = new Decimal(rentalDays).times(rates.dailyRate).plus(rates.deliveryFee);
+
+      lineItems.push(
+        this.priceLineItem(`access-${equipment}`, rates.label, 'access-equipment', work, {
+          quantity: rentalDays,
+          unit: 'day'
+        })
+      );
+    });
+
+    return lineItems;
+  }
+
+  /**
+   * One line item per prep task in scope, with its consumables. Quantities
+   * for condition-driven tasks cover only the affected share of the surface.
+   */
+  private pricePrepTasks(
+    id: string,
+    surface: Surface,
+    prepWork: PrepWork,
+    options: { multiplier: Decimal; primerGallons: Decimal; primerProduct: ProductSelection }
+  ): LineItem[] {
+    const rates = this.rateCard.prepTasks;
+    const sqft = new Decimal(surface.sqft);
 
-    const primerCost = totalPrimerGallons.times(this.materialPrices.primerPerGallon);
-    const paintCost = totalPaintGallons.times(this.materialPrices.paintPerGallon);
-    const suppliesCost = primerCost.plus(paintCost).times(this.materialPrices.suppliesPercentage);
-    const totalMaterials = primerCost.plus(paintCost).plus(suppliesCost);
+    return prepTaskOrder
+      .filter((task: PrepTask) => prepWork[task])
+      .flatMap(task => {
+        const rate = rates.tasks[task];
+        const quantity = rate.unit === 'lf'
+          ? new Decimal(surface.caulkLinearFeet ?? sqft.times(rates.caulkLinearFeetPerSqft))
+          : sqft.times(rate.conditionShare?.[surface.condition] ?? 1);
+        if (quantity.isZero()) {
+          return [];
+        }
 
-    const subtotal = totalLabor.plus(totalMaterials);
+        const work = emptyWork();
+        work.prepHours = quantity.dividedBy(rate.rate).times(options.multiplier);
+        if (task === 'priming') {
+          work.primerGallons = options.primerGallons;
+          work.primerProduct = options.primerProduct;
+        }
+
+        const consumables: ConsumablePurchase[] = rate.consumables.map(consumable => {
+          const count = quantity.dividedBy(consumable.coverage).ceil().toNumber();
+          return {
+            name: consumable.name,
+            unit: consumable.unit,
+            quantity: count,
+            unitPrice: consumable.price,
+            total: roundCurrency(new Decimal(count).times(consumable.price)).toNumber()
+          };
+        });
+        work.otherMaterials = consumables.reduce((sum, item) => sum.plus(item.total), new Decimal(0));
+
+        const lineItem = this.priceLineItem(`${id}-${task}`, rate.label, 'prep-task', work, {
+          quantity: roundQuantity(quantity).toNumber(),
+          unit: rate.unit
+        });
+        return [consumables.length > 0 ? { ...lineItem, consumables } : lineItem];
+      });
+  }
+
+  /**
+   * EPA RRP costs for pre-1978 homes: containment, HEPA cleanup, certified
+   * renovator time and disposal, sized from the rest of the estimate.
+   * Returns an empty result when the rule does not apply.
+   */
+  calculateLeadSafety(estimate: CalculationResult, property: PropertyInfo = {}, crewSize: number = 3): CalculationResult {
+    if (assessRrp(property).status !== 'required') {
+      return this.summarize([]);
+    }
+
+    const rates = this.rateCard.leadSafety;
+    const items = estimate.lineItems;
+    const exteriorSqft = items
+      .filter(item => item.kind === 'surface')
+      .reduce((sum, item) => sum.plus(item.quantity || 0), new Decimal(0));
+    const rooms = items.filter(item => item.kind === 'room').length;
+    const exteriorHundreds = exteriorSqft.dividedBy(100);
+    const laborHours = new Decimal(estimate.labor.prep.hours)
+      .plus(estimate.labor.painting.hours)
+      .plus(estimate.labor.specialty.hours);
+
+    const containment = emptyWork();
+    containment.prepHours = exteriorHundreds.times(rates.containment.exteriorHoursPer100Sqft)
+      .plus(new Decimal(rooms).times(rates.containment.interiorHoursPerRoom));
+    containment.otherMaterials = exteriorSqft.times(rates.containment.exteriorMaterialsPerSqft)
+      .plus(new Decimal(rooms).times(rates.containment.interiorMaterialsPerRoom));
+
+    // HEPA vacuum stays on site for the length of the job
+    const cleanup = emptyWork();
+    const jobDays = Math.max(1, this.calculateTimeline(laborHours.toNumber(), crewSize).days);
+    cleanup.prepHours = exteriorHundreds.times(rates.cleanup.exteriorHoursPer100Sqft)
+      .plus(new Decimal(rooms).times(rates.cleanup.interiorHoursPerRoom));
+    cleanup.equipment = new Decimal(jobDays).times(rates.cleanup.hepaVacuumPerDay);
+
+    const supervision = emptyWork();
+    supervision.specialtyHours = laborHours.times(rates.certifiedRenovatorShare);
+
+    const disposal = emptyWork();
+    disposal.otherMaterials = exteriorSqft.dividedBy(1000).times(rates.disposal.per1000Sqft)
+      .plus(rates.disposal.perJob);
+
+    return this.summarize([
+      this.groupLineItems('lead-safety', 'Lead-Safe Work Practices (EPA RRP)', 'lead-safety', [
+        this.priceLineItem('lead-safety-containment', 'Containment', 'rrp-task', containment),
+        this.priceLineItem('lead-safety-cleanup', 'HEPA Cleanup', 'rrp-task', cleanup, { quantity: jobDays, unit: 'day' }),
+        this.priceLineItem('lead-safety-renovator', 'Certified Renovator', 'rrp-task', supervision),
+        this.priceLineItem('lead-safety-disposal', 'Lead Waste Disposal', 'rrp-task', disposal)
+      ])
+    ]);
+  }
+
+  /**
+   * Merge results from several service lines into one estimate
+   */
+  combine(results: CalculationResult[]): CalculationResult {
+    return this.summarize(results.flatMap(result => result.lineItems));
+  }
+
+  private priceCabinetSet(id: string, set: CabinetSet): LineItem {
+    const rates = this.rateCard.serviceLines.cabinet[set.finish];
+
+    return this.groupLineItems(id, set.name, 'cabinet-set', [
+      this.priceUnits(`${id}-doors`, 'Cabinet Doors', 'cabinet-doors', set.doors, 'each', rates.door),
+      this.priceUnits(`${id}-drawers`, 'Drawer Fronts', 'drawer-fronts', set.drawerFronts, 'each', rates.drawerFront)
+    ]);
+  }
+
+  /**
+   * Price a unit-rated quantity; labor goes to painting or specialty hours
+   */
+  private priceUnits(
+    id: string,
+    name: string,
+    kind: LineItemKind,
+    quantity: number,
+    unit: 'lf' | 'each',
+    rate: UnitRate,
+    labor: 'painting' | 'specialty' = 'painting'
+  ): LineItem {
+    const work = emptyWork();
+    const units = new Decimal(quantity);
+    work.prepHours = units.times(rate.prepHours);
+    if (labor === 'specialty') {
+      work.specialtyHours = units.times(rate.hours);
+    } else {
+      work.paintHours = units.times(rate.hours);
+    }
+    work.otherMaterials = units.times(rate.materials);
+
+    return this.priceLineItem(id, name, kind, work, { quantity, unit });
+  }
+
+  /**
+   * Convert quantities for one piece of work into a priced line item.
+   * Hours, gallons and each cost bucket are rounded here so that line items
+   * always add up exactly to the estimate totals.
+   */
+  private priceLineItem(
+    id: string,
+    name: string,
+    kind: LineItemKind,
+    work: WorkQuantities,
+    measure: Pick<LineItem, 'quantity' | 'unit'> = {}
+  ): LineItem {
+    const prepHours = roundQuantity(work.prepHours);
+    const paintHours = roundQuantity(work.paintHours);
+    const specialtyHours = roundQuantity(work.specialtyHours);
+
+    // Add 10% waste factor
+    const primerGallons = roundQuantity(work.primerGallons.times(1.1));
+    const paintGallons = roundQuantity(work.paintGallons.times(1.1));
+
+    const prep = roundCurrency(prepHours.times(this.laborRates.prep));
+    const painting = roundCurrency(paintHours.times(this.laborRates.painting));
+    const specialty = roundCurrency(specialtyHours.times(this.laborRates.specialty));
+    const primer = roundCurrency(
+      work.primerCost ?? primerGallons.times(this.getGallonPrice(work.primerProduct))
+    );
+    const paint = roundCurrency(
+      work.paintCost ?? paintGallons.times(this.getGallonPrice(work.paintProduct))
+    );
+    const supplies = roundCurrency(primer.plus(paint).times(this.materialPrices.suppliesPercentage));
+    const other = roundCurrency(work.otherMaterials);
+    const equipment = roundCurrency(work.equipment);
+
+    const labor = prep.plus(painting).plus(specialty);
+    const materials = primer.plus(paint).plus(supplies).plus(other);
+
+    const products: ProductUsage[] = [];
+    if (work.primerProduct && primerGallons.greaterThan(0)) {
+      products.push({ ...work.primerProduct, gallons: primerGallons.toNumber(), primer: true });
+    }
+    if (work.paintProduct && paintGallons.greaterThan(0)) {
+      products.push({ ...work.paintProduct, gallons: paintGallons.toNumber() });
+    }
+
+    return {
+      id,
+      name,
+      kind,
+      ...measure,
+      ...(work.coats ? { coats: work.coats } : {}),
+      hours: {
+        prep: prepHours.toNumber(),
+        painting: paintHours.toNumber(),
+        specialty: specialtyHours.toNumber(),
+        total: prepHours.plus(paintHours).plus(specialtyHours).toNumber()
+      },
+      gallons: {
+        primer: primerGallons.toNumber(),
+        paint: paintGallons.toNumber()
+      },
+      cost: {
+        prep: prep.toNumber(),
+        painting: painting.toNumber(),
+        specialty: specialty.toNumber(),
+        labor: labor.toNumber(),
+        primer: primer.toNumber(),
+        paint: paint.toNumber(),
+        supplies: supplies.toNumber(),
+        other: other.toNumber(),
+        materials: materials.toNumber(),
+        equipment: equipment.toNumber(),
+        total: labor.plus(materials).plus(equipment).toNumber()
+      },
+      ...(products.length > 0 ? { products } : {})
+    };
+  }
+
+  /**
+   * Roll sub-parts up into a parent line item (e.g. a room)
+   */
+  private groupLineItems(
+    id: string,
+    name: string,
+    kind: LineItemKind,
+    parts: LineItem[],
+    measure: Pick<LineItem, 'quantity' | 'unit'> = {}
+  ): LineItem {
+    const sum = sumLineItems(parts);
+    const labor = sum.prep.plus(sum.painting).plus(sum.specialty);
+    const materials = sum.primer.plus(sum.paint).plus(sum.supplies).plus(sum.other);
+
+    return {
+      id,
+      name,
+      kind,
+      ...measure,
+      hours: {
+        prep: sum.prepHours.toNumber(),
+        painting: sum.paintHours.toNumber(),
+        specialty: sum.specialtyHours.toNumber(),
+        total: sum.prepHours.plus(sum.paintHours).plus(sum.specialtyHours).toNumber()
+      },
+      gallons: {
+        primer: sum.primerGallons.toNumber(),
+        paint: sum.paintGallons.toNumber()
+      },
+      cost: {
+        prep: sum.prep.toNumber(),
+        painting: sum.painting.toNumber(),
+        specialty: sum.specialty.toNumber(),
+        labor: labor.toNumber(),
+        primer: sum.primer.toNumber(),
+        paint: sum.paint.toNumber(),
+        supplies: sum.supplies.toNumber(),
+        other: sum.other.toNumber(),
+        materials: materials.toNumber(),
+        equipment: sum.equipment.toNumber(),
+        total: labor.plus(materials).plus(sum.equipment).toNumber()
+      },
+      products: parts.flatMap(part => part.products || []),
+      parts
+    };
+  }
+
+  /**
+   * Build estimate totals from the top-level line items. Paint is bought in
+   * whole containers, so a rounding line item reconciles line item gallons
+   * with the purchase list.
+   */
+  private summarize(items: LineItem[]): CalculationResult {
+    const workItems = items.filter(item => item.kind !== 'container-rounding');
+    const materialList = buildMaterialList(
+      this.rateCard.paintCatalog,
+      workItems.flatMap(item => item.products || [])
+    );
+    const lineItems = [...workItems];
+    const rounding = this.priceContainerRounding(workItems, materialList);
+    if (rounding) {
+      lineItems.push(rounding);
+    }
+
+    const sum = sumLineItems(lineItems);
+
+    const totalLabor = sum.prep.plus(sum.painting).plus(sum.specialty);
+    const totalMaterials = sum.primer.plus(sum.paint).plus(sum.supplies).plus(sum.other);
+    const subtotal = totalLabor.plus(totalMaterials).plus(sum.equipment);
+
+    // Price from cost at the rate card's target gross margin
+    const costs = {
+      laborHours: sum.prepHours.plus(sum.paintHours).plus(sum.specialtyHours).toNumber(),
+      labor: totalLabor.toNumber(),
+      materials: totalMaterials.toNumber(),
+      equipment: sum.equipment.toNumber()
+    };
+    const price = priceFromCost(costs, this.rateCard.costModel);
+    const margin = analyzeMargin(costs, price, this.rateCard.costModel);
 
     return {
       labor: {
         prep: {
-          hours: totalPrepHours.toNumber(),
+          hours: sum.prepHours.toNumber(),
           rate: this.laborRates.prep,
-          total: prepLabor.toNumber()
+          total: sum.prep.toNumber()
         },
         painting: {
-          hours: totalPaintHours.toNumber(),
+          hours: sum.paintHours.toNumber(),
           rate: this.laborRates.painting,
-          total: paintLabor.toNumber()
+          total: sum.painting.toNumber()
+        },
+        specialty: {
+          hours: sum.specialtyHours.toNumber(),
+          rate: this.laborRates.specialty,
+          total: sum.specialty.toNumber()
         },
         total: totalLabor.toNumber()
       },
       materials: {
         primer: {
-          gallons: Math.ceil(totalPrimerGallons.toNumber()),
-          pricePerGallon: this.materialPrices.primerPerGallon,
-          total: primerCost.toNumber()
+          gallons: sum.primerGallons.toNumber(),
+          pricePerGallon: this.averagePrice(sum.primer, sum.primerGallons),
+          total: sum.primer.toNumber()
         },
         paint: {
-          gallons: Math.ceil(totalPaintGallons.toNumber()),
-          pricePerGallon: this.materialPrices.paintPerGallon,
-          total: paintCost.toNumber()
+          gallons: sum.paintGallons.toNumber(),
+          pricePerGallon: this.averagePrice(sum.paint, sum.paintGallons),
+          total: sum.paint.toNumber()
         },
-        supplies: suppliesCost.toNumber(),
+        supplies: sum.supplies.toNumber(),
+        other: sum.other.toNumber(),
         total: totalMaterials.toNumber()
       },
+      equipment: sum.equipment.toNumber(),
       subtotal: subtotal.toNumber(),
-      markup: 0,
-      total: subtotal.toNumber()
+      markup: new Decimal(price).minus(subtotal).toNumber(),
+      total: price,
+      overhead: margin.overhead,
+      profit: margin.profit,
+      margin,
+      lineItems,
+      materialList,
+      rateCard: this.getRateCardReference()
     };
   }
 
   /**
-   * Calculate pricing tiers (Good, Better, Best)
+   * Difference between line item paint costs and the cheapest containers
+   * that cover them: leftover paint, less any pail savings
    */
-  calculatePricingTiers(baseEstimate: CalculationResult): {
-    good: CalculationResult;
-    better: CalculationResult;
-    best: CalculationResult;
-  } {
-    // Good tier - base pricing
-    const good = { ...baseEstimate };
+  private priceContainerRounding(items: LineItem[], materialList: MaterialListItem[]): LineItem | undefined {
+    if (materialList.length === 0) {
+      return undefined;
+    }
 
-    // Better tier - 20% markup for premium materials and extra prep
-    const better = this.applyMarkup(baseEstimate, 0.20);
+    const sum = sumLineItems(items);
+    const purchased = { primer: new Decimal(0), paint: new Decimal(0) };
+    const gallons = { primer: new Decimal(0), paint: new Decimal(0) };
+    materialList.forEach(entry => {
+      const bucket = entry.primer ? 'primer' : 'paint';
+      purchased[bucket] = purchased[bucket].plus(entry.cost);
+      gallons[bucket] = gallons[bucket].plus(entry.gallonsPurchased);
+    });
 
-    // Best tier - 40% markup for top materials and meticulous work
-    const best = this.applyMarkup(baseEstimate, 0.40);
+    const work = emptyWork();
+    work.primerGallons = gallons.primer.minus(sum.primerGallons).dividedBy(1.1); // waste is already included
+    work.paintGallons = gallons.paint.minus(sum.paintGallons).dividedBy(1.1);
+    work.primerCost = purchased.primer.minus(sum.primer);
+    work.paintCost = purchased.paint.minus(sum.paint);
 
-    return { good, better, best };
+    return this.priceLineItem('container-rounding', 'Container Rounding', 'container-rounding', work);
   }
 
-  private applyMarkup(estimate: CalculationResult, markupPercentage: number): CalculationResult {
-    const markup = new Decimal(estimate.subtotal).times(markupPercentage);
-    const total = new Decimal(estimate.subtotal).plus(markup);
+  /**
+   * Catalog product for an application on this rate card
+   */
+  private selectPaint(application: PaintApplication, sheen?: Sheen) {
+    return selectProduct(this.rateCard.paintCatalog, application, sheen);
+  }
 
-    return {
-      ...estimate,
-      markup: markup.toNumber(),
-      total: total.toNumber()
-    };
+  private getGallonPrice(selection?: ProductSelection): number {
+    if (!selection) {
+      return 0;
+    }
+    return this.rateCard.paintCatalog.products.find(product => product.id === selection.productId)?.prices.gallon || 0;
+  }
+
+  private averagePrice(cost: Decimal, gallons: Decimal): number {
+    return gallons.isZero() ? 0 : roundCurrency(cost.dividedBy(gallons)).toNumber();
+  }
+
+  /**
+   * Substrate profile for a surface; unknown substrates use the product's
+   * coverage
+   */
+  private getSubstrate(substrate: string, coverageRate: number): SubstrateProfile {
+    return getSubstrateProfile(substrate, {
+      id: substrate,
+      label: substrate,
+      coverageRate,
+      porosityFactor: 1,
+      primerRequirement: 'condition',
+      prepMultiplier: 1
+    });
+  }
+
+  private requiresPrimer(substrate: SubstrateProfile, condition: Surface['condition']): boolean {
+    switch (substrate.primerRequirement) {
+      case 'always':
+        return true;
+      case 'never':
+        return false;
+      default:
+        // Only for poor/fair conditions
+        return condition === 'poor' || condition === 'fair';
+    }
+  }
+
+  /**
+   * Masking labor for sprayed areas (windows, fixtures, adjacent surfaces)
+   */
+  private calculateMaskingHours(sqft: Decimal): Decimal {
+    return sqft.dividedBy(this.productionRates.sprayMasking);
+  }
+
+  /**
+   * Sprayed coats lose material to overspray
+   */
+  private applyOverspray(gallons: Decimal, method: ApplicationMethod): Decimal {
+    if (method !== 'spray') {
+      return gallons;
+    }
+    return gallons.times(new Decimal(1).plus(this.coverageRates.oversprayLoss));
+  }
+
+  /**
+   * Calculate every service line in a scope and combine them
+   */
+  calculateScope(scope: EstimateScope): CalculationResult {
+    const estimate = this.combine([
+      this.calculateExterior(scope.surfaces || [], scope.exteriorOptions),
+      this.calculateInterior(scope.rooms || []),
+      this.calculateGutters(scope.gutters || []),
+      this.calculateCabinets(scope.cabinets || []),
+      this.calculateHolidayLighting(scope.holidayLighting || [])
+    ]);
+    return this.combine([
+      estimate,
+      this.calculateLeadSafety(estimate, scope.property, scope.exteriorOptions?.crewSize)
+    ]);
+  }
+
+  /**
+   * Calculate pricing tiers (Good, Better, Best). Each tier recalculates the
+   * scope with its own product line, coat count and prep scope.
+   */
+  calculatePricingTiers(
+    scope: EstimateScope,
+    definitions: Record<TierKey, TierDefinition> = tierDefinitions
+  ): Record<TierKey, TierEstimate> {
+    const estimates = {} as Record<TierKey, CalculationResult>;
+    (Object.keys(definitions) as TierKey[]).forEach(key => {
+      const tier = definitions[key];
+      const calculator = new PaintingCalculator(applyTierToRateCard(this.rateCard, tier));
+      estimates[key] = calculator.calculateScope(applyTierToScope(scope, tier));
+    });
+
+    const goodTotal = new Decimal(estimates.good.total);
+    const tiers = {} as Record<TierKey, TierEstimate>;
+    (Object.keys(estimates) as TierKey[]).forEach(key => {
+      const estimate = estimates[key];
+      tiers[key] = {
+        ...estimate,
+        tier: {
+          name: definitions[key].name,
+          multiplier: goodTotal.isZero()
+            ? 1
+            : new Decimal(estimate.total).dividedBy(goodTotal).toDecimalPlaces(2).toNumber(),
+          features: getTierFeatures(definitions[key], this.rateCard)
+        }
+      };
+    });
+
+    return tiers;
   }
 
   /**
-   * Calculate project timeline
+   * Scope and price alternatives near a customer's target price. Every
+   * combination of coats and dropped items is priced in each tier with
+   * business rules applied, then discounted toward the target up to the cap
+   * without going under the margin floor or the minimum job.
+   */
+  solveTargetPrice(
+    scope: EstimateScope,
+    request: TargetPriceRequest,
+    context: RuleContext = {}
+  ): PriceOption[] {
+    const levers = request.levers || {};
+    if (!(request.targetPrice > 0)) {
+      throw new Error('Target price must be greater than zero');
+    }
+    const maxDiscount = levers.maxDiscount ?? 0;
+    if (maxDiscount < 0 || maxDiscount >= 1) {
+      throw new Error('Maximum discount must be between 0 and 100%');
+    }
+
+    const tiers = levers.tiers || (Object.keys(tierDefinitions) as TierKey[]);
+    const coatOptions: Array<number | undefined> = [undefined, ...(levers.coats || [])];
+    const combinations = getDropCombinations(levers.droppableItems || [], levers.maxDroppedItems ?? 2);
+    const seen = new Set<string>();
+    const options: PriceOption[] = [];
+
+    coatOptions.forEach(coats => {
+      const coated = coats === undefined ? scope : applyCoatsToScope(scope, coats);
+      combinations.forEach(dropped => {
+        const estimates = this.calculatePricingTiers(dropScopeItems(coated, dropped));
+        tiers.forEach(tier => {
+          const estimate = this.applyBusinessRules(estimates[tier], context);
+          // Tier coat minimums can make coat options price identically
+          const key = [tier, estimate.total, ...dropped.map(ref => `${ref.line}:${ref.name}`)].join('|');
+          if (seen.has(key)) return;
+          seen.add(key);
+          options.push(priceOption(
+            { tier, coats, dropped, estimate },
+            request.targetPrice,
+            maxDiscount,
+            request.tolerance ?? 0.05,
+            businessRulesEngine.getMinimumTotal(estimate, context)
+          ));
+        });
+      });
+    });
+
+    return rankPriceOptions(options).slice(0, request.limit ?? 5);
+  }
+
+  /**
+   * Calculate project timeline (rough working-day count; see scheduleProject
+   * for a dated plan)
    */
   calculateTimeline(totalHours: number, crewSize: number = 3): {
     days: number;
@@ -335,31 +1216,26 @@ export class PaintingCalculator {
   }
 
   /**
-   * Apply KIND HOME specific business rules
+   * Schedule the estimate's prep, paint and cabinet phases from a start
+   * date on the working calendar, waiting between each line item's coats
    */
-  applyBusinessRules(estimate: CalculationResult): CalculationResult {
-    // Minimum job size
-    const minimumJob = 2500;
-    if (estimate.total < minimumJob) {
-      const adjustment = minimumJob - estimate.total;
-      return {
-        ...estimate,
-        markup: estimate.markup + adjustment,
-        total: minimumJob
-      };
-    }
-
-    // Volume discounts for large jobs
-    if (estimate.total > 20000) {
-      const discount = new Decimal(estimate.total).times(0.05); // 5% discount
-      return {
-        ...estimate,
-        markup: estimate.markup - discount.toNumber(),
-        total: estimate.total - discount.toNumber()
-      };
-    }
+  scheduleProject(estimate: CalculationResult, options: ScheduleOptions = {}): ProjectSchedule {
+    return scheduleWork(getPhaseWork(estimate), options);
+  }
 
-    return estimate;
+  /**
+   * Apply KIND HOME business rules (minimums, discounts, surcharges,
+   * rounding). Fired rules are recorded in appliedRules, and the margin is
+   * re-evaluated at the adjusted price.
+   */
+  applyBusinessRules<T extends CalculationResult>(
+    estimate: T,
+    context: RuleContext = {},
+    engine: BusinessRulesEngine = businessRulesEngine
+  ): T {
+    const result = engine.apply(estimate, context);
+    const margin = repriceMargin(result.margin, result.total);
+    return { ...result, profit: margin.profit, margin };
   }
 }
 
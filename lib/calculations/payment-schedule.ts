@@ -0,0 +1,318 @@
+/**
+ * Payment Schedules
+ * Deposit and progress-payment templates applied to an estimate total,
+ * producing dated milestones tied to the project timeline, with paid and
+ * unpaid tracking for proposals and invoices
+ */
+
+import Decimal from 'decimal.js';
+import type { ProjectSchedule, TimelinePhase } from './timeline';
+
+export type PaymentAmount =
+  | { type: 'percent'; value: number } // share of the total, 0-1
+  | { type: 'fixed'; value: number }
+  | { type: 'remainder' }; // whatever the other milestones leave
+
+export type PaymentTrigger =
+  | { type: 'signing' }
+  | { type: 'start' }
+  | { type: 'midpoint' } // the day half the labor hours are done
+  | { type: 'phase-start'; phase: TimelinePhase }
+  | { type: 'phase-complete'; phase: TimelinePhase }
+  | { type: 'completion' };
+
+export interface PaymentMilestoneTemplate {
+  label: string;
+  amount: PaymentAmount;
+  due: PaymentTrigger;
+  dueDays?: number; // calendar days after the trigger, e.g. net 7 on completion
+}
+
+export interface PaymentScheduleTemplate {
+  id: string;
+  name: string;
+  minimumTotal?: number; // applies to jobs of at least this total
+  maximumTotal?: number; // and below this total
+  milestones: PaymentMilestoneTemplate[];
+}
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+export interface PaymentMilestone {
+  id: string;
+  label: string;
+  amount: number;
+  dueDate: string; // YYYY-MM-DD
+  due: PaymentTrigger;
+  status: PaymentStatus;
+  paidAmount: number;
+  paidAt?: string;
+  reference?: string; // check number or processor transaction id
+}
+
+export interface PaymentSchedule {
+  template: PaymentScheduleTemplate;
+  total: number;
+  milestones: PaymentMilestone[];
+}
+
+export interface PaymentSummary {
+  paid: number;
+  outstanding: number;
+  nextDue?: PaymentMilestone;
+  overdue: PaymentMilestone[];
+}
+
+/**
+ * KIND HOME terms: a fixed deposit on small jobs, 30/40/30 otherwise
+ */
+export const defaultPaymentTemplates: PaymentScheduleTemplate[] = [
+  {
+    id: 'small-job',
+    name: 'Small job',
+    maximumTotal: 5000,
+    milestones: [
+      { label: 'Deposit', amount: { type: 'fixed', value: 500 }, due: { type: 'signing' } },
+      { label: 'Balance on completion', amount: { type: 'remainder' }, due: { type: 'completion' } }
+    ]
+  },
+  {
+    id: 'standard',
+    name: 'Deposit and progress payments',
+    minimumTotal: 5000,
+    milestones: [
+      { label: 'Deposit', amount: { type: 'percent', value: 0.3 }, due: { type: 'signing' } },
+      { label: 'Progress payment', amount: { type: 'percent', value: 0.4 }, due: { type: 'midpoint' } },
+      { label: 'Balance on completion', amount: { type: 'remainder' }, due: { type: 'completion' } }
+    ]
+  }
+];
+
+function toDateKey(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * First template whose total range covers the job
+ */
+export function selectPaymentTemplate(templates: PaymentScheduleTemplate[], total: number): PaymentScheduleTemplate {
+  const template = templates.find(candidate =>
+    (candidate.minimumTotal === undefined || total >= candidate.minimumTotal) &&
+    (candidate.maximumTotal === undefined || total < candidate.maximumTotal)
+  );
+  if (!template) {
+    throw new Error(`No payment schedule template covers a total of ${total}`);
+  }
+  return template;
+}
+
+// The remainder milestone, or the last one, absorbs rounding and changes
+function getBalancingIndex(template: PaymentScheduleTemplate): number {
+  const remainderIndex = template.milestones.findIndex(milestone => milestone.amount.type === 'remainder');
+  return remainderIndex >= 0 ? remainderIndex : template.milestones.length - 1;
+}
+
+function getTriggerDate(trigger: PaymentTrigger, schedule: ProjectSchedule, signedDate: string): string {
+  switch (trigger.type) {
+    case 'signing':
+      return signedDate;
+    case 'start':
+      return schedule.startDate;
+    case 'midpoint': {
+      const totalHours = schedule.days.reduce(
+        (sum, day) => sum + day.phases.reduce((hours, phase) => hours + phase.hours, 0),
+        0
+      );
+      let hours = 0;
+      const midpoint = schedule.days.find(day => {
+        hours += day.phases.reduce((sum, phase) => sum + phase.hours, 0);
+        return hours >= totalHours / 2;
+      });
+      return midpoint?.date || schedule.startDate;
+    }
+    case 'phase-start':
+      return schedule.phases.find(phase => phase.phase === trigger.phase)?.startDate || schedule.startDate;
+    case 'phase-complete':
+      // Phases not in the job fall back to completion
+      return schedule.phases.find(phase => phase.phase === trigger.phase)?.finishDate || schedule.finishDate;
+    case 'completion':
+      return schedule.finishDate;
+  }
+}
+
+/**
+ * Dated milestones for a total. Amounts are rounded to the cent and the
+ * remainder (or the last milestone) absorbs rounding so they add up to the
+ * total exactly.
+ */
+export function buildPaymentSchedule(
+  template: PaymentScheduleTemplate,
+  total: number,
+  schedule: ProjectSchedule,
+  signedDate: Date | string = new Date()
+): PaymentSchedule {
+  if (template.milestones.length === 0) {
+    throw new Error(`Payment schedule template ${template.id} has no milestones`);
+  }
+  if (template.milestones.filter(milestone => milestone.amount.type === 'remainder').length > 1) {
+    throw new Error(`Payment schedule template ${template.id} has more than one remainder milestone`);
+  }
+
+  const jobTotal = new Decimal(total);
+  const amounts = template.milestones.map(milestone => {
+    switch (milestone.amount.type) {
+      case 'percent':
+        return jobTotal.times(milestone.amount.value).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+      case 'fixed':
+        // A fixed deposit never exceeds the job
+        return Decimal.min(jobTotal, milestone.amount.value);
+      default:
+        return new Decimal(0);
+    }
+  });
+
+  const balancingIndex = getBalancingIndex(template);
+  const others = amounts.reduce(
+    (sum, amount, index) => (index === balancingIndex ? sum : sum.plus(amount)),
+    new Decimal(0)
+  );
+  amounts[balancingIndex] = jobTotal.minus(others);
+  if (amounts[balancingIndex].isNegative()) {
+    throw new Error(`Payment schedule template ${template.id} exceeds a total of ${total}`);
+  }
+
+  // Nothing falls due before the contract is signed
+  const signed = toDateKey(signedDate);
+  const getDueDate = (milestone: PaymentMilestoneTemplate) => {
+    const dueDate = addDays(getTriggerDate(milestone.due, schedule, signed), milestone.dueDays || 0);
+    return dueDate < signed ? signed : dueDate;
+  };
+
+  return {
+    template,
+    total,
+    milestones: template.milestones.map((milestone, index) => ({
+      id: `milestone-${index + 1}`,
+      label: milestone.label,
+      amount: amounts[index].toNumber(),
+      dueDate: getDueDate(milestone),
+      due: milestone.due,
+      status: 'unpaid',
+      paidAmount: 0
+    }))
+  };
+}
+
+/**
+ * The schedule for a new total, keeping recorded payments: milestones with
+ * payments keep their amounts (at least what was paid) and the balancing
+ * milestone absorbs the change. Until the first payment the template is
+ * re-selected for the new total when templates are given.
+ */
+export function rescalePaymentSchedule(
+  current: PaymentSchedule,
+  total: number,
+  schedule: ProjectSchedule,
+  options: { templates?: PaymentScheduleTemplate[]; signedDate?: Date | string } = {}
+): PaymentSchedule {
+  const hasPayments = current.milestones.some(milestone => milestone.paidAmount > 0);
+  // Terms are fixed once money has been taken
+  const template = hasPayments || !options.templates
+    ? current.template
+    : selectPaymentTemplate(options.templates, total);
+  const rescaled = buildPaymentSchedule(template, total, schedule, options.signedDate);
+  if (!hasPayments) {
+    return rescaled;
+  }
+
+  const previous = new Map(current.milestones.map(milestone => [milestone.id, milestone]));
+  const getPaid = (milestone: PaymentMilestone) => {
+    const match = previous.get(milestone.id);
+    return match && match.paidAmount > 0 ? match : undefined;
+  };
+  const balancingIndex = getBalancingIndex(template);
+  const amounts = rescaled.milestones.map((milestone, index) => {
+    const paid = getPaid(milestone);
+    if (!paid || index === balancingIndex) {
+      return new Decimal(milestone.amount);
+    }
+    return paid.status === 'paid' ? new Decimal(paid.amount) : Decimal.max(milestone.amount, paid.paidAmount);
+  });
+  const others = amounts.reduce(
+    (sum, amount, index) => (index === balancingIndex ? sum : sum.plus(amount)),
+    new Decimal(0)
+  );
+  amounts[balancingIndex] = new Decimal(total).minus(others);
+  if (amounts[balancingIndex].lessThan(getPaid(rescaled.milestones[balancingIndex])?.paidAmount || 0)) {
+    throw new Error(`Payments already recorded exceed a total of ${total}`);
+  }
+
+  return {
+    ...rescaled,
+    milestones: rescaled.milestones.map((milestone, index) => {
+      const paid = getPaid(milestone);
+      const amount = amounts[index];
+      if (!paid) {
+        return { ...milestone, amount: amount.toNumber() };
+      }
+      const status: PaymentStatus = amount.equals(paid.paidAmount) ? 'paid' : 'partial';
+      return {
+        ...milestone,
+        amount: amount.toNumber(),
+        status,
+        paidAmount: paid.paidAmount,
+        paidAt: paid.paidAt,
+        reference: paid.reference
+      };
+    })
+  };
+}
+
+/**
+ * Record a payment against a milestone; partial payments accumulate
+ */
+export function recordPayment(
+  schedule: PaymentSchedule,
+  milestoneId: string,
+  payment: { amount?: number; paidAt?: Date | string; reference?: string } = {}
+): PaymentSchedule {
+  const milestone = schedule.milestones.find(candidate => candidate.id === milestoneId);
+  if (!milestone) {
+    throw new Error(`Payment milestone ${milestoneId} not found`);
+  }
+
+  const outstanding = new Decimal(milestone.amount).minus(milestone.paidAmount);
+  const amount = new Decimal(payment.amount ?? outstanding);
+  if (amount.lessThanOrEqualTo(0) || amount.greaterThan(outstanding)) {
+    throw new Error(`Payment of ${amount} does not fit the ${outstanding} outstanding on ${milestone.label}`);
+  }
+
+  const paidAmount = amount.plus(milestone.paidAmount);
+  return {
+    ...schedule,
+    milestones: schedule.milestones.map(candidate => candidate.id !== milestoneId ? candidate : {
+      ...candidate,
+      status: paidAmount.equals(candidate.amount) ? 'paid' : 'partial',
+      paidAmount: paidAmount.toNumber(),
+      paidAt: toDateKey(payment.paidAt || new Date()),
+      reference: payment.reference ?? candidate.reference
+    })
+  };
+}
+
+export function getPaymentSummary(schedule: PaymentSchedule, asOf: Date | string = new Date()): PaymentSummary {
+  const today = toDateKey(asOf);
+  const unpaid = schedule.milestones.filter(milestone => milestone.status !== 'paid');
+  const paid = schedule.milestones.reduce((sum, milestone) => sum.plus(milestone.paidAmount), new Decimal(0));
+
+  return {
+    paid: paid.toNumber(),
+    outstanding: new Decimal(schedule.total).minus(paid).toNumber(),
+    nextDue: unpaid[0],
+    overdue: unpaid.filter(milestone => milestone.dueDate < today)
+  };
+}
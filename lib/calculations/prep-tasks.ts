@@ -0,0 +1,89 @@
+/**
+ * Exterior Prep Tasks
+ * Power washing, scraping, priming, caulking and minor repairs, each with
+ * its own production rate and consumables
+ */
+
+export type PrepTask = 'powerWashing' | 'scraping' | 'priming' | 'caulking' | 'minorRepairs';
+
+/**
+ * Which prep tasks are in scope; matches the estimate's prepWork flags
+ */
+export type PrepWork = Partial<Record<PrepTask, boolean>>;
+
+export type SurfaceCondition = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface Consumable {
+  name: string;
+  unit: string; // purchase unit, e.g. tube
+  coverage: number; // sq ft or linear feet of work per purchase unit
+  price: number;
+}
+
+export interface ConsumablePurchase {
+  name: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface PrepTaskRate {
+  label: string;
+  unit: 'sqft' | 'lf';
+  rate: number; // units per hour
+  // Share of the surface the task applies to, by condition
+  conditionShare?: Record<SurfaceCondition, number>;
+  consumables: Consumable[];
+}
+
+export interface PrepTaskRates {
+  tasks: Record<PrepTask, PrepTaskRate>;
+  caulkLinearFeetPerSqft: number; // used when a surface has no measured caulk run
+}
+
+export const prepTaskOrder: PrepTask[] = [
+  'powerWashing',
+  'scraping',
+  'minorRepairs',
+  'caulking',
+  'priming'
+];
+
+export const defaultPrepTaskRates: PrepTaskRates = {
+  tasks: {
+    powerWashing: {
+      label: 'Power Washing',
+      unit: 'sqft',
+      rate: 500,
+      consumables: [{ name: 'House wash detergent', unit: 'gallon', coverage: 2000, price: 18 }]
+    },
+    scraping: {
+      label: 'Scraping & Sanding',
+      unit: 'sqft',
+      rate: 80,
+      conditionShare: { excellent: 0.05, good: 0.15, fair: 0.35, poor: 0.7 },
+      consumables: [{ name: 'Sanding discs', unit: 'pack', coverage: 400, price: 12 }]
+    },
+    minorRepairs: {
+      label: 'Minor Repairs',
+      unit: 'sqft',
+      rate: 20,
+      conditionShare: { excellent: 0, good: 0.02, fair: 0.05, poor: 0.1 },
+      consumables: [{ name: 'Exterior wood filler', unit: 'quart', coverage: 30, price: 16 }]
+    },
+    caulking: {
+      label: 'Caulking',
+      unit: 'lf',
+      rate: 60,
+      consumables: [{ name: 'Elastomeric caulk', unit: 'tube', coverage: 25, price: 7.5 }]
+    },
+    priming: {
+      label: 'Priming',
+      unit: 'sqft',
+      rate: 200,
+      consumables: [] // primer is bought from the paint catalog
+    }
+  },
+  caulkLinearFeetPerSqft: 0.12
+};
@@ -0,0 +1,149 @@
+/**
+ * Good / Better / Best Tier Definitions
+ * Each tier changes the inputs (product line, coats, prep scope) and is
+ * recalculated through the painting calculator
+ */
+
+import type { PricingTier } from '@/lib/excel-engine/types';
+import type { RateCard } from './rate-cards';
+import type { EstimateScope } from './painting-calculator';
+import type { PaintApplication, PaintCatalog } from './paint-catalog';
+import type { PrepTask, PrepTaskRate } from './prep-tasks';
+
+export type TierKey = 'good' | 'better' | 'best';
+
+export type PrepScope = 'standard' | 'enhanced' | 'restoration';
+
+export interface TierDefinition {
+  key: TierKey;
+  name: PricingTier['name'];
+  products: Partial<Record<PaintApplication, string>>; // catalog product ids; rate card defaults otherwise
+  minimumCoats: number;
+  prepScope: PrepScope;
+  warrantyYears: number;
+}
+
+const prepScopes: Record<PrepScope, { label: string; multiplier: number }> = {
+  standard: { label: 'Standard prep work', multiplier: 1.0 },
+  enhanced: { label: 'Enhanced prep work', multiplier: 1.25 },
+  restoration: { label: 'Premium restoration prep', multiplier: 1.5 }
+};
+
+export const tierDefinitions: Record<TierKey, TierDefinition> = {
+  good: {
+    key: 'good',
+    name: 'Good',
+    products: {},
+    minimumCoats: 2,
+    prepScope: 'standard',
+    warrantyYears: 3
+  },
+  better: {
+    key: 'better',
+    name: 'Better',
+    products: { exterior: 'sw-rain-refresh' },
+    minimumCoats: 2,
+    prepScope: 'enhanced',
+    warrantyYears: 5
+  },
+  best: {
+    key: 'best',
+    name: 'Best',
+    products: {
+      exterior: 'bm-aura-exterior',
+      'interior-walls': 'bm-aura-interior',
+      trim: 'bm-advance'
+    },
+    minimumCoats: 3,
+    prepScope: 'restoration',
+    warrantyYears: 7
+  }
+};
+
+// Finish coats a customer compares tiers by; primer and ceiling paint are
+// left out of the label
+const tierFinishes: PaintApplication[] = ['exterior', 'interior-walls', 'trim'];
+
+/**
+ * Products a catalog paints the finishes with, grouped by brand, e.g.
+ * "Sherwin-Williams Rain Refresh Premium, Emerald Interior"
+ */
+export function getProductLineLabel(catalog: PaintCatalog): string {
+  const linesByBrand = new Map<string, string[]>();
+  tierFinishes.forEach(application => {
+    const product = catalog.products.find(candidate => candidate.id === catalog.selections[application].productId);
+    if (!product) return;
+    const lines = linesByBrand.get(product.brand) || [];
+    if (!lines.includes(product.productLine)) {
+      lines.push(product.productLine);
+    }
+    linesByBrand.set(product.brand, lines);
+  });
+  return Array.from(linesByBrand, ([brand, lines]) => `${brand} ${lines.join(', ')}`).join('; ');
+}
+
+/**
+ * Feature list for a tier, labelled with the products it is priced with
+ * on the given rate card
+ */
+export function getTierFeatures(tier: TierDefinition, rateCard: RateCard): string[] {
+  return [
+    getProductLineLabel(applyTierToRateCard(rateCard, tier).paintCatalog),
+    `${tier.minimumCoats}-coat finish`,
+    prepScopes[tier.prepScope].label,
+    `${tier.warrantyYears}-year warranty`
+  ];
+}
+
+/**
+ * Derive the rate card a tier is priced with: the tier's catalog products
+ * and slower, more thorough prep
+ */
+export function applyTierToRateCard(rateCard: RateCard, tier: TierDefinition): RateCard {
+  const prepMultiplier = prepScopes[tier.prepScope].multiplier;
+  const wallPrep = rateCard.productionRates.wallPrep;
+
+  const selections = { ...rateCard.paintCatalog.selections };
+  (Object.keys(tier.products) as PaintApplication[]).forEach(application => {
+    selections[application] = { ...selections[application], productId: tier.products[application]! };
+  });
+
+  const tasks = { ...rateCard.prepTasks.tasks };
+  (Object.keys(tasks) as PrepTask[]).forEach(task => {
+    tasks[task] = { ...tasks[task], rate: tasks[task].rate / prepMultiplier } as PrepTaskRate;
+  });
+
+  return {
+    ...rateCard,
+    paintCatalog: { ...rateCard.paintCatalog, selections },
+    prepTasks: { ...rateCard.prepTasks, tasks },
+    productionRates: {
+      ...rateCard.productionRates,
+      wallPrep: {
+        excellent: wallPrep.excellent / prepMultiplier,
+        good: wallPrep.good / prepMultiplier,
+        fair: wallPrep.fair / prepMultiplier,
+        poor: wallPrep.poor / prepMultiplier
+      }
+    }
+  };
+}
+
+/**
+ * Raise coat counts on painted surfaces and walls to the tier minimum
+ */
+export function applyTierToScope(scope: EstimateScope, tier: TierDefinition): EstimateScope {
+  return {
+    ...scope,
+    surfaces: scope.surfaces?.map(surface => ({
+      ...surface,
+      coats: Math.max(surface.coats, tier.minimumCoats)
+    })),
+    rooms: scope.rooms?.map(room => ({
+      ...room,
+      walls: Array.isArray(room.walls)
+        ? room.walls.map(wall => ({ ...wall, coats: Math.max(wall.coats || 2, tier.minimumCoats) }))
+        : { ...room.walls, coats: Math.max(room.walls.coats || 2, tier.minimumCoats) }
+    }))
+  };
+}
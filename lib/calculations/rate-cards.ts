@@ -0,0 +1,421 @@
+/**
+ * Rate Cards
+ * Named, versioned sets of labor rates, material prices, coverage and
+ * production rates that drive the painting calculator per branch
+ */
+
+import { z } from 'zod';
+import type {
+  LaborRates,
+  MaterialPrices,
+  CoverageRates,
+  ProductionRates
+} from './painting-calculator';
+import { defaultServiceLineRates, type ServiceLineRates } from './service-lines';
+import { defaultAccessRates, type AccessRates } from './access';
+import { defaultPaintCatalog, sheens, type PaintCatalog } from './paint-catalog';
+import { defaultPrepTaskRates, type PrepTaskRates } from './prep-tasks';
+import { defaultLeadSafetyRates, type LeadSafetyRates } from './lead-safety';
+import { defaultColorChangeRates, type ColorChangeRates } from './color-change';
+import { defaultCostModelRates, type CostModelRates } from './cost-model';
+import { defaultPaymentTemplates, type PaymentScheduleTemplate } from './payment-schedule';
+
+export interface RateCard {
+  id: string;
+  name: string;
+  version: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  effectiveTo?: string; // YYYY-MM-DD, inclusive
+  branch?: string;
+  laborRates: LaborRates;
+  materialPrices: MaterialPrices;
+  coverageRates: CoverageRates;
+  productionRates: ProductionRates;
+  serviceLines: ServiceLineRates;
+  access: AccessRates;
+  paintCatalog: PaintCatalog;
+  prepTasks: PrepTaskRates;
+  leadSafety: LeadSafetyRates;
+  colorChange: ColorChangeRates;
+  costModel: CostModelRates;
+  paymentTemplates: PaymentScheduleTemplate[]; // first matching template by job total
+}
+
+/**
+ * Stored on every estimate so re-opening it resolves the exact rates used
+ */
+export interface RateCardReference {
+  id: string;
+  version: number;
+}
+
+const rate = z.number().positive('Rate must be positive');
+const isoDate = z.string().date('Invalid date format, expected YYYY-MM-DD');
+const unitRate = z.object({
+  prepHours: z.number().min(0),
+  hours: z.number().min(0),
+  materials: z.number().min(0)
+});
+const equipmentRate = z.object({
+  label: z.string().min(1),
+  maxHeight: rate,
+  dailyRate: z.number().min(0),
+  deliveryFee: z.number().min(0)
+});
+const cabinetFinishRates = z.object({
+  door: unitRate,
+  drawerFront: unitRate
+});
+const productSelection = z.object({
+  productId: z.string().min(1),
+  sheen: z.enum(sheens)
+});
+const share = z.number().min(0).max(1, 'Share must be between 0 and 1');
+const timelinePhase = z.enum(['prep', 'paint', 'specialty', 'cabinets']);
+const paymentTemplate = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  minimumTotal: z.number().min(0).optional(),
+  maximumTotal: z.number().positive().optional(),
+  milestones: z.array(z.object({
+    label: z.string().min(1),
+    amount: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('percent'), value: share }),
+      z.object({ type: z.literal('fixed'), value: z.number().positive() }),
+      z.object({ type: z.literal('remainder') })
+    ]),
+    due: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('signing') }),
+      z.object({ type: z.literal('start') }),
+      z.object({ type: z.literal('midpoint') }),
+      z.object({ type: z.literal('phase-start'), phase: timelinePhase }),
+      z.object({ type: z.literal('phase-complete'), phase: timelinePhase }),
+      z.object({ type: z.literal('completion') })
+    ]),
+    dueDays: z.number().int().min(0).optional()
+  })).min(1)
+}).refine(template => template.milestones.filter(milestone => milestone.amount.type === 'remainder').length <= 1, {
+  message: 'Only one milestone can take the remainder',
+  path: ['milestones'],
+});
+const lrv = z.number().min(0).max(100, 'LRV must be between 0 and 100');
+const conditionShare = z.number().min(0).max(1, 'Condition share must be between 0 and 1');
+const prepTaskRate = z.object({
+  label: z.string().min(1),
+  unit: z.enum(['sqft', 'lf']),
+  rate,
+  conditionShare: z.object({
+    excellent: conditionShare,
+    good: conditionShare,
+    fair: conditionShare,
+    poor: conditionShare
+  }).optional(),
+  consumables: z.array(z.object({
+    name: z.string().min(1),
+    unit: z.string().min(1),
+    coverage: rate,
+    price: z.number().min(0)
+  }))
+});
+const paintCatalog = z.object({
+  products: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/, 'Product id must be lowercase kebab-case'),
+    brand: z.string().min(1, 'Brand required'),
+    productLine: z.string().min(1, 'Product line required'),
+    sheens: z.array(z.enum(sheens)).min(1, 'At least one sheen required'),
+    coverage: rate,
+    prices: z.object({
+      quart: rate.optional(),
+      gallon: rate,
+      pail: rate.optional()
+    })
+  })),
+  selections: z.object({
+    exterior: productSelection,
+    'interior-walls': productSelection,
+    ceiling: productSelection,
+    trim: productSelection,
+    primer: productSelection
+  })
+}).refine(catalog => Object.values(catalog.selections).every(selection =>
+  catalog.products.some(product =>
+    product.id === selection.productId && product.sheens.includes(selection.sheen)
+  )
+), {
+  message: 'Default selections must name catalog products in a sheen they come in',
+  path: ['selections'],
+});
+
+export const rateCardSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Rate card id must be lowercase kebab-case').max(100),
+  name: z.string().min(1, 'Rate card name required').max(255),
+  version: z.number().int().min(1, 'Version must be a positive integer'),
+  effectiveFrom: isoDate,
+  effectiveTo: isoDate.optional(),
+  branch: z.string().max(100).optional(),
+  laborRates: z.object({
+    prep: rate,
+    painting: rate,
+    specialty: rate
+  }),
+  materialPrices: z.object({
+    suppliesPercentage: z.number().min(0).max(1, 'Supplies percentage must be between 0 and 1')
+  }),
+  coverageRates: z.object({
+    trim: rate,
+    oversprayLoss: z.number().min(0).max(1, 'Overspray loss must be between 0 and 1')
+  }),
+  productionRates: z.object({
+    wallPrep: z.object({
+      excellent: rate,
+      good: rate,
+      fair: rate,
+      poor: rate
+    }),
+    wallPainting: z.object({
+      spray: rate,
+      roll: rate,
+      brush: rate
+    }),
+    wallLocation: z.object({
+      room: rate,
+      closet: rate,
+      stairwell: rate
+    }),
+    accentWall: rate,
+    sprayMasking: rate,
+    ceilingPainting: rate,
+    trimPainting: rate,
+    cabinetPainting: rate
+  }),
+  serviceLines: z.object({
+    gutter: z.object({
+      linearFoot: unitRate,
+      downspout: unitRate
+    }),
+    cabinet: z.object({
+      paint: cabinetFinishRates,
+      stain: cabinetFinishRates,
+      lacquer: cabinetFinishRates,
+      glaze: cabinetFinishRates
+    }),
+    holidayLighting: z.object({
+      install: unitRate,
+      removal: unitRate
+    })
+  }),
+  access: z.object({
+    equipment: z.object({
+      ladder: equipmentRate,
+      'extension-ladder': equipmentRate,
+      lift: equipmentRate,
+      scaffolding: equipmentRate
+    }),
+    storyHeight: rate,
+    slowdownPerStory: z.number().min(0)
+  }),
+  paintCatalog,
+  prepTasks: z.object({
+    tasks: z.object({
+      powerWashing: prepTaskRate,
+      scraping: prepTaskRate,
+      priming: prepTaskRate,
+      caulking: prepTaskRate,
+      minorRepairs: prepTaskRate
+    }),
+    caulkLinearFeetPerSqft: z.number().min(0)
+  }),
+  leadSafety: z.object({
+    containment: z.object({
+      exteriorHoursPer100Sqft: z.number().min(0),
+      exteriorMaterialsPerSqft: z.number().min(0),
+      interiorHoursPerRoom: z.number().min(0),
+      interiorMaterialsPerRoom: z.number().min(0)
+    }),
+    cleanup: z.object({
+      exteriorHoursPer100Sqft: z.number().min(0),
+      interiorHoursPerRoom: z.number().min(0),
+      hepaVacuumPerDay: z.number().min(0)
+    }),
+    certifiedRenovatorShare: z.number().min(0).max(1, 'Certified renovator share must be between 0 and 1'),
+    disposal: z.object({
+      perJob: z.number().min(0),
+      per1000Sqft: z.number().min(0)
+    })
+  }),
+  colorChange: z.object({
+    lrv: z.object({
+      light: lrv,
+      medium: lrv,
+      dark: lrv
+    }),
+    moderateDelta: lrv,
+    majorDelta: lrv,
+    deepColorLrv: lrv,
+    deepColorLaborFactor: rate
+  }).refine(rates => rates.majorDelta >= rates.moderateDelta, {
+    message: 'majorDelta must not be below moderateDelta',
+    path: ['majorDelta'],
+  }),
+  costModel: z.object({
+    laborBurden: z.object({
+      payrollTaxes: share,
+      workersComp: share
+    }),
+    overheadPerLaborHour: z.number().min(0),
+    targetGrossMargin: z.number().min(0).lt(1, 'Target gross margin must be below 100%'),
+    marginFloor: share
+  }).refine(rates => rates.marginFloor <= rates.targetGrossMargin, {
+    message: 'marginFloor must not exceed targetGrossMargin',
+    path: ['marginFloor'],
+  }),
+  paymentTemplates: z.array(paymentTemplate).min(1)
+}).refine(card => !card.effectiveTo || card.effectiveTo >= card.effectiveFrom, {
+  message: 'effectiveTo must not be before effectiveFrom',
+  path: ['effectiveTo'],
+});
+
+/**
+ * KIND HOME standard rates (bart3.20.xlsx defaults)
+ */
+export const defaultRateCard: RateCard = {
+  id: 'kind-home-standard',
+  name: 'KIND HOME Standard',
+  version: 1,
+  effectiveFrom: '2024-01-01',
+  laborRates: {
+    prep: 65,
+    painting: 65,
+    specialty: 85
+  },
+  materialPrices: {
+    suppliesPercentage: 0.15
+  },
+  // Paint and primer coverage comes from the paint catalog
+  coverageRates: {
+    trim: 150, // linear feet per gallon
+    oversprayLoss: 0.25
+  },
+  // Labor production rates (sq ft per hour)
+  productionRates: {
+    wallPrep: {
+      excellent: 200,
+      good: 150,
+      fair: 100,
+      poor: 60
+    },
+    wallPainting: {
+      spray: 250,
+      roll: 150,
+      brush: 80
+    },
+    wallLocation: {
+      room: 1,
+      closet: 1.3, // cramped, more cutting in
+      stairwell: 1.5 // planks and extension ladders
+    },
+    accentWall: 1.2,
+    sprayMasking: 300,
+    ceilingPainting: 180,
+    trimPainting: 40, // linear feet per hour
+    cabinetPainting: 2 // cabinets per hour
+  },
+  serviceLines: defaultServiceLineRates,
+  access: defaultAccessRates,
+  paintCatalog: defaultPaintCatalog,
+  prepTasks: defaultPrepTaskRates,
+  leadSafety: defaultLeadSafetyRates,
+  colorChange: defaultColorChangeRates,
+  costModel: defaultCostModelRates,
+  paymentTemplates: defaultPaymentTemplates
+};
+
+/**
+ * Validate untrusted rate card data (JSON uploads, API payloads)
+ */
+export function validateRateCard(data: unknown): RateCard {
+  const result = rateCardSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'rateCard'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid rate card: ${issues}`);
+  }
+  return result.data;
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class RateCardRegistry {
+  private cards = new Map<string, RateCard[]>();
+
+  /**
+   * Validate and register a rate card version. Versions are immutable once
+   * registered so saved estimates always reproduce the same numbers.
+   */
+  register(data: unknown): RateCard {
+    // Validation returns a copy, so the caller's data stays writable
+    const card = deepFreeze(validateRateCard(data));
+    const versions = this.cards.get(card.id) || [];
+
+    if (versions.some(existing => existing.version === card.version)) {
+      throw new Error(`Rate card ${card.id} v${card.version} is already registered`);
+    }
+
+    versions.push(card);
+    versions.sort((a, b) => a.version - b.version);
+    this.cards.set(card.id, versions);
+    return card;
+  }
+
+  /**
+   * Register a batch of rate cards, e.g. from a JSON file or the backend
+   */
+  load(data: unknown[]): RateCard[] {
+    return data.map(card => this.register(card));
+  }
+
+  /**
+   * Exact lookup used when re-opening a saved estimate
+   */
+  get(reference: RateCardReference): RateCard | undefined {
+    return this.cards.get(reference.id)?.find(card => card.version === reference.version);
+  }
+
+  /**
+   * Latest version of a rate card in effect on the given date
+   */
+  resolve(id: string, asOf: Date = new Date()): RateCard {
+    const day = toDateKey(asOf);
+    const versions = this.cards.get(id) || [];
+    const effective = versions.filter(card =>
+      card.effectiveFrom <= day && (!card.effectiveTo || card.effectiveTo >= day)
+    );
+
+    if (effective.length === 0) {
+      throw new Error(`No version of rate card ${id} is effective on ${day}`);
+    }
+
+    return effective[effective.length - 1];
+  }
+
+  list(id?: string): RateCard[] {
+    if (id) {
+      return [...(this.cards.get(id) || [])];
+    }
+    return Array.from(this.cards.values()).flat();
+  }
+}
+
+export const rateCardRegistry = new RateCardRegistry();
+rateCardRegistry.register(defaultRateCard);
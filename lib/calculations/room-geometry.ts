@@ -0,0 +1,96 @@
+/**
+ * Room Geometry
+ * Individual walls with their own heights and shapes, openings deducted
+ * from paintable area, and per-wall color and sheen
+ */
+
+import type { Sheen } from './paint-catalog';
+import type { ApplicationMethod } from './painting-calculator';
+import type { ColorChange } from './color-change';
+
+export type WallShape = 'rectangle' | 'sloped' | 'gable';
+
+export type WallLocation = 'room' | 'closet' | 'stairwell';
+
+export type OpeningType = 'door' | 'window' | 'opening';
+
+export interface Opening {
+  type: OpeningType;
+  width?: number; // feet; standard sizes when omitted
+  height?: number;
+  count?: number;
+}
+
+export interface Wall {
+  name?: string;
+  length: number; // feet along the floor
+  height: number; // feet; the low end of sloped walls, the eaves of gables
+  peakHeight?: number; // high end of a sloped wall or peak of a gable wall
+  shape?: WallShape; // defaults to rectangle
+  sqft?: number; // measured gross area; overrides length and height
+  openings?: Opening[];
+  location?: WallLocation; // defaults to room
+  accent?: boolean; // painted a different color from the rest of the room
+  color?: string;
+  sheen?: Sheen;
+  coats?: number;
+  applicationMethod?: ApplicationMethod;
+  colorChange?: ColorChange;
+}
+
+export interface WallArea {
+  gross: number;
+  openings: number;
+  net: number;
+}
+
+/**
+ * Standard opening sizes in feet, used when only a count is known
+ */
+export const standardOpenings: Record<OpeningType, { width: number; height: number }> = {
+  door: { width: 3, height: 7 },
+  window: { width: 3, height: 5 },
+  opening: { width: 4, height: 7 }
+};
+
+export function getOpeningArea(opening: Opening): number {
+  const size = standardOpenings[opening.type];
+  return (opening.width ?? size.width) * (opening.height ?? size.height) * (opening.count ?? 1);
+}
+
+/**
+ * Gross area from shape: sloped walls are trapezoids, gable walls add a
+ * triangle above the eaves
+ */
+export function getGrossWallArea(wall: Wall): number {
+  if (wall.sqft !== undefined) {
+    return wall.sqft;
+  }
+
+  const peak = wall.peakHeight ?? wall.height;
+  switch (wall.shape) {
+    case 'sloped':
+      return wall.length * (wall.height + peak) / 2;
+    case 'gable':
+      return wall.length * wall.height + wall.length * Math.max(0, peak - wall.height) / 2;
+    default:
+      return wall.length * wall.height;
+  }
+}
+
+/**
+ * Paintable area after door and window deductions, never below zero
+ */
+export function getWallArea(wall: Wall): WallArea {
+  const gross = getGrossWallArea(wall);
+  const openings = (wall.openings || []).reduce((sum, opening) => sum + getOpeningArea(opening), 0);
+  return { gross, openings, net: Math.max(0, gross - openings) };
+}
+
+/**
+ * Ceiling area for a pitched (vaulted) ceiling from its floor area and
+ * pitch in inches of rise per foot of run
+ */
+export function getPitchedArea(floorArea: number, pitch: number = 0): number {
+  return floorArea * Math.sqrt(1 + (pitch / 12) ** 2);
+}
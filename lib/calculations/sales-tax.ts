@@ -0,0 +1,276 @@
+/**
+ * Sales Tax Engine
+ * Looks up state, county, city and special district rates by ZIP code and
+ * returns an itemized breakdown per jurisdiction
+ */
+
+import Decimal from 'decimal.js';
+import { z } from 'zod';
+
+export type TaxLevel = 'state' | 'county' | 'city' | 'special';
+
+/**
+ * What a jurisdiction taxes: the whole job, or only materials where labor on
+ * real property is not taxable
+ */
+export type TaxBasis = 'subtotal' | 'materials';
+
+export interface TaxJurisdiction {
+  level: TaxLevel;
+  name: string;
+  rate: number; // fraction, 0.029 = 2.9%
+  basis: TaxBasis;
+}
+
+export interface TaxLocation {
+  label: string;
+  zips: string[];
+  jurisdictions: TaxJurisdiction[];
+}
+
+export interface TaxRateTable {
+  version: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  source?: string;
+  locations: TaxLocation[];
+  fallback: TaxLocation; // used for ZIP codes not in the table
+}
+
+export interface TaxInput {
+  zip?: string | number; // forms and imports may hand ZIP codes over as numbers
+  labor: number;
+  materials: number;
+  equipment: number;
+  markup?: number; // overhead and profit over cost, taxed with the subtotal
+  exempt?: boolean;
+  exemptionId?: string; // exemption certificate number
+}
+
+export interface TaxLine {
+  level: TaxLevel;
+  name: string;
+  rate: number;
+  basis: TaxBasis;
+  taxable: number;
+  amount: number;
+}
+
+export interface TaxBreakdown {
+  zip?: string;
+  location: string;
+  fallback: boolean; // ZIP not found; rates are an estimate
+  exempt: boolean;
+  exemptionId?: string;
+  rate: number; // combined rate across jurisdictions
+  lines: TaxLine[];
+  total: number;
+  tableVersion: string;
+}
+
+const zipCode = z.string().regex(/^\d{5}$/, 'ZIP codes must be 5 digits');
+
+const jurisdictionSchema = z.object({
+  level: z.enum(['state', 'county', 'city', 'special']),
+  name: z.string().min(1, 'Jurisdiction name required'),
+  rate: z.number().min(0).max(0.2, 'Rates are fractions, e.g. 0.029 for 2.9%'),
+  basis: z.enum(['subtotal', 'materials']).default('subtotal')
+});
+
+const locationSchema = z.object({
+  label: z.string().min(1, 'Location label required'),
+  zips: z.array(zipCode),
+  jurisdictions: z.array(jurisdictionSchema).min(1, 'At least one jurisdiction required')
+});
+
+export const taxRateTableSchema = z.object({
+  version: z.string().min(1, 'Table version required'),
+  effectiveFrom: z.string().date('Invalid date format, expected YYYY-MM-DD'),
+  source: z.string().optional(),
+  locations: z.array(locationSchema),
+  fallback: locationSchema
+}).refine(table => {
+  const zips = table.locations.flatMap(location => location.zips);
+  return new Set(zips).size === zips.length;
+}, { message: 'Each ZIP code may only appear in one location', path: ['locations'] });
+
+const colorado: TaxJurisdiction = { level: 'state', name: 'Colorado', rate: 0.029, basis: 'subtotal' };
+const rtd: TaxJurisdiction = { level: 'special', name: 'Regional Transportation District', rate: 0.01, basis: 'subtotal' };
+const scfd: TaxJurisdiction = { level: 'special', name: 'Scientific & Cultural Facilities District', rate: 0.001, basis: 'subtotal' };
+
+/**
+ * Front Range rates bundled with the app. Replace at runtime with
+ * salesTaxEngine.load() when the state publishes new rates.
+ */
+export const defaultTaxRateTable: TaxRateTable = {
+  version: '2024-01',
+  effectiveFrom: '2024-01-01',
+  source: 'Colorado Department of Revenue DR 1002',
+  locations: [
+    {
+      label: 'Denver',
+      zips: ['80202', '80203', '80204', '80205', '80206', '80207', '80209', '80210', '80211', '80218', '80220', '80246'],
+      jurisdictions: [
+        colorado,
+        { level: 'city', name: 'City and County of Denver', rate: 0.0481, basis: 'subtotal' },
+        rtd,
+        scfd
+      ]
+    },
+    {
+      label: 'Boulder',
+      zips: ['80301', '80302', '80303', '80304', '80305'],
+      jurisdictions: [
+        colorado,
+        { level: 'county', name: 'Boulder County', rate: 0.00985, basis: 'subtotal' },
+        // Construction use tax; labor on real property is not taxed
+        { level: 'city', name: 'City of Boulder', rate: 0.0386, basis: 'materials' },
+        rtd,
+        scfd
+      ]
+    },
+    {
+      label: 'Highlands Ranch (unincorporated Douglas County)',
+      zips: ['80126', '80129', '80130'],
+      jurisdictions: [
+        colorado,
+        { level: 'county', name: 'Douglas County', rate: 0.01, basis: 'subtotal' },
+        rtd,
+        scfd
+      ]
+    },
+    {
+      label: 'Lakewood',
+      zips: ['80214', '80215', '80226', '80227', '80228', '80232'],
+      jurisdictions: [
+        colorado,
+        { level: 'county', name: 'Jefferson County', rate: 0.005, basis: 'subtotal' },
+        { level: 'city', name: 'City of Lakewood', rate: 0.03, basis: 'subtotal' },
+        rtd,
+        scfd
+      ]
+    },
+    {
+      label: 'Aurora',
+      zips: ['80010', '80011', '80012', '80013', '80014', '80015', '80016', '80017'],
+      jurisdictions: [
+        colorado,
+        { level: 'county', name: 'Arapahoe County', rate: 0.0025, basis: 'subtotal' },
+        { level: 'city', name: 'City of Aurora', rate: 0.0375, basis: 'subtotal' },
+        rtd,
+        scfd
+      ]
+    }
+  ],
+  // The flat 8.75% previously applied to every estimate
+  fallback: {
+    label: 'Colorado (estimated local rate)',
+    zips: [],
+    jurisdictions: [
+      colorado,
+      { level: 'special', name: 'Estimated local taxes', rate: 0.0585, basis: 'subtotal' }
+    ]
+  }
+};
+
+/**
+ * Validate a rate table loaded from a JSON file or the backend
+ */
+export function validateTaxRateTable(data: unknown): TaxRateTable {
+  const result = taxRateTableSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'table'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid tax rate table: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Five-digit ZIP from a ZIP+4 string or a number that lost its leading zeros
+ */
+function normalizeZip(zip: string | number): string {
+  return typeof zip === 'number' ? String(zip).padStart(5, '0') : String(zip).trim().slice(0, 5);
+}
+
+export class SalesTaxEngine {
+  private table!: TaxRateTable;
+  private locationsByZip = new Map<string, TaxLocation>();
+
+  constructor(table: unknown = defaultTaxRateTable) {
+    this.load(table);
+  }
+
+  /**
+   * Replace the rate table, e.g. after a quarterly rate change
+   */
+  load(data: unknown): TaxRateTable {
+    const table = validateTaxRateTable(data);
+    this.locationsByZip.clear();
+    table.locations.forEach(location => {
+      location.zips.forEach(zip => this.locationsByZip.set(zip, location));
+    });
+    this.table = table;
+    return table;
+  }
+
+  getTable(): TaxRateTable {
+    return this.table;
+  }
+
+  getLocation(zip?: string | number): { location: TaxLocation; fallback: boolean } {
+    const location = zip ? this.locationsByZip.get(normalizeZip(zip)) : undefined;
+    return location
+      ? { location, fallback: false }
+      : { location: this.table.fallback, fallback: true };
+  }
+
+  calculate(input: TaxInput): TaxBreakdown {
+    const { location, fallback } = this.getLocation(input.zip);
+    const base = {
+      zip: input.zip === undefined ? undefined : String(input.zip),
+      location: location.label,
+      fallback,
+      tableVersion: this.table.version
+    };
+
+    if (input.exempt) {
+      return {
+        ...base,
+        exempt: true,
+        exemptionId: input.exemptionId,
+        rate: 0,
+        lines: [],
+        total: 0
+      };
+    }
+
+    const taxableByBasis: Record<TaxBasis, Decimal> = {
+      subtotal: new Decimal(input.labor).plus(input.materials).plus(input.equipment).plus(input.markup || 0),
+      materials: new Decimal(input.materials)
+    };
+
+    // Round each jurisdiction to the cent so the lines add up to the total
+    const lines: TaxLine[] = location.jurisdictions.map(jurisdiction => {
+      const taxable = taxableByBasis[jurisdiction.basis];
+      return {
+        level: jurisdiction.level,
+        name: jurisdiction.name,
+        rate: jurisdiction.rate,
+        basis: jurisdiction.basis,
+        taxable: taxable.toNumber(),
+        amount: taxable.times(jurisdiction.rate).toDecimalPlaces(2, Decimal.ROUND_HALF_UP).toNumber()
+      };
+    });
+
+    return {
+      ...base,
+      exempt: false,
+      rate: lines.reduce((sum, line) => sum.plus(line.rate), new Decimal(0)).toNumber(),
+      lines,
+      total: lines.reduce((sum, line) => sum.plus(line.amount), new Decimal(0)).toNumber()
+    };
+  }
+}
+
+export const salesTaxEngine = new SalesTaxEngine();
@@ -0,0 +1,85 @@
+/**
+ * Service Line Estimators
+ * Unit-priced work for gutters, cabinet refinishing and holiday lighting
+ */
+
+export type CabinetFinish = 'paint' | 'stain' | 'lacquer' | 'glaze';
+
+/**
+ * Labor and material per unit (linear foot, door, drawer front, ...)
+ */
+export interface UnitRate {
+  prepHours: number;
+  hours: number;
+  materials: number; // cost per unit
+}
+
+export interface ServiceLineRates {
+  gutter: {
+    linearFoot: UnitRate;
+    downspout: UnitRate;
+  };
+  cabinet: Record<CabinetFinish, {
+    door: UnitRate;
+    drawerFront: UnitRate;
+  }>;
+  // Per foot of roofline
+  holidayLighting: {
+    install: UnitRate;
+    removal: UnitRate;
+  };
+}
+
+export interface GutterRun {
+  name: string;
+  linearFeet: number;
+  downspouts: number;
+}
+
+export interface CabinetSet {
+  name: string;
+  doors: number;
+  drawerFronts: number;
+  finish: CabinetFinish;
+}
+
+export interface HolidayLightingRun {
+  name: string;
+  rooflineFeet: number;
+  includeRemoval: boolean;
+}
+
+export const defaultServiceLineRates: ServiceLineRates = {
+  gutter: {
+    linearFoot: { prepHours: 0.02, hours: 0.05, materials: 0.35 },
+    downspout: { prepHours: 0.1, hours: 0.3, materials: 2 }
+  },
+  cabinet: {
+    paint: {
+      door: { prepHours: 0.5, hours: 0.75, materials: 6 },
+      drawerFront: { prepHours: 0.25, hours: 0.4, materials: 3 }
+    },
+    stain: {
+      door: { prepHours: 0.6, hours: 0.9, materials: 7 },
+      drawerFront: { prepHours: 0.3, hours: 0.45, materials: 3.5 }
+    },
+    lacquer: {
+      door: { prepHours: 0.5, hours: 1.0, materials: 9 },
+      drawerFront: { prepHours: 0.25, hours: 0.5, materials: 4.5 }
+    },
+    glaze: {
+      door: { prepHours: 0.5, hours: 1.25, materials: 9 },
+      drawerFront: { prepHours: 0.25, hours: 0.6, materials: 4.5 }
+    }
+  },
+  holidayLighting: {
+    install: { prepHours: 0, hours: 0.06, materials: 1.75 }, // lights and clips
+    removal: { prepHours: 0, hours: 0.03, materials: 0 }
+  }
+};
+
+export const cabinetFinishes: CabinetFinish[] = ['paint', 'stain', 'lacquer', 'glaze'];
+
+export function isCabinetFinish(value: unknown): value is CabinetFinish {
+  return typeof value === 'string' && (cabinetFinishes as string[]).includes(value);
+}
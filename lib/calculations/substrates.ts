@@ -0,0 +1,95 @@
+/**
+ * Substrate Catalog
+ * Coverage, porosity, primer and prep characteristics per exterior substrate
+ */
+
+export type SubstrateId =
+  | 'wood-siding'
+  | 'wood'
+  | 'stucco'
+  | 'brick'
+  | 'metal'
+  | 'fiber-cement'
+  | 'vinyl';
+
+export type PrimerRequirement = 'always' | 'condition' | 'never';
+
+export interface SubstrateProfile {
+  id: string;
+  label: string;
+  coverageRate: number; // sq ft per gallon of finish paint
+  porosityFactor: number; // material multiplier for the first coat on bare substrate
+  primerRequirement: PrimerRequirement;
+  prepMultiplier: number; // multiplier on condition-based prep hours
+}
+
+export const substrateCatalog: Record<SubstrateId, SubstrateProfile> = {
+  'wood-siding': {
+    id: 'wood-siding',
+    label: 'Wood Siding',
+    coverageRate: 350,
+    porosityFactor: 1.1,
+    primerRequirement: 'condition',
+    prepMultiplier: 1.0
+  },
+  wood: {
+    id: 'wood',
+    label: 'Wood Trim & Doors',
+    coverageRate: 350,
+    porosityFactor: 1.1,
+    primerRequirement: 'condition',
+    prepMultiplier: 1.2 // detail sanding and scraping
+  },
+  stucco: {
+    id: 'stucco',
+    label: 'Stucco',
+    coverageRate: 200, // rough texture
+    porosityFactor: 1.35,
+    primerRequirement: 'condition',
+    prepMultiplier: 1.25 // crack patching
+  },
+  brick: {
+    id: 'brick',
+    label: 'Brick & Masonry',
+    coverageRate: 225,
+    porosityFactor: 1.3,
+    primerRequirement: 'always', // masonry sealer
+    prepMultiplier: 1.3 // efflorescence removal
+  },
+  metal: {
+    id: 'metal',
+    label: 'Metal',
+    coverageRate: 400,
+    porosityFactor: 1.0,
+    primerRequirement: 'always', // rust-inhibiting primer
+    prepMultiplier: 1.15 // scuff sanding and rust treatment
+  },
+  'fiber-cement': {
+    id: 'fiber-cement',
+    label: 'Fiber Cement',
+    coverageRate: 325,
+    porosityFactor: 1.05,
+    primerRequirement: 'never', // factory primed
+    prepMultiplier: 0.85
+  },
+  vinyl: {
+    id: 'vinyl',
+    label: 'Vinyl Siding',
+    coverageRate: 375,
+    porosityFactor: 1.0,
+    primerRequirement: 'never',
+    prepMultiplier: 0.8
+  }
+};
+
+export function isKnownSubstrate(substrate: string): substrate is SubstrateId {
+  return Object.prototype.hasOwnProperty.call(substrateCatalog, substrate);
+}
+
+/**
+ * Look up a substrate profile. Unrecognised substrates fall back to the
+ * supplied generic profile (rate card coverage, no adjustments).
+ */
+export function getSubstrateProfile(substrate: string, fallback: SubstrateProfile): SubstrateProfile {
+  return isKnownSubstrate(substrate) ? substrateCatalog[substrate] : fallback;
+}
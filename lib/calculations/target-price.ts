@@ -0,0 +1,157 @@
+/**
+ * Target Price Solver
+ * Scope and price alternatives for a customer's budget: tier, coat count,
+ * dropped scope items and a capped discount, ranked by how close they land
+ */
+
+import Decimal from 'decimal.js';
+import type { EstimateScope, TierEstimate } from './painting-calculator';
+import type { TierKey } from './pricing-tiers';
+import { repriceMargin, type MarginAnalysis } from './cost-model';
+
+export type ScopeLine = 'surfaces' | 'rooms' | 'gutters' | 'cabinets' | 'holidayLighting';
+
+/**
+ * A scope item by service line and name, e.g. the "Garage" surface
+ */
+export interface ScopeItemRef {
+  line: ScopeLine;
+  name: string;
+}
+
+export interface PriceLevers {
+  tiers?: TierKey[]; // defaults to every tier
+  coats?: number[]; // coat counts to try on walls and surfaces; tier minimums still apply
+  droppableItems?: ScopeItemRef[];
+  maxDroppedItems?: number; // defaults to 2
+  maxDiscount?: number; // share of price, 0-1; defaults to none
+}
+
+export interface TargetPriceRequest {
+  targetPrice: number;
+  levers?: PriceLevers;
+  tolerance?: number; // share of target counted as on budget; defaults to 5%
+  limit?: number; // options returned; defaults to 5
+}
+
+export interface PriceOption {
+  tier: TierKey;
+  coats?: number; // undefined when coats are as estimated
+  dropped: ScopeItemRef[];
+  listPrice: number; // after business rules, before discount
+  discount: number; // share of list price
+  discountAmount: number;
+  price: number;
+  difference: number; // price less target
+  withinTolerance: boolean;
+  margin: MarginAnalysis;
+  estimate: TierEstimate;
+}
+
+/**
+ * Every combination of up to maxItems items, smallest first
+ */
+export function getDropCombinations(items: ScopeItemRef[], maxItems: number): ScopeItemRef[][] {
+  const combinations: ScopeItemRef[][] = [[]];
+  const extend = (start: number, current: ScopeItemRef[]) => {
+    if (current.length >= maxItems) return;
+    for (let index = start; index < items.length; index++) {
+      const next = [...current, items[index]];
+      combinations.push(next);
+      extend(index + 1, next);
+    }
+  };
+  extend(0, []);
+  return combinations.sort((a, b) => a.length - b.length);
+}
+
+function withoutItems<T extends { name: string }>(items: T[] | undefined, names: string[]): T[] | undefined {
+  return items && names.length > 0 ? items.filter(item => !names.includes(item.name)) : items;
+}
+
+export function dropScopeItems(scope: EstimateScope, dropped: ScopeItemRef[]): EstimateScope {
+  if (dropped.length === 0) {
+    return scope;
+  }
+
+  const names = (line: ScopeLine) => dropped.filter(ref => ref.line === line).map(ref => ref.name);
+  return {
+    ...scope,
+    surfaces: withoutItems(scope.surfaces, names('surfaces')),
+    rooms: withoutItems(scope.rooms, names('rooms')),
+    gutters: withoutItems(scope.gutters, names('gutters')),
+    cabinets: withoutItems(scope.cabinets, names('cabinets')),
+    holidayLighting: withoutItems(scope.holidayLighting, names('holidayLighting'))
+  };
+}
+
+/**
+ * Set the finish coats on every surface and wall; color change overrides
+ * are left alone
+ */
+export function applyCoatsToScope(scope: EstimateScope, coats: number): EstimateScope {
+  return {
+    ...scope,
+    surfaces: scope.surfaces?.map(surface => ({ ...surface, coats })),
+    rooms: scope.rooms?.map(room => ({
+      ...room,
+      walls: Array.isArray(room.walls)
+        ? room.walls.map(wall => ({ ...wall, coats }))
+        : { ...room.walls, coats }
+    }))
+  };
+}
+
+/**
+ * Discount toward the target, capped by the lever, the margin floor and the
+ * business rules' minimum job
+ */
+export function priceOption(
+  option: Pick<PriceOption, 'tier' | 'coats' | 'dropped' | 'estimate'>,
+  targetPrice: number,
+  maxDiscount: number,
+  tolerance: number,
+  minimumPrice: number = 0
+): PriceOption {
+  const { estimate } = option;
+  const listPrice = new Decimal(estimate.total);
+  const floorPrice = new Decimal(estimate.margin.directCost).dividedBy(
+    new Decimal(1).minus(estimate.margin.marginFloor)
+  );
+
+  let price = listPrice;
+  if (listPrice.greaterThan(targetPrice)) {
+    const lowest = Decimal.max(floorPrice, minimumPrice, listPrice.times(new Decimal(1).minus(maxDiscount)))
+      .toDecimalPlaces(2, Decimal.ROUND_UP);
+    price = Decimal.min(listPrice, Decimal.max(targetPrice, lowest));
+  }
+
+  const discountAmount = listPrice.minus(price);
+  const difference = price.minus(targetPrice);
+
+  return {
+    ...option,
+    listPrice: listPrice.toNumber(),
+    discount: listPrice.isZero()
+      ? 0
+      : discountAmount.dividedBy(listPrice).toDecimalPlaces(4, Decimal.ROUND_HALF_UP).toNumber(),
+    discountAmount: discountAmount.toNumber(),
+    price: price.toNumber(),
+    difference: difference.toNumber(),
+    withinTolerance: difference.abs().lessThanOrEqualTo(new Decimal(targetPrice).times(tolerance)),
+    margin: repriceMargin(estimate.margin, price.toNumber())
+  };
+}
+
+/**
+ * Closest to target first; ties favor fewer dropped items, no discount,
+ * then the higher margin
+ */
+export function rankPriceOptions(options: PriceOption[]): PriceOption[] {
+  return [...options].sort((a, b) =>
+    Math.abs(a.difference) - Math.abs(b.difference) ||
+    a.dropped.length - b.dropped.length ||
+    a.discount - b.discount ||
+    b.margin.grossMargin - a.margin.grossMargin
+  );
+}
@@ -0,0 +1,298 @@
+/**
+ * Timeline Engine
+ * Schedules prep, paint, specialty and cabinet phases onto a working calendar with
+ * per-phase crews, exterior dry times and recoat windows
+ */
+
+import type { CalculationResult, LineItem, LineItemKind } from './painting-calculator';
+
+export type TimelinePhase = 'prep' | 'paint' | 'specialty' | 'cabinets';
+
+export interface WorkingCalendar {
+  workDays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: string[]; // YYYY-MM-DD
+  dayStartHour: number;
+  hoursPerDay: number;
+}
+
+/**
+ * Clock hours that must pass before the next step; drying continues
+ * overnight and over weekends
+ */
+export interface DryTimeRules {
+  exteriorPrepHours: number; // power washing and spot priming before paint
+  exteriorRecoatHours: number; // between exterior coats
+  interiorRecoatHours: number;
+}
+
+/**
+ * Labor hours for one phase. Work with coats is split into one segment per
+ * coat separated by the recoat window.
+ */
+export interface PhaseWork {
+  phase: TimelinePhase;
+  hours: number;
+  coats?: number;
+  exterior?: boolean;
+}
+
+export interface ScheduleOptions {
+  startDate?: Date | string; // defaults to today
+  calendar?: Partial<WorkingCalendar>;
+  crews?: Partial<Record<TimelinePhase, number>>;
+  dryTimes?: Partial<DryTimeRules>;
+}
+
+export interface ScheduleDay {
+  date: string;
+  phases: Array<{ phase: TimelinePhase; hours: number; crewSize: number; coat?: number }>;
+  drying: boolean; // working day with no work while coatings cure
+}
+
+export interface PhaseSchedule {
+  phase: TimelinePhase;
+  startDate: string;
+  finishDate: string;
+  hours: number;
+  crewSize: number;
+}
+
+export interface ProjectSchedule {
+  startDate: string;
+  finishDate: string;
+  workingDays: number;
+  calendarDays: number;
+  phases: PhaseSchedule[];
+  days: ScheduleDay[];
+}
+
+export const defaultWorkingCalendar: WorkingCalendar = {
+  workDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  dayStartHour: 8,
+  hoursPerDay: 8
+};
+
+export const defaultDryTimes: DryTimeRules = {
+  exteriorPrepHours: 24,
+  exteriorRecoatHours: 4,
+  interiorRecoatHours: 2
+};
+
+export const defaultCrews: Record<TimelinePhase, number> = {
+  prep: 3,
+  paint: 3,
+  specialty: 2,
+  cabinets: 2
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MINIMUM_BLOCK_HOURS = 0.5;
+const DEFAULT_COATS = 2; // trim, ceilings, doors and cabinets don't record their own
+
+const cabinetKinds: LineItemKind[] = ['cabinets', 'cabinet-set'];
+const exteriorKinds: LineItemKind[] = ['surface', 'gutter-run'];
+
+function toDateKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function parseDate(date: Date | string): number {
+  const key = typeof date === 'string' ? date.slice(0, 10) : toDateKey(date.getTime());
+  return Date.parse(`${key}T00:00:00Z`);
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Split an estimate's line items into phase work. Paint is grouped by coat
+ * count so each group waits out its own recoat windows. Specialty work (RRP
+ * containment and cleanup, lighting installs) and cabinets are their own
+ * phases, and exterior surfaces get dry-time rules.
+ */
+export function getPhaseWork(estimate: CalculationResult): PhaseWork[] {
+  let prep = 0;
+  let exteriorPrep = false;
+  let specialty = 0;
+  let cabinets = 0;
+  const paint = new Map<string, PhaseWork>();
+
+  const visit = (item: LineItem, exterior: boolean) => {
+    if (cabinetKinds.includes(item.kind)) {
+      cabinets += item.hours.total;
+    } else if (item.parts) {
+      item.parts.forEach(part => visit(part, exterior));
+    } else {
+      prep += item.hours.prep;
+      specialty += item.hours.specialty;
+      if (item.hours.painting > 0) {
+        const coats = item.coats ?? DEFAULT_COATS;
+        const key = `${exterior ? 'exterior' : 'interior'}-${coats}`;
+        const segment: PhaseWork = paint.get(key) || { phase: 'paint', hours: 0, coats, exterior };
+        segment.hours += item.hours.painting;
+        paint.set(key, segment);
+        exteriorPrep = exteriorPrep || exterior;
+      }
+    }
+  };
+  estimate.lineItems.forEach(item => visit(item, exteriorKinds.includes(item.kind)));
+
+  // Exterior paint follows prep directly so it waits out the prep dry time
+  const paintWork = Array.from(paint.values()).sort((a, b) =>
+    Number(Boolean(b.exterior)) - Number(Boolean(a.exterior)) || (a.coats || 0) - (b.coats || 0)
+  );
+  const work: PhaseWork[] = [
+    { phase: 'prep', hours: prep, exterior: exteriorPrep },
+    ...paintWork,
+    { phase: 'specialty', hours: specialty },
+    { phase: 'cabinets', hours: cabinets, coats: DEFAULT_COATS }
+  ];
+  return work.filter(segment => segment.hours > 0);
+}
+
+/**
+ * Lay phase work onto the working calendar, in order
+ */
+export function scheduleWork(work: PhaseWork[], options: ScheduleOptions = {}): ProjectSchedule {
+  const calendar = { ...defaultWorkingCalendar, ...options.calendar };
+  const dryTimes = { ...defaultDryTimes, ...options.dryTimes };
+  const crews = { ...defaultCrews, ...options.crews };
+
+  if (calendar.workDays.length === 0 || calendar.hoursPerDay <= 0) {
+    throw new Error('Working calendar needs at least one work day with working hours');
+  }
+  if (calendar.workDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Work days must be whole weekday numbers from 0 (Sunday) to 6 (Saturday)');
+  }
+  if (new Set(calendar.workDays).size !== calendar.workDays.length) {
+    throw new Error('Work days must not repeat');
+  }
+  // Shorter days could never fit a block of work
+  if (calendar.hoursPerDay < MINIMUM_BLOCK_HOURS) {
+    throw new Error(`Working calendar needs at least ${MINIMUM_BLOCK_HOURS} working hours per day`);
+  }
+  if (calendar.dayStartHour < 0 || calendar.dayStartHour + calendar.hoursPerDay > 24) {
+    throw new Error('Working hours must fall within a single day');
+  }
+
+  const holidays = new Set(calendar.holidays);
+  const isWorkingDay = (dayStart: number) =>
+    calendar.workDays.includes(new Date(dayStart).getUTCDay()) && !holidays.has(toDateKey(dayStart));
+
+  // Move the cursor to the next moment the crew can work
+  const nextWorkingMoment = (time: number): number => {
+    let dayStart = Math.floor(time / DAY) * DAY;
+    let moment = time;
+    for (;;) {
+      const windowStart = dayStart + calendar.dayStartHour * HOUR;
+      const windowEnd = windowStart + calendar.hoursPerDay * HOUR;
+      if (isWorkingDay(dayStart) && moment < windowEnd) {
+        return Math.max(moment, windowStart);
+      }
+      dayStart += DAY;
+      moment = dayStart;
+    }
+  };
+
+  const start = nextWorkingMoment(parseDate(options.startDate || new Date()));
+  const days = new Map<string, ScheduleDay>();
+  const phases: PhaseSchedule[] = [];
+  let cursor = start;
+  let previous: PhaseWork | undefined;
+
+  work.forEach(segment => {
+    const crewSize = crews[segment.phase];
+    if (crewSize <= 0) {
+      throw new Error(`Crew size for ${segment.phase} must be positive`);
+    }
+
+    // Exterior paint waits for washed and primed surfaces to dry
+    if (previous?.phase === 'prep' && segment.phase === 'paint' && segment.exterior && previous.exterior) {
+      cursor += dryTimes.exteriorPrepHours * HOUR;
+    }
+
+    const coats = Math.max(1, segment.coats || 1);
+    const recoatHours = segment.exterior ? dryTimes.exteriorRecoatHours : dryTimes.interiorRecoatHours;
+    let phaseStart: number | undefined;
+
+    for (let coat = 1; coat <= coats; coat++) {
+      if (coat > 1) {
+        cursor += recoatHours * HOUR;
+      }
+
+      let remaining = segment.hours / coats;
+      while (remaining > 1e-9) {
+        cursor = nextWorkingMoment(cursor);
+
+        const dayStart = Math.floor(cursor / DAY) * DAY;
+        const windowEnd = dayStart + (calendar.dayStartHour + calendar.hoursPerDay) * HOUR;
+
+        // Don't start a coat in the last minutes of the day
+        if ((windowEnd - cursor) / HOUR < Math.min(remaining / crewSize, MINIMUM_BLOCK_HOURS)) {
+          cursor = windowEnd;
+          continue;
+        }
+        phaseStart = phaseStart ?? cursor;
+
+        const clockHours = Math.min(remaining / crewSize, (windowEnd - cursor) / HOUR);
+        const laborHours = clockHours * crewSize;
+
+        const date = toDateKey(dayStart);
+        const day = days.get(date) || { date, phases: [], drying: false };
+        day.phases.push({
+          phase: segment.phase,
+          hours: roundHours(laborHours),
+          crewSize,
+          ...(coats > 1 ? { coat } : {})
+        });
+        days.set(date, day);
+
+        remaining -= laborHours;
+        cursor += clockHours * HOUR;
+      }
+    }
+
+    const finishDate = toDateKey(Math.floor((cursor - 1) / DAY) * DAY);
+    const existing = phases.find(entry => entry.phase === segment.phase);
+    if (existing) {
+      existing.hours = roundHours(existing.hours + segment.hours);
+      existing.finishDate = finishDate;
+    } else {
+      phases.push({
+        phase: segment.phase,
+        startDate: toDateKey(phaseStart ?? cursor),
+        finishDate,
+        hours: roundHours(segment.hours),
+        crewSize
+      });
+    }
+    previous = segment;
+  });
+
+  const startDate = toDateKey(start);
+  const finishDate = days.size > 0 ? toDateKey(Math.floor((cursor - 1) / DAY) * DAY) : startDate;
+
+  // Working days between start and finish with no work are drying days
+  const plan: ScheduleDay[] = [];
+  for (let day = parseDate(startDate); day <= parseDate(finishDate); day += DAY) {
+    const date = toDateKey(day);
+    const scheduled = days.get(date);
+    if (scheduled) {
+      plan.push(scheduled);
+    } else if (isWorkingDay(day) && days.size > 0) {
+      plan.push({ date, phases: [], drying: true });
+    }
+  }
+
+  return {
+    startDate,
+    finishDate,
+    workingDays: plan.length,
+    calendarDays: Math.round((parseDate(finishDate) - parseDate(startDate)) / DAY) + 1,
+    phases,
+    days: plan
+  };
+}
@@ -0,0 +1,167 @@
+import { DependencyGraph, parseCellId } from '../dependency-graph';
+import { workbook } from './workbook';
+
+function load(sheets: Record<string, Record<string, any>>, names: Record<string, string> = {}) {
+  const context = workbook(sheets, names, { maxIterations: 0 });
+  const graph = new DependencyGraph();
+  graph.build(context);
+  graph.recalculate(context);
+  const value = (id: string) => {
+    const { sheet, address } = parseCellId(id);
+    return context.sheets.get(sheet)!.cells.get(address)!.value;
+  };
+  return { context, graph, value };
+}
+
+describe('parseCellId', () => {
+  it('splits on the last "!"', () => {
+    expect(parseCellId('Q1!Costs!B4')).toEqual({ sheet: 'Q1!Costs', address: 'B4' });
+    expect(() => parseCellId('B4')).toThrow(/not sheet-qualified/);
+  });
+});
+
+describe('DependencyGraph', () => {
+  const sheets = {
+    Job: {
+      A1: 100, // sqft
+      A2: 2, // coats
+      B1: '=A1*A2',
+      B2: '=B1/350',
+      C1: 5, // unrelated input
+      C2: '=C1*10',
+      D1: '=SUM(A1:A2)',
+      D2: '=SUM(A:A)',
+      E1: '=Rates!B1*B1'
+    },
+    Rates: { B1: 0.5, B2: '=SUM(Job!C1:C2)' }
+  };
+
+  it('computes every formula on the first recalculation', () => {
+    const { value } = load(sheets);
+    expect(value('Job!B1')).toBe(200);
+    expect(value('Job!D2')).toBe(102);
+    expect(value('Job!E1')).toBe(100);
+    expect(value('Rates!B2')).toBe(55);
+  });
+
+  it('recomputes only the cells downstream of a change, in order', () => {
+    const { context, graph, value } = load(sheets);
+    const result = graph.setValues(context, { 'Job!A2': 3 });
+
+    expect(result.recalculated).toEqual(
+      expect.arrayContaining(['Job!B1', 'Job!B2', 'Job!D1', 'Job!D2', 'Job!E1'])
+    );
+    expect(result.recalculated).not.toContain('Job!C2');
+    expect(result.recalculated).not.toContain('Rates!B2');
+    expect(result.recalculated.indexOf('Job!B1')).toBeLessThan(result.recalculated.indexOf('Job!B2'));
+    expect(result.recalculated.indexOf('Job!B1')).toBeLessThan(result.recalculated.indexOf('Job!E1'));
+    expect(value('Job!E1')).toBe(150);
+  });
+
+  it('finds dependents through ranges on other sheets', () => {
+    const { context, graph, value } = load(sheets);
+    expect(graph.getDependents('Job!C1').sort()).toEqual(['Job!C2', 'Rates!B2']);
+    expect(graph.getDependents('Job!A900')).toEqual(['Job!D2']);
+    expect(graph.getDependents('Job!B900')).toEqual([]);
+
+    expect(graph.setValues(context, { 'Job!C1': 6 }).recalculated).toEqual(['Job!C2', 'Rates!B2']);
+    expect(value('Rates!B2')).toBe(66);
+  });
+
+  it('rewires edges when a formula changes', () => {
+    const { context, graph } = load(sheets);
+    graph.setFormula('Job!D1', '=C1', context);
+
+    expect(graph.getDependents('Job!A1')).not.toContain('Job!D1');
+    expect(graph.getDependents('Job!C1')).toContain('Job!D1');
+    graph.setFormula('Job!D2', undefined, context);
+    expect(graph.getDependents('Job!A900')).toEqual([]);
+  });
+
+  it('tracks names, including names defined after the formula sheet', () => {
+    const { context, graph, value } = load(
+      { Job: { A1: 10, B1: '=area*2', B2: '=Local+1' }, Rates: { A1: 4 } },
+      { AREA: 'Job!A1', 'Job!local': 'Rates!A1' }
+    );
+    expect(value('Job!B1')).toBe(20);
+    expect(value('Job!B2')).toBe(5);
+    expect(graph.setValues(context, { 'Rates!A1': 9 }).recalculated).toEqual(['Job!B2']);
+  });
+
+  it('refuses to overwrite formulas with values', () => {
+    const { context, graph } = load(sheets);
+    expect(() => graph.setValues(context, { 'Job!B1': 1 })).toThrow(/holds a formula/);
+    expect(() => graph.setValues(context, { 'Nope!A1': 1 })).toThrow(/Sheet Nope not found/);
+  });
+
+  it('reports circular references with their path and leaves them when iteration is off', () => {
+    const { graph, context } = load({ Job: { A1: '=C1+1', B1: '=A1', C1: '=B1', D1: '=D1' } });
+
+    const cycles = graph.findCycles();
+    const loop = cycles.find(cycle => cycle.cells.length === 3)!;
+
+    expect(cycles.map(cycle => cycle.cells)).toEqual(
+      expect.arrayContaining([['Job!A1', 'Job!B1', 'Job!C1'], ['Job!D1']])
+    );
+    expect(loop.path).toHaveLength(4);
+    expect(loop.path[0]).toBe(loop.path[3]);
+    expect(graph.getNode('Job!A1')?.error).toBe(`Circular reference: ${loop.path.join(' -> ')}`);
+    expect(context.sheets.get('Job')!.cells.get('A1')!.value).toBe(0);
+  });
+});
+
+describe('iterative calculation', () => {
+  function iterate(cells: Record<string, any>, options: { maxIterations?: number; epsilon?: number } = {}) {
+    const context = workbook({ Job: cells }, {}, { maxIterations: 100, epsilon: 0.001, ...options });
+    const graph = new DependencyGraph();
+    graph.build(context);
+    const result = graph.recalculate(context);
+    const value = (address: string) => context.sheets.get('Job')!.cells.get(address)!.value;
+    return { context, graph, result, value };
+  }
+
+  it('converges a price that includes its own commission', () => {
+    // Price = cost + 10% commission on the price
+    const { result, value } = iterate({ A1: 9000, B1: '=A1+C1', C1: '=B1*0.1' });
+
+    expect(result.cycles).toHaveLength(1);
+    expect(result.iterations[0]).toMatchObject({ converged: true, unconverged: [] });
+    expect(result.iterations[0].iterations).toBeLessThan(100);
+    expect(value('B1')).toBeCloseTo(10000, 2);
+    expect(result.unconverged).toEqual([]);
+  });
+
+  it('stops at maxIterations and reports cells that are still moving', () => {
+    const { graph, result, value } = iterate({ A1: '=B1+1', B1: '=A1' }, { maxIterations: 10 });
+
+    expect(result.iterations[0]).toMatchObject({ iterations: 10, converged: false });
+    expect(result.unconverged.sort()).toEqual(['Job!A1', 'Job!B1']);
+    expect(value('A1')).toBe(10);
+    expect(graph.getNode('Job!A1')?.error).toMatch(/Did not converge within 0.001 after 10 iterations/);
+  });
+
+  it('treats changes within epsilon as converged', () => {
+    // Halves the gap to 2 each pass
+    const loose = iterate({ A1: '=1+B1/2', B1: '=A1' }, { epsilon: 0.1 });
+    const tight = iterate({ A1: '=1+B1/2', B1: '=A1' }, { epsilon: 0.000001 });
+
+    expect(loose.result.iterations[0].converged).toBe(true);
+    expect(tight.result.iterations[0].converged).toBe(true);
+    expect(loose.result.iterations[0].iterations).toBeLessThan(tight.result.iterations[0].iterations);
+    expect(tight.value('A1')).toBeCloseTo(2, 5);
+  });
+
+  it('iterates again from the current values after an input changes', () => {
+    const { context, graph, value } = iterate({ A1: 9000, B1: '=A1+C1', C1: '=B1*0.1' });
+    const result = graph.setValues(context, { 'Job!A1': 18000 });
+
+    expect(result.iterations[0].converged).toBe(true);
+    expect(value('B1')).toBeCloseTo(20000, 2);
+  });
+
+  it('computes cells downstream of a cycle after it', () => {
+    const { result, value } = iterate({ A1: 9000, B1: '=A1+C1', C1: '=B1*0.1', D1: '=ROUND(B1,0)' });
+    expect(result.recalculated[result.recalculated.length - 1]).toBe('Job!D1');
+    expect(value('D1')).toBe(10000);
+  });
+});
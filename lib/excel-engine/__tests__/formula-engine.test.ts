@@ -0,0 +1,126 @@
+import '@/lib/calculations/painting-calculator'; // sets Decimal's global precision to 10
+import { formulaEngine } from '../formula-engine';
+import { FormulaError } from '../excel-functions';
+import { workbook } from './workbook';
+
+const context = workbook(
+  {
+    Job: { A1: 10, A2: 20, A3: 'x', A4: true, B1: 0.1, B2: 0.2, C1: '=A1*2' },
+    Rates: { A1: 'paint', B1: 65, A2: 'prep', B2: 55 }
+  },
+  { Rate: 'Rates!B1', 'Job!Local': 'Job!A2', Table: 'Rates!A1:B2' }
+);
+const evaluate = (formula: string) => formulaEngine.evaluate(formula, context);
+
+describe('arithmetic', () => {
+  it('uses decimal arithmetic unaffected by the global Decimal settings', () => {
+    expect(evaluate('=B1+B2')).toBe(0.3);
+    expect(evaluate('=1/3*3')).toBe(1);
+    expect(evaluate('=2/3')).toBe(0.666666666666667);
+  });
+
+  it('applies Excel operator rules', () => {
+    expect(evaluate('=-2^2')).toBe(4);
+    expect(evaluate('=50%*A1')).toBe(5);
+    expect(evaluate('=A1&"-"&A4')).toBe('10-TRUE');
+    expect(evaluate('="10"+1')).toBe(11);
+  });
+
+  it('returns errors as values and propagates them', () => {
+    expect(evaluate('=A1/0')).toEqual(new FormulaError('#DIV/0!'));
+    expect(evaluate('=A3*2')).toEqual(new FormulaError('#VALUE!'));
+    expect(evaluate('=NOPE(1)')).toEqual(new FormulaError('#NAME?'));
+    expect(evaluate('=IFERROR(A1/0,-1)')).toBe(-1);
+  });
+
+  it('compares text case-insensitively', () => {
+    expect(evaluate('="Paint"=Rates!A1')).toBe(true);
+    expect(evaluate('="a"<"B"')).toBe(true);
+  });
+});
+
+describe('references and names', () => {
+  it('reads cells, ranges and other sheets', () => {
+    expect(evaluate('=SUM(A1:A4)+Rates!B2')).toBe(85);
+    expect(evaluate('=SUM(A:A)')).toBe(30);
+    expect(evaluate('=Missing!A1')).toEqual(new FormulaError('#REF!'));
+  });
+
+  it('resolves workbook and sheet-scoped names, case-insensitively', () => {
+    expect(evaluate('=rate*2')).toBe(130);
+    expect(evaluate('=Local')).toBe(20);
+    expect(evaluate('=VLOOKUP("prep",Table,2,FALSE)')).toBe(55);
+    expect(formulaEngine.evaluate('=Local', { ...context, currentSheet: 'Rates' })).toEqual(new FormulaError('#NAME?'));
+  });
+
+  it('broadcasts operators over ranges', () => {
+    expect(evaluate('=SUMPRODUCT((A1:A2>15)*A1:A2)')).toBe(20);
+  });
+});
+
+describe('excelFunctions', () => {
+  it.each([
+    ['=ROUND(2.5,0)', 3],
+    ['=ROUND(-2.5,0)', -3],
+    ['=ROUNDUP(1.21,1)', 1.3],
+    ['=ROUNDDOWN(-1.29,1)', -1.2],
+    ['=ROUND(1234.5,-2)', 1200],
+    ['=CEILING(7.2,0.5)', 7.5],
+    ['=MOD(-3,2)', 1],
+    ['=INT(-1.5)', -2],
+    ['=ROUND(PMT(0.05/12,60,-20000),2)', 377.42],
+    ['=SUMIF(A1:A2,">15")', 20],
+    ['=COUNTIFS(A1:A4,">5",A1:A4,"<15")', 1],
+    ['=AVERAGE(A1:A4)', 15],
+    ['=COUNTA(A1:A4)', 4],
+    ['=IF(A1>5,"big","small")', 'big'],
+    ['=IFS(A1>50,"a",A1>5,"b")', 'b'],
+    ['=INDEX(Rates!A1:B2,2,2)', 55],
+    ['=MATCH("prep",Rates!A1:A2,0)', 2],
+    ['=TEXTJOIN(", ",TRUE,"a","","b")', 'a, b'],
+    ['=TEXT(1234.5,"$#,##0.00")', '$1,234.50'],
+    ['=PROPER("west wall")', 'West Wall'],
+    ['=DAYS(DATE(2024,3,1),DATE(2024,2,1))', 29],
+    ['=NETWORKDAYS(DATE(2024,6,3),DATE(2024,6,14))', 10]
+  ])('%s is %p', (formula, expected) => {
+    expect(evaluate(formula)).toEqual(expected);
+  });
+
+  it('returns Excel errors for bad arguments', () => {
+    expect(evaluate('=SQRT(-1)')).toEqual(new FormulaError('#NUM!'));
+    expect(evaluate('=VLOOKUP("trim",Table,2,FALSE)')).toEqual(new FormulaError('#N/A'));
+    expect(evaluate('=CHOOSE(3,"a","b")')).toEqual(new FormulaError('#VALUE!'));
+  });
+
+  it('returns errors held in cells inside range arguments', () => {
+    const cells = workbook({ Job: { A1: '=1/0', A2: 'b' } });
+    formulaEngine.evaluateCell('Job', 'A1', cells);
+    const divide = new FormulaError('#DIV/0!');
+
+    ['=UPPER(A1:A2)', '=LEN(A1:A2)', '=CONCAT(A1:A2)', '=TEXTJOIN(",",TRUE,A1:A2)', '=LEFT("abc",A1:A2)', '=INDEX(A2:A2,A1:A2)', '=EDATE(0,A1:A2)']
+      .forEach(formula => expect(formulaEngine.evaluate(formula, cells)).toEqual(divide));
+  });
+
+  it.each([
+    '=LEFT("abc","x")',
+    '=RIGHT("abc",-1)',
+    '=MID("abc","x",1)',
+    '=REPT("a","x")',
+    '=FIND("b","abc","x")',
+    '=SUBSTITUTE("aa","a","b","x")',
+    '=VLOOKUP("prep",Table,"x",FALSE)',
+    '=INDEX(Table,"x",1)',
+    '=MATCH("prep",Rates!A1:A2,"x")',
+    '=EOMONTH(0,"x")'
+  ])('%s is #VALUE! for a non-numeric or negative count or index', formula => {
+    expect(evaluate(formula)).toEqual(new FormulaError('#VALUE!'));
+  });
+});
+
+describe('evaluateCell', () => {
+  it('stores the value, or the error code', () => {
+    const cells = workbook({ Job: { A1: 4, B1: '=A1*2', C1: '=A1/0' } });
+    expect(formulaEngine.evaluateCell('Job', 'B1', cells).value).toBe(8);
+    expect(formulaEngine.evaluateCell('Job', 'C1', cells)).toMatchObject({ value: '#DIV/0!', error: '#DIV/0!' });
+  });
+});
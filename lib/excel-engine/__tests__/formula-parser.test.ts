@@ -0,0 +1,126 @@
+import { formulaParser, parseCellReference } from '../formula-parser';
+import type { FormulaNode } from '../types';
+
+// Compact rendering of an AST so precedence reads at a glance
+function show(node: FormulaNode): string {
+  switch (node.type) {
+    case 'number':
+    case 'boolean':
+    case 'error':
+      return String(node.value);
+    case 'string':
+      return JSON.stringify(node.value);
+    case 'cell':
+      return `${node.reference.sheet ? `${node.reference.sheet}!` : ''}${node.reference.column}${node.reference.row}`;
+    case 'range':
+      return `${show({ type: 'cell', reference: node.start })}:${node.end.column}${node.end.row}`;
+    case 'name':
+      return node.sheet ? `${node.sheet}!${node.name}` : node.name;
+    case 'function':
+      return `${node.name}(${node.args.map(show).join(', ')})`;
+    case 'unary':
+      return `(${node.operator}${show(node.operand)})`;
+    case 'percent':
+      return `(${show(node.operand)}%)`;
+    case 'binary':
+      return `(${show(node.left)} ${node.operator} ${show(node.right)})`;
+    case 'array':
+      return `{${node.rows.map(row => row.map(show).join(',')).join(';')}}`;
+    case 'missing':
+      return '_';
+  }
+}
+
+const parse = (formula: string) => show(formulaParser.parseFormula(formula));
+
+describe('operator precedence', () => {
+  it.each([
+    ['=1+2*3', '(1 + (2 * 3))'],
+    ['=(1+2)*3', '((1 + 2) * 3)'],
+    ['=2^3^2', '((2 ^ 3) ^ 2)'],
+    ['=-2^2', '((-2) ^ 2)'],
+    ['=10-4-3', '((10 - 4) - 3)'],
+    ['=50%*A1', '((50%) * A1)'],
+    ['=-A1%', '((-A1)%)'],
+    ['="a"&1+2', '("a" & (1 + 2))'],
+    ['=A1+1>=B1&"x"', '((A1 + 1) >= (B1 & "x"))'],
+    ['=1<>2=FALSE', '((1 <> 2) = false)']
+  ])('parses %s as %s', (formula, expected) => {
+    expect(parse(formula)).toBe(expected);
+  });
+});
+
+describe('references', () => {
+  it('parses cells, ranges and whole columns and rows', () => {
+    expect(parse('=SUM($A$1:b2,C:C,3:4)')).toBe('SUM(A1:B2, C1:C1048576, A3:XFD4)');
+  });
+
+  it('reads quoted sheet names with escaped quotes', () => {
+    expect(parse("='Bob''s Job'!B4+Rates!A1")).toBe("(Bob's Job!B4 + Rates!A1)");
+  });
+
+  it('treats out-of-grid addresses as names', () => {
+    expect(parse('=XFE1+TaxRate')).toBe('(XFE1 + TaxRate)');
+  });
+
+  it('keeps absolute markers', () => {
+    expect(parseCellReference('Sheet1!$B3')).toEqual({
+      sheet: 'Sheet1',
+      column: 'B',
+      row: 3,
+      absolute: { column: true, row: false }
+    });
+    expect(() => parseCellReference('A0')).toThrow(/Invalid cell reference/);
+  });
+
+  it('keeps sheet #REF! as an error literal', () => {
+    expect(parse('=Deleted!#REF!+1')).toBe('(#REF! + 1)');
+  });
+});
+
+describe('functions and constants', () => {
+  it('parses missing arguments, nested calls and prefixed names', () => {
+    expect(parse('=IF(A1,,ROUND(B1, 2))')).toBe('IF(A1, _, ROUND(B1, 2))');
+    expect(parse('=_xlfn.IFS(A1>0,1)')).toBe('IFS((A1 > 0), 1)');
+    expect(parse('=NOW()')).toBe('NOW()');
+  });
+
+  it('parses array constants by rows', () => {
+    expect(parse('={1,-2;"a",TRUE}')).toBe('{1,-2;"a",true}');
+  });
+
+  it('parses strings with doubled quotes and scientific numbers', () => {
+    expect(parse('="say ""hi"""&1.5E+3')).toBe('("say \\"hi\\"" & 1500)');
+  });
+});
+
+describe('syntax errors', () => {
+  it.each([
+    ['=1+', /Unexpected end of formula/],
+    ['=(1+2', /Expected "\)"/],
+    ['=SUM(1 2)', /Expected "," or "\)" in SUM/],
+    ['="open', /Unterminated string/],
+    ['={1,2;3}', /same number of columns/],
+    ['={A1}', /Array constants may only contain values/],
+    ['=1 2', /Unexpected "2"/]
+  ])('rejects %s', (formula, message) => {
+    expect(() => formulaParser.parseFormula(formula)).toThrow(message);
+  });
+});
+
+describe('FormulaParser.parse', () => {
+  it('types constants', () => {
+    expect(formulaParser.parse('42').value).toBe(42);
+    expect(formulaParser.parse('true').value).toBe(true);
+    expect(formulaParser.parse('1 Main St').value).toBe('1 Main St');
+  });
+
+  it('lists sheet-qualified dependencies once, in order', () => {
+    expect(formulaParser.parse('=A1+SUM(A1:B2)+Rates!C1+TaxRate', { sheet: 'Job' }).dependencies)
+      .toEqual(['Job!A1', 'Job!A1:B2', 'Rates!C1', 'TaxRate']);
+  });
+
+  it('returns syntax errors instead of throwing', () => {
+    expect(formulaParser.parse('=1+')).toMatchObject({ type: 'error', formula: '=1+' });
+  });
+});
@@ -0,0 +1,109 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { SheetManager } from '../sheet-manager';
+import { analyzeWorkbook, importWorkbook } from '../workbook-importer';
+
+// exceljs cannot write sheet-scoped names, so they are patched into the
+// workbook part after writing
+const definedNames = `<definedNames>
+  <definedName name="Area">Job!$A$1</definedName>
+  <definedName name="Rate" localSheetId="0">Job!$A$2</definedName>
+  <definedName name="Rate" localSheetId="1">'Bob''s Rates'!$B$1</definedName>
+  <definedName name="Table">'Bob''s Rates'!$A:$B</definedName>
+  <definedName name="Gone">Job!#REF!</definedName>
+  <definedName name="TaxRate">0.07</definedName>
+  <definedName name="Walls">Job!$A$1:$A$2,Job!$C$1:$C$2</definedName>
+  <definedName name="_xlnm.Print_Area" localSheetId="0">Job!$A$1:$B$4</definedName>
+</definedNames>`;
+
+async function buildWorkbook(): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const job = workbook.addWorksheet('Job');
+  job.getCell('A1').value = 100;
+  job.getCell('A2').value = 2;
+  job.getCell('A3').value = new Date(Date.UTC(2024, 5, 3));
+  job.getCell('B1').value = { formula: 'A1*A2', result: 200 };
+  job.getCell('B2').value = { formula: 'IF(AND(A1>0,A2>0),ROUND(SUM(A1:A2)/3,2),0)', result: 34 };
+  job.getCell('B3').value = { formula: 'Area*Rate', result: 200 };
+  job.getCell('B4').value = { formula: 'SUM(A1', result: 0 };
+  job.getCell('C1').value = { richText: [{ text: 'West ' }, { text: 'wall' }] };
+  job.getCell('C2').numFmt = '$#,##0.00';
+  job.getCell('C2').value = 12.5;
+
+  const rates = workbook.addWorksheet("Bob's Rates");
+  rates.getCell('A1').value = 'paint';
+  rates.getCell('B1').value = 65;
+  rates.getCell('C1').value = { formula: 'Rate*2', result: 130 };
+
+  const zip = await JSZip.loadAsync(await workbook.xlsx.writeBuffer());
+  const xml = (await zip.file('xl/workbook.xml')!.async('string'))
+    .replace(/<definedNames>[\s\S]*<\/definedNames>|<definedNames\/>/, '')
+    .replace('</sheets>', `</sheets>${definedNames}`);
+  zip.file('xl/workbook.xml', xml);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('importWorkbook', () => {
+  let data: Buffer;
+
+  beforeAll(async () => {
+    data = await buildWorkbook();
+  });
+
+  it('reads values, cached formula results and number formats', async () => {
+    const workbook = await importWorkbook(new Uint8Array(data).buffer, 'job.xlsx');
+    const job = workbook.sheets.get('Job')!;
+
+    expect(job.cells.get('A3')!.value).toBe(45446); // Excel serial for 2024-06-03
+    expect(job.cells.get('B1')).toEqual({ value: 200, formula: '=A1*A2' });
+    expect(job.cells.get('C1')!.value).toBe('West wall');
+    expect(job.cells.get('C2')).toEqual({ value: 12.5, numberFormat: '$#,##0.00' });
+    expect([job.lastRow, job.lastColumn]).toEqual([4, 3]);
+  });
+
+  it('keeps sheet-scoped names apart from each other', async () => {
+    const workbook = await importWorkbook(data);
+
+    expect(workbook.namedRanges['Job!Rate']).toMatchObject({ name: 'Rate', scope: 'Job' });
+    expect(workbook.namedRanges["Bob's Rates!Rate"].destinations).toEqual([{ sheet: "Bob's Rates", range: '$B$1' }]);
+    expect(workbook.namedRanges._xlnm).toBeUndefined();
+    expect(Array.from(workbook.names.keys()).sort()).toEqual(['Area', "Bob's Rates!Rate", 'Job!Rate', 'Table']);
+  });
+
+  it('reports names and formulas it cannot read instead of failing', async () => {
+    const workbook = await importWorkbook(data);
+
+    expect(workbook.parseErrors.map(error => [error.sheet, error.cell])).toEqual(expect.arrayContaining([
+      ['Job', 'Gone'],
+      ['', 'TaxRate'],
+      ['Job', 'Walls'],
+      ['Job', 'B4']
+    ]));
+    expect(workbook.parseErrors.find(error => error.cell === 'Walls')!.error).toMatch(/covers 2 areas/);
+    expect(workbook.namedRanges.Walls.destinations).toHaveLength(2);
+    expect(workbook.parseErrors).toHaveLength(4);
+  });
+
+  it('analyzes formulas by category and complexity from the import', async () => {
+    const analysis = analyzeWorkbook(await importWorkbook(data, 'job.xlsx'));
+
+    expect(analysis.metadata).toMatchObject({ excel_file: 'job.xlsx', total_formulas: 5, sheet_count: 2 });
+    expect(analysis.metadata.category_summary).toMatchObject({ Math: 1, Arithmetic: 3, Other: 1 });
+    expect(analysis.complex_formulas.map(formula => formula.cell)).toEqual(['B2']);
+    expect(analysis.dependencies['Job!B2']).toEqual(['Job!A1', 'Job!A2', 'Job!A1:A2']);
+  });
+});
+
+describe('SheetManager', () => {
+  it('evaluates scoped names from the sheet the formula is on', async () => {
+    const manager = new SheetManager();
+    await manager.load(await buildWorkbook(), { recalculate: true });
+
+    expect(manager.getValue('Job!B3')).toBe(200);
+    expect(manager.getValue("Bob's Rates!C1")).toBe(130);
+
+    const result = manager.setValues({ "Bob's Rates!B1": 70 });
+    expect(result.recalculated).toEqual(["Bob's Rates!C1"]);
+    expect(manager.getValue("Bob's Rates!C1")).toBe(140);
+  });
+});
@@ -0,0 +1,33 @@
+import { createEvaluationContext } from '../formula-engine';
+import { columnToIndex, parseCellReference } from '../formula-parser';
+import type { CalculationOptions, CellValue, EvaluationContext, Sheet } from '../types';
+
+/**
+ * Context from { sheet: { address: value } } maps; strings starting with
+ * "=" are formulas. Names map to a cell or a range, e.g. "Rates!A1:B2".
+ */
+export function workbook(
+  sheets: Record<string, Record<string, any>>,
+  names: Record<string, string> = {},
+  options: CalculationOptions = {}
+): EvaluationContext {
+  const result = new Map<string, Sheet>();
+  Object.entries(sheets).forEach(([name, cells]) => {
+    const sheet: Sheet = { name, cells: new Map<string, CellValue>(), lastRow: 0, lastColumn: 0 };
+    Object.entries(cells).forEach(([address, value]) => {
+      const { column, row } = parseCellReference(address);
+      const formula = typeof value === 'string' && value.startsWith('=');
+      sheet.cells.set(address, formula ? { value: 0, formula: value } : { value });
+      sheet.lastRow = Math.max(sheet.lastRow, row);
+      sheet.lastColumn = Math.max(sheet.lastColumn, columnToIndex(column));
+    });
+    result.set(name, sheet);
+  });
+
+  const namedRanges = new Map(Object.entries(names).map(([name, target]) => {
+    const [start, end] = target.split(':');
+    const first = parseCellReference(start);
+    return [name, end ? [first, { ...parseCellReference(end), sheet: first.sheet }] : first];
+  }));
+  return createEvaluationContext(result, Object.keys(sheets)[0], namedRanges, options);
+}
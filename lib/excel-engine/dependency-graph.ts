@@ -0,0 +1,528 @@
+/**
+ * Dependency Graph
+ * Tracks which formula cells read which cells and ranges so a change
+ * recomputes only the cells downstream of it, in topological order, and
+ * reports circular references with their full cell path
+ */
+
+import { formulaEngine, resolveNamedRange, type FormulaEngine } from './formula-engine';
+import { columnToIndex, formatCellAddress, formulaParser, getDependencies, parseCellReference } from './formula-parser';
+import type { CellReference, DependencyNode, EvaluationContext, Sheet } from './types';
+
+export interface CircularReference {
+  cells: string[];
+  path: string[]; // first cell repeated at the end, e.g. [A1, B1, A1]
+}
+
+export interface IterationResult {
+  cells: string[];
+  iterations: number;
+  converged: boolean;
+  unconverged: string[]; // cells still moving by more than epsilon
+}
+
+export interface RecalculationResult {
+  recalculated: string[]; // formula cells, in the order they were computed
+  cycles: CircularReference[];
+  iterations: IterationResult[]; // one per circular reference iterated
+  unconverged: string[];
+}
+
+interface RangeDependency {
+  sheet: string;
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  dependents: Set<string>;
+}
+
+// Ranges are indexed per sheet by blocks of rows or of columns, whichever
+// the range spans fewer of, so whole columns and rows stay cheap to index
+interface RangeIndex {
+  rows: Map<number, Set<RangeDependency>>;
+  columns: Map<number, Set<RangeDependency>>;
+}
+
+const BUCKET_SIZE = 64;
+
+function toBucket(position: number): number {
+  return Math.floor((position - 1) / BUCKET_SIZE);
+}
+
+function getRangeBuckets(range: RangeDependency): { axis: keyof RangeIndex; buckets: number[] } {
+  const rows = toBucket(range.bottom) - toBucket(range.top) + 1;
+  const columns = toBucket(range.right) - toBucket(range.left) + 1;
+  const [axis, first, count]: [keyof RangeIndex, number, number] = rows <= columns
+    ? ['rows', toBucket(range.top), rows]
+    : ['columns', toBucket(range.left), columns];
+  return { axis, buckets: Array.from({ length: count }, (_bucket, index) => first + index) };
+}
+
+export function toCellId(sheet: string, address: string): string {
+  return `${sheet}!${address}`;
+}
+
+/**
+ * Split sheet!cell; sheet names may themselves contain "!"
+ */
+export function parseCellId(id: string): { sheet: string; address: string } {
+  const separator = id.lastIndexOf('!');
+  if (separator < 0) {
+    throw new Error(`Cell id ${id} is not sheet-qualified`);
+  }
+  return { sheet: id.slice(0, separator), address: id.slice(separator + 1) };
+}
+
+function toRangeId(sheet: string, start: CellReference, end: CellReference): string {
+  return `${sheet}!${formatCellAddress(start)}:${formatCellAddress(end)}`;
+}
+
+export class DependencyGraph {
+  private nodes = new Map<string, DependencyNode>();
+  private ranges = new Map<string, RangeDependency>();
+  private rangeIndex = new Map<string, RangeIndex>();
+
+  constructor(private readonly engine: FormulaEngine = formulaEngine) {}
+
+  /**
+   * Build the graph for every formula in the workbook. Formula cells start
+   * dirty so the first recalculate computes the whole workbook, unless the
+   * cells already hold current values (e.g. cached values from Excel).
+   */
+  build(context: EvaluationContext, dirty = true): void {
+    this.nodes.clear();
+    this.ranges.clear();
+    this.rangeIndex.clear();
+    context.sheets.forEach((sheet, sheetName) => {
+      sheet.cells.forEach((cell, address) => {
+        if (cell.formula) {
+          this.setFormula(toCellId(sheetName, address), cell.formula, context);
+        }
+      });
+    });
+    if (!dirty) {
+      this.nodes.forEach(node => {
+        node.dirty = false;
+      });
+    }
+  }
+
+  getNode(id: string): DependencyNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Add, replace or (with no formula) remove the formula for a cell and
+   * rewire its edges; the cell is marked dirty
+   */
+  setFormula(id: string, formula: string | undefined, context: EvaluationContext): void {
+    const node = this.getOrCreateNode(id);
+    this.unlink(node);
+    node.formula = formula;
+    node.dirty = true;
+
+    if (!formula) {
+      return;
+    }
+
+    const { sheet } = parseCellId(id);
+    const parsed = formulaParser.parse(formula, { sheet });
+    if (parsed.type !== 'formula' || !parsed.ast) {
+      node.error = parsed.error;
+      return;
+    }
+
+    getDependencies(parsed.ast, sheet)
+      .flatMap(dependency => this.resolveDependency(dependency, sheet, context))
+      .forEach(dependency => this.link(node, dependency));
+  }
+
+  /**
+   * Direct dependents of a cell, including formulas that read it through a
+   * range
+   */
+  getDependents(id: string): string[] {
+    const dependents = new Set(this.nodes.get(id)?.dependents);
+    const { sheet, address } = parseCellId(id);
+    const index = this.rangeIndex.get(sheet);
+
+    if (index) {
+      const cell = parseCellReference(address);
+      const column = columnToIndex(cell.column);
+      const candidates = [
+        ...(index.rows.get(toBucket(cell.row)) || []),
+        ...(index.columns.get(toBucket(column)) || [])
+      ];
+      candidates.forEach(range => {
+        if (cell.row >= range.top && cell.row <= range.bottom && column >= range.left && column <= range.right) {
+          range.dependents.forEach(dependent => dependents.add(dependent));
+        }
+      });
+    }
+    return Array.from(dependents);
+  }
+
+  /**
+   * Mark the changed cells and everything downstream of them dirty;
+   * returns the cells marked
+   */
+  markDirty(changed: Iterable<string>): string[] {
+    const marked = new Set<string>();
+    const queue = Array.from(changed);
+
+    for (let position = 0; position < queue.length; position++) {
+      const id = queue[position];
+      if (marked.has(id)) continue;
+      marked.add(id);
+      this.getOrCreateNode(id).dirty = true;
+      this.getDependents(id).forEach(dependent => {
+        if (!marked.has(dependent)) queue.push(dependent);
+      });
+    }
+    return Array.from(marked);
+  }
+
+  /**
+   * Write input values and recompute only the cells that depend on them
+   */
+  setValues(context: EvaluationContext, values: Record<string, any>): RecalculationResult {
+    Object.entries(values).forEach(([id, value]) => {
+      const { sheet: sheetName, address } = parseCellId(id);
+      const sheet = context.sheets.get(sheetName);
+      if (!sheet) {
+        throw new Error(`Sheet ${sheetName} not found`);
+      }
+      const cell = sheet.cells.get(address);
+      if (cell?.formula) {
+        throw new Error(`Cell ${id} holds a formula; use setFormula to change it`);
+      }
+      sheet.cells.set(address, { ...cell, value });
+      growSheet(sheet, address);
+    });
+
+    return this.recalculate(context, this.markDirty(Object.keys(values)));
+  }
+
+  /**
+   * Recompute dirty cells (or the given ones) in topological order.
+   * Circular references are iterated as Excel's iterative calculation does;
+   * with maxIterations of 0 they are left as they were and reported.
+   */
+  recalculate(context: EvaluationContext, ids?: Iterable<string>): RecalculationResult {
+    const dirty = new Set(
+      ids ? Array.from(ids).filter(id => this.nodes.get(id)?.dirty) : this.getDirtyIds()
+    );
+    const result: RecalculationResult = { recalculated: [], cycles: [], iterations: [], unconverged: [] };
+
+    this.getComponents(dirty).forEach(component => {
+      const cycle = this.getCycle(component);
+      if (!cycle) {
+        this.evaluate(component[0], context, result);
+        return;
+      }
+
+      result.cycles.push(cycle);
+      if (context.maxIterations <= 0) {
+        component.forEach(id => {
+          const node = this.nodes.get(id)!;
+          node.error = `Circular reference: ${cycle.path.join(' -> ')}`;
+          node.dirty = false;
+        });
+        return;
+      }
+
+      const iteration = this.iterate(cycle, component, context, result);
+      result.iterations.push(iteration);
+      result.unconverged.push(...iteration.unconverged);
+    });
+    return result;
+  }
+
+  /**
+   * Every circular reference in the workbook
+   */
+  findCycles(): CircularReference[] {
+    return this.getComponents(new Set(this.nodes.keys()))
+      .map(component => this.getCycle(component))
+      .filter((cycle): cycle is CircularReference => cycle !== undefined);
+  }
+
+  private getDirtyIds(): string[] {
+    return Array.from(this.nodes.values()).filter(node => node.dirty).map(node => node.id);
+  }
+
+  private evaluate(id: string, context: EvaluationContext, result: RecalculationResult): void {
+    const node = this.nodes.get(id)!;
+    node.dirty = false;
+    if (!node.formula) {
+      return;
+    }
+
+    const { sheet, address } = parseCellId(id);
+    const cell = this.engine.evaluateCell(sheet, address, context);
+    node.value = cell.value;
+    node.error = cell.error;
+    result.recalculated.push(id);
+  }
+
+  /**
+   * Recompute a circular reference until no cell moves by more than epsilon
+   * between passes, or maxIterations passes have run. Cells keep the values
+   * of the last pass; those still moving are reported.
+   */
+  private iterate(
+    cycle: CircularReference,
+    component: string[],
+    context: EvaluationContext,
+    result: RecalculationResult
+  ): IterationResult {
+    // Follow the cycle path so each pass reads the freshest values it can
+    const order = [
+      ...cycle.path.slice(0, -1),
+      ...component.filter(id => !cycle.path.includes(id)).sort()
+    ].filter(id => this.nodes.get(id)?.formula);
+
+    let unconverged: string[] = order;
+    let iterations = 0;
+    while (unconverged.length > 0 && iterations < context.maxIterations) {
+      iterations++;
+      const passContext = { ...context, iteration: iterations };
+      unconverged = order.filter(id => {
+        const { sheet, address } = parseCellId(id);
+        const previous = context.sheets.get(sheet)?.cells.get(address)?.value;
+        const cell = this.engine.evaluateCell(sheet, address, passContext);
+        return !hasConverged(previous, cell.value, context.epsilon);
+      });
+    }
+
+    const converged = unconverged.length === 0;
+    component.forEach(id => {
+      const node = this.nodes.get(id)!;
+      const { sheet, address } = parseCellId(id);
+      const cell = context.sheets.get(sheet)?.cells.get(address);
+      node.dirty = false;
+      node.value = cell?.value;
+      node.error = unconverged.includes(id)
+        ? `Did not converge within ${context.epsilon} after ${iterations} iterations: ${cycle.path.join(' -> ')}`
+        : cell?.error;
+    });
+    result.recalculated.push(...order);
+
+    return { cells: order, iterations, converged, unconverged };
+  }
+
+  /**
+   * Strongly connected components of the subgraph, upstream components
+   * first (iterative Tarjan, so long chains do not exhaust the stack)
+   */
+  private getComponents(ids: Set<string>): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let counter = 0;
+
+    ids.forEach(root => {
+      if (index.has(root)) return;
+      const work: Array<{ id: string; edges: string[]; next: number }> = [];
+      const visit = (id: string) => {
+        index.set(id, counter);
+        lowLink.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+        work.push({ id, edges: this.getDependents(id).filter(dependent => ids.has(dependent)), next: 0 });
+      };
+      visit(root);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        if (frame.next < frame.edges.length) {
+          const edge = frame.edges[frame.next++];
+          if (!index.has(edge)) {
+            visit(edge);
+          } else if (onStack.has(edge)) {
+            lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(edge)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1].id;
+          lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+        }
+        if (lowLink.get(frame.id) === index.get(frame.id)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.id);
+          components.push(component);
+        }
+      }
+    });
+
+    // Tarjan emits downstream components first
+    return components.reverse();
+  }
+
+  /**
+   * Path around a component that is a cycle: more than one cell, or a cell
+   * that reads itself
+   */
+  private getCycle(component: string[]): CircularReference | undefined {
+    const [start] = component;
+    const members = new Set(component);
+    if (component.length === 1 && !this.getDependents(start).includes(start)) {
+      return undefined;
+    }
+
+    // Shortest way back to the start through the component
+    const previous = new Map<string, string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      const next = this.getDependents(id).filter(dependent => members.has(dependent));
+      if (next.includes(start)) {
+        const path = [start];
+        for (let step: string | undefined = id; step !== undefined && step !== start; step = previous.get(step)) {
+          path.splice(1, 0, step);
+        }
+        path.push(start);
+        return { cells: [...component].sort(), path };
+      }
+      next.filter(dependent => !previous.has(dependent) && dependent !== start).forEach(dependent => {
+        previous.set(dependent, id);
+        queue.push(dependent);
+      });
+    }
+    return undefined;
+  }
+
+  private getOrCreateNode(id: string): DependencyNode {
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, dependents: new Set(), dependencies: new Set(), dirty: false };
+      this.nodes.set(id, node);
+    }
+    return node;
+  }
+
+  /**
+   * Cells and range ids a parsed dependency stands for; named ranges are
+   * resolved through the context, unknown names are ignored
+   */
+  private resolveDependency(dependency: string, sheet: string, context: EvaluationContext): string[] {
+    const separator = dependency.lastIndexOf('!');
+    const address = dependency.slice(separator + 1);
+    if (/^[A-Z]+\d+(:[A-Z]+\d+)?$/.test(address) && separator >= 0) {
+      return [dependency];
+    }
+
+    const target = resolveNamedRange(context, address, separator >= 0 ? dependency.slice(0, separator) : sheet);
+    if (!target) {
+      return [];
+    }
+
+    const references = Array.isArray(target) ? target : [target];
+    const targetSheet = references[0].sheet || sheet;
+    return references.length === 1
+      ? [toCellId(targetSheet, formatCellAddress(references[0]))]
+      : [toRangeId(targetSheet, references[0], references[references.length - 1])];
+  }
+
+  private link(node: DependencyNode, dependency: string): void {
+    node.dependencies.add(dependency);
+    const { sheet, address } = parseCellId(dependency);
+
+    if (!address.includes(':')) {
+      this.getOrCreateNode(dependency).dependents.add(node.id);
+      return;
+    }
+
+    let range = this.ranges.get(dependency);
+    if (!range) {
+      const [start, end] = address.split(':').map(cell => parseCellReference(cell));
+      const columns = [columnToIndex(start.column), columnToIndex(end.column)];
+      range = {
+        sheet,
+        top: Math.min(start.row, end.row),
+        bottom: Math.max(start.row, end.row),
+        left: Math.min(...columns),
+        right: Math.max(...columns),
+        dependents: new Set()
+      };
+      this.ranges.set(dependency, range);
+      this.indexRange(range);
+    }
+    range.dependents.add(node.id);
+  }
+
+  private indexRange(range: RangeDependency): void {
+    let index = this.rangeIndex.get(range.sheet);
+    if (!index) {
+      index = { rows: new Map(), columns: new Map() };
+      this.rangeIndex.set(range.sheet, index);
+    }
+    const { axis, buckets } = getRangeBuckets(range);
+    const bucketMap = index[axis];
+    buckets.forEach(bucket => {
+      const ranges = bucketMap.get(bucket) || new Set<RangeDependency>();
+      ranges.add(range);
+      bucketMap.set(bucket, ranges);
+    });
+  }
+
+  private unindexRange(range: RangeDependency): void {
+    const index = this.rangeIndex.get(range.sheet);
+    if (!index) return;
+    const { axis, buckets } = getRangeBuckets(range);
+    buckets.forEach(bucket => {
+      const ranges = index[axis].get(bucket);
+      ranges?.delete(range);
+      if (ranges?.size === 0) index[axis].delete(bucket);
+    });
+    if (index.rows.size === 0 && index.columns.size === 0) {
+      this.rangeIndex.delete(range.sheet);
+    }
+  }
+
+  private unlink(node: DependencyNode): void {
+    node.dependencies.forEach(dependency => {
+      const range = this.ranges.get(dependency);
+      if (range) {
+        range.dependents.delete(node.id);
+        if (range.dependents.size === 0) {
+          this.ranges.delete(dependency);
+          this.unindexRange(range);
+        }
+      } else {
+        this.nodes.get(dependency)?.dependents.delete(node.id);
+      }
+    });
+    node.dependencies.clear();
+    delete node.error;
+  }
+}
+
+function hasConverged(previous: any, current: any, epsilon: number): boolean {
+  if (typeof previous === 'number' && typeof current === 'number') {
+    return Math.abs(current - previous) <= epsilon;
+  }
+  return previous === current;
+}
+
+function growSheet(sheet: Sheet, address: string): void {
+  const cell = parseCellReference(address);
+  sheet.lastRow = Math.max(sheet.lastRow, cell.row);
+  sheet.lastColumn = Math.max(sheet.lastColumn, columnToIndex(cell.column));
+}
@@ -0,0 +1,807 @@
+/**
+ * Excel Functions
+ * The worksheet functions used by the bart3.20 workbook, grouped by formula
+ * category. Arguments arrive evaluated: ranges and array constants as
+ * row-major 2D arrays, errors as FormulaError values.
+ */
+
+import DecimalJs from 'decimal.js';
+import type { ExcelError, ExcelFunction, FormulaCategory, FunctionRegistry } from './types';
+
+// Independent of the global Decimal settings the painting calculator changes
+const Decimal = DecimalJs.clone({ defaults: true, precision: 20 });
+type Decimal = DecimalJs;
+
+export class FormulaError {
+  constructor(public readonly code: ExcelError) {}
+
+  toString(): string {
+    return this.code;
+  }
+}
+
+export function isFormulaError(value: unknown): value is FormulaError {
+  return value instanceof FormulaError;
+}
+
+const errors = {
+  div0: new FormulaError('#DIV/0!'),
+  na: new FormulaError('#N/A'),
+  name: new FormulaError('#NAME?'),
+  num: new FormulaError('#NUM!'),
+  ref: new FormulaError('#REF!'),
+  value: new FormulaError('#VALUE!')
+};
+
+export type Matrix = any[][];
+
+export function isMatrix(value: unknown): value is Matrix {
+  return Array.isArray(value) && value.every(Array.isArray);
+}
+
+export function toMatrix(value: any): Matrix {
+  return isMatrix(value) ? value : [[value]];
+}
+
+export function flatten(value: any): any[] {
+  return isMatrix(value) ? value.flat() : [value];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+/**
+ * Decimal result as a number; overflow and NaN become #NUM!
+ */
+export function fromDecimal(value: Decimal): number | FormulaError {
+  return value.isFinite() ? value.toNumber() : errors.num;
+}
+
+/**
+ * Scalar to number as Excel arithmetic does: blanks are 0, booleans 1 or 0,
+ * numeric text is parsed and other text is #VALUE!
+ */
+export function toNumber(value: any): number | FormulaError {
+  if (isFormulaError(value)) return value;
+  if (isMatrix(value)) return toNumber(value[0]?.[0]);
+  if (isEmpty(value)) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return dateToSerial(value);
+
+  const text = String(value).trim();
+  if (text === '') return errors.value;
+  const percent = text.endsWith('%');
+  const number = Number(text.replace(/[$,%]/g, ''));
+  if (!Number.isNaN(number)) {
+    return percent ? new Decimal(number).dividedBy(100).toNumber() : number;
+  }
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? errors.value : dateToSerial(new Date(parsed));
+}
+
+export function toText(value: any): string | FormulaError {
+  if (isFormulaError(value)) return value;
+  if (isMatrix(value)) return toText(value[0]?.[0]);
+  if (isEmpty(value)) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return String(new Decimal(value).toSignificantDigits(15).toNumber());
+  return String(value);
+}
+
+export function toBoolean(value: any): boolean | FormulaError {
+  if (isFormulaError(value)) return value;
+  if (isMatrix(value)) return toBoolean(value[0]?.[0]);
+  if (isEmpty(value)) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const text = String(value).toUpperCase();
+  if (text === 'TRUE' || text === 'FALSE') return text === 'TRUE';
+  return errors.value;
+}
+
+/**
+ * Whole-number argument such as a count or an index, truncated as Excel does
+ */
+function toInteger(value: any): number | FormulaError {
+  const number = toNumber(value);
+  if (isFormulaError(number)) return number;
+  return Number.isNaN(number) ? errors.value : Math.trunc(number);
+}
+
+/**
+ * Excel ordering: numbers before text before booleans, text compared
+ * without case; blanks take the type of the other side
+ */
+export function compareValues(left: any, right: any): number {
+  const rank = (value: any) => (typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : 2);
+  const a = isEmpty(left) ? (typeof right === 'string' ? '' : typeof right === 'boolean' ? false : 0) : left;
+  const b = isEmpty(right) ? (typeof a === 'string' ? '' : typeof a === 'boolean' ? false : 0) : right;
+
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  if (typeof a === 'string') {
+    const x = a.toLowerCase();
+    const y = String(b).toLowerCase();
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  return Number(a) - Number(b);
+}
+
+function firstError(values: any[]): FormulaError | undefined {
+  return values.flatMap(flatten).find(isFormulaError);
+}
+
+/**
+ * Numbers for aggregate functions: direct arguments are coerced, while text
+ * and booleans inside ranges are skipped
+ */
+function collectNumbers(args: any[]): number[] | FormulaError {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (isMatrix(arg)) {
+      for (const value of arg.flat()) {
+        if (isFormulaError(value)) return value;
+        if (typeof value === 'number') numbers.push(value);
+      }
+    } else if (!isEmpty(arg)) {
+      const number = toNumber(arg);
+      if (isFormulaError(number)) return number;
+      numbers.push(number);
+    }
+  }
+  return numbers;
+}
+
+function sum(numbers: number[]): Decimal {
+  return numbers.reduce((total, value) => total.plus(value), new Decimal(0));
+}
+
+function wildcardPattern(text: string): RegExp {
+  const source = text.replace(/~([*?~])|([*?])|[.+^${}()|[\]\\]/g, (token, escaped, wildcard) =>
+    escaped ? `\\${escaped}` : wildcard === '*' ? '.*' : wildcard === '?' ? '.' : `\\${token}`
+  );
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function matchesText(value: any, pattern: string): boolean {
+  return wildcardPattern(pattern).test(isEmpty(value) ? '' : String(value));
+}
+
+/**
+ * SUMIF/COUNTIF criteria: a value, or a comparison such as ">5", "<>done"
+ * or "Wall*" with wildcards
+ */
+export function matchesCriteria(value: any, criteria: any): boolean {
+  if (typeof criteria === 'number' || typeof criteria === 'boolean') {
+    return typeof value === 'string' ? compareValues(toNumber(value), criteria) === 0 : value === criteria;
+  }
+
+  const [, operator = '=', operand] = String(criteria ?? '').match(/^(<=|>=|<>|<|>|=)?([\s\S]*)$/)!;
+  const numeric = operand.trim() !== '' && !Number.isNaN(Number(operand));
+
+  if (operand === '') {
+    return operator === '<>' ? !isEmpty(value) && value !== '' : isEmpty(value) || value === '';
+  }
+  if (numeric) {
+    if (typeof value !== 'number') return operator === '<>';
+    const difference = value - Number(operand);
+    switch (operator) {
+      case '<': return difference < 0;
+      case '<=': return difference <= 0;
+      case '>': return difference > 0;
+      case '>=': return difference >= 0;
+      case '<>': return difference !== 0;
+      default: return difference === 0;
+    }
+  }
+  if (operator === '=' || operator === '<>') {
+    return matchesText(value, operand) === (operator === '=');
+  }
+  if (typeof value !== 'string') return false;
+  const comparison = compareValues(value, operand);
+  return operator === '<' ? comparison < 0 : operator === '<=' ? comparison <= 0 : operator === '>' ? comparison > 0 : comparison >= 0;
+}
+
+function roundTo(
+  value: any,
+  digits: any,
+  rounding: DecimalJs.Rounding
+): number | FormulaError {
+  const number = toNumber(value);
+  const places = toNumber(digits);
+  if (isFormulaError(number)) return number;
+  if (isFormulaError(places)) return places;
+
+  const decimal = new Decimal(number);
+  const precision = Math.trunc(places);
+  if (precision >= 0) {
+    return decimal.toDecimalPlaces(precision, rounding).toNumber();
+  }
+  const step = new Decimal(10).pow(-precision);
+  return decimal.dividedBy(step).toDecimalPlaces(0, rounding).times(step).toNumber();
+}
+
+function toMultiple(value: any, significance: any, direction: 'ceil' | 'floor'): number | FormulaError {
+  const number = toNumber(value);
+  const step = toNumber(significance ?? 1);
+  if (isFormulaError(number)) return number;
+  if (isFormulaError(step)) return step;
+  if (step === 0) return direction === 'ceil' ? 0 : errors.div0;
+  if (number > 0 && step < 0) return errors.num;
+
+  const multiples = new Decimal(number).dividedBy(step);
+  return (direction === 'ceil' ? multiples.ceil() : multiples.floor()).times(step).toNumber();
+}
+
+/**
+ * Sum or count over criteria pairs, cells matched by position
+ */
+function conditional(
+  target: Matrix | undefined,
+  pairs: any[],
+  aggregate: 'sum' | 'count'
+): number | FormulaError {
+  if (pairs.length === 0 || pairs.length % 2 !== 0) return errors.value;
+  const ranges: Matrix[] = [];
+  const criteria: any[] = [];
+  for (let index = 0; index < pairs.length; index += 2) {
+    ranges.push(toMatrix(pairs[index]));
+    criteria.push(isMatrix(pairs[index + 1]) ? pairs[index + 1][0][0] : pairs[index + 1]);
+  }
+
+  const shape = ranges[0];
+  let total = new Decimal(0);
+  for (let row = 0; row < shape.length; row++) {
+    for (let column = 0; column < shape[row].length; column++) {
+      const matched = ranges.every((range, index) => matchesCriteria(range[row]?.[column], criteria[index]));
+      if (!matched) continue;
+      if (aggregate === 'count') {
+        total = total.plus(1);
+        continue;
+      }
+      const value = (target || shape)[row]?.[column];
+      if (isFormulaError(value)) return value;
+      if (typeof value === 'number') total = total.plus(value);
+    }
+  }
+  return total.toNumber();
+}
+
+/**
+ * Position of a value in a list: exact (0), largest not above (1, sorted
+ * ascending) or smallest not below (-1, sorted descending). Zero-based,
+ * -1 when missing.
+ */
+function lookupIndex(values: any[], lookup: any, matchType: number): number {
+  if (matchType === 0) {
+    return values.findIndex(value =>
+      typeof lookup === 'string' ? typeof value === 'string' && matchesText(value, lookup) : compareValues(value, lookup) === 0 && !isEmpty(value)
+    );
+  }
+
+  let found = -1;
+  for (let index = 0; index < values.length; index++) {
+    const value = values[index];
+    if (isEmpty(value) || typeof value !== typeof lookup) continue;
+    const comparison = compareValues(value, lookup);
+    if (matchType > 0 ? comparison > 0 : comparison < 0) break;
+    found = index;
+    if (comparison === 0) break;
+  }
+  return found;
+}
+
+// Dates are serial numbers in the 1900 date system: 25569 is 1970-01-01
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const UNIX_EPOCH_SERIAL = 25569;
+
+export function dateToSerial(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return utc / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+}
+
+/**
+ * Serial to a Date whose UTC fields hold the calendar date and time
+ */
+export function serialToDate(serial: number): Date {
+  return new Date(Math.round((serial - UNIX_EPOCH_SERIAL) * MS_PER_DAY));
+}
+
+function toSerial(value: any): number | FormulaError {
+  const number = toNumber(value);
+  if (isFormulaError(number)) return number;
+  return number < 0 ? errors.num : number;
+}
+
+function fromUtc(year: number, month: number, day: number): number {
+  return Date.UTC(year, month, day) / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+}
+
+const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatDate(serial: number, format: string): string {
+  const date = serialToDate(serial);
+  const hours = date.getUTCHours();
+  const twelveHour = /AM\/PM/i.test(format);
+  let afterHours = false;
+
+  return format.replace(/yyyy|yy|mmmm|mmm|mm|m|dddd|ddd|dd|d|hh|h|ss|s|AM\/PM|"[^"]*"/gi, token => {
+    const lower = token.toLowerCase();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const wasAfterHours = afterHours;
+    afterHours = lower.startsWith('h');
+
+    if (token.startsWith('"')) return token.slice(1, -1);
+    switch (lower) {
+      case 'yyyy': return String(date.getUTCFullYear());
+      case 'yy': return pad(date.getUTCFullYear() % 100);
+      case 'mmmm': return monthNames[date.getUTCMonth()];
+      case 'mmm': return monthNames[date.getUTCMonth()].slice(0, 3);
+      case 'mm': return wasAfterHours ? pad(date.getUTCMinutes()) : pad(date.getUTCMonth() + 1);
+      case 'm': return wasAfterHours ? String(date.getUTCMinutes()) : String(date.getUTCMonth() + 1);
+      case 'dddd': return dayNames[date.getUTCDay()];
+      case 'ddd': return dayNames[date.getUTCDay()].slice(0, 3);
+      case 'dd': return pad(date.getUTCDate());
+      case 'd': return String(date.getUTCDate());
+      case 'hh': return pad(twelveHour ? hours % 12 || 12 : hours);
+      case 'h': return String(twelveHour ? hours % 12 || 12 : hours);
+      case 'ss': return pad(date.getUTCSeconds());
+      case 's': return String(date.getUTCSeconds());
+      default: return hours < 12 ? 'AM' : 'PM';
+    }
+  });
+}
+
+/**
+ * TEXT number formats: digits and decimals, thousands separators, percent
+ * and literal prefixes or suffixes such as "$#,##0.00"
+ */
+function formatNumber(value: number, format: string): string {
+  const [positive, negative] = format.split(';');
+  const section = value < 0 && negative !== undefined ? negative : positive;
+  const pattern = section.match(/[#0][#0,]*(\.[#0]+)?/);
+  if (!pattern) return section.replace(/"/g, '');
+
+  const percent = section.includes('%');
+  const decimals = pattern[1] ? pattern[1].length - 1 : 0;
+  const amount = new Decimal(value).abs().times(percent ? 100 : 1).toDecimalPlaces(decimals, Decimal.ROUND_HALF_UP);
+  let [whole, fraction] = amount.toFixed(decimals).split('.');
+  if (pattern[0].includes(',')) {
+    whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+
+  const digits = fraction ? `${whole}.${fraction}` : whole;
+  const sign = value < 0 && negative === undefined && !amount.isZero() ? '-' : '';
+  return sign + section.replace(pattern[0], digits).replace(/"/g, '');
+}
+
+function isDateFormat(format: string): boolean {
+  const bare = format.replace(/"[^"]*"/g, '');
+  return !/[#0]/.test(bare) && /[ymdhs]/i.test(bare);
+}
+
+/**
+ * Wrap a function so an error passed as a single value is returned before
+ * it runs; errors inside ranges are left to the function
+ */
+function strict(fn: (...args: any[]) => any): ExcelFunction {
+  return (_context, ...args) => args.find(isFormulaError) ?? fn(...args);
+}
+
+/**
+ * Wrap a function over numbers. Omitted arguments arrive as undefined so each
+ * function applies its own default; Excel counts an empty argument as 0.
+ */
+function numeric(fn: (...numbers: (number | undefined)[]) => number | FormulaError | Decimal): ExcelFunction {
+  return (_context, ...args) => {
+    const numbers: (number | undefined)[] = [];
+    for (const arg of args) {
+      const number = arg === undefined ? undefined : toNumber(arg);
+      if (isFormulaError(number)) return number;
+      numbers.push(number);
+    }
+    const result = fn(...numbers);
+    return result instanceof Decimal ? fromDecimal(result) : result;
+  };
+}
+
+function joinText(texts: (string | FormulaError)[], separator: string): string | FormulaError {
+  return texts.find(isFormulaError) ?? texts.join(separator);
+}
+
+function mapText<T>(text: any, fn: (value: string) => T): T | FormulaError {
+  const value = toText(text);
+  return isFormulaError(value) ? value : fn(value);
+}
+
+function findText(search: any, text: any, start: any, ignoreCase: boolean): number | FormulaError {
+  const needle = toText(search);
+  const haystack = toText(text);
+  const from = toInteger(start);
+  if (isFormulaError(needle)) return needle;
+  if (isFormulaError(haystack)) return haystack;
+  if (isFormulaError(from)) return from;
+  if (from < 1 || from > haystack.length + 1) return errors.value;
+
+  const index = ignoreCase
+    ? haystack.toLowerCase().indexOf(needle.toLowerCase(), from - 1)
+    : haystack.indexOf(needle, from - 1);
+  return index < 0 ? errors.value : index + 1;
+}
+
+const financialFunctions: FunctionRegistry = {
+  PMT: numeric((rate = 0, periods = 0, presentValue = 0, futureValue = 0, type = 0) => {
+    if (periods === 0) return errors.num;
+    if (rate === 0) {
+      return new Decimal(presentValue).plus(futureValue).dividedBy(periods).negated();
+    }
+    const growth = new Decimal(1).plus(rate).pow(periods);
+    return new Decimal(presentValue).times(growth).plus(futureValue)
+      .times(rate)
+      .dividedBy(growth.minus(1).times(new Decimal(1).plus(new Decimal(rate).times(type ? 1 : 0))))
+      .negated();
+  })
+};
+
+const mathFunctions: FunctionRegistry = {
+  SUM: (_context, ...args) => {
+    const numbers = collectNumbers(args);
+    return isFormulaError(numbers) ? numbers : sum(numbers).toNumber();
+  },
+  SUMIF: (_context, range, criteria, sumRange) =>
+    conditional(sumRange === undefined ? undefined : toMatrix(sumRange), [range, criteria], 'sum'),
+  SUMIFS: (_context, sumRange, ...pairs) => conditional(toMatrix(sumRange), pairs, 'sum'),
+  SUMPRODUCT: (_context, ...args) => {
+    const arrays = args.map(toMatrix);
+    const rows = arrays[0]?.length || 0;
+    const columns = arrays[0]?.[0]?.length || 0;
+    if (arrays.some(array => array.length !== rows || array.some(row => row.length !== columns))) {
+      return errors.value;
+    }
+    let total = new Decimal(0);
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        let product = new Decimal(1);
+        for (const array of arrays) {
+          const value = array[row][column];
+          if (isFormulaError(value)) return value;
+          product = product.times(typeof value === 'number' ? value : 0);
+        }
+        total = total.plus(product);
+      }
+    }
+    return total.toNumber();
+  },
+  PRODUCT: (_context, ...args) => {
+    const numbers = collectNumbers(args);
+    if (isFormulaError(numbers)) return numbers;
+    return numbers.reduce((product, value) => product.times(value), new Decimal(1)).toNumber();
+  },
+  ROUND: strict((value, digits = 0) => roundTo(value, digits, Decimal.ROUND_HALF_UP)),
+  ROUNDUP: strict((value, digits = 0) => roundTo(value, digits, Decimal.ROUND_UP)),
+  ROUNDDOWN: strict((value, digits = 0) => roundTo(value, digits, Decimal.ROUND_DOWN)),
+  CEILING: strict((value, significance) => toMultiple(value, significance, 'ceil')),
+  FLOOR: strict((value, significance) => toMultiple(value, significance, 'floor')),
+  INT: numeric((value = 0) => new Decimal(value).floor()),
+  ABS: numeric((value = 0) => new Decimal(value).abs()),
+  MOD: numeric((value = 0, divisor = 0) => {
+    if (divisor === 0) return errors.div0;
+    // The result takes the sign of the divisor
+    return new Decimal(value).minus(new Decimal(divisor).times(new Decimal(value).dividedBy(divisor).floor()));
+  }),
+  POWER: numeric((base = 0, exponent = 0) => new Decimal(base).pow(exponent)),
+  SQRT: numeric((value = 0) => (value < 0 ? errors.num : new Decimal(value).sqrt()))
+};
+
+const statisticalFunctions: FunctionRegistry = {
+  AVERAGE: (_context, ...args) => {
+    const numbers = collectNumbers(args);
+    if (isFormulaError(numbers)) return numbers;
+    return numbers.length === 0 ? errors.div0 : sum(numbers).dividedBy(numbers.length).toNumber();
+  },
+  MAX: (_context, ...args) => {
+    const numbers = collectNumbers(args);
+    return isFormulaError(numbers) ? numbers : numbers.reduce((max, value) => Math.max(max, value), numbers[0] ?? 0);
+  },
+  MIN: (_context, ...args) => {
+    const numbers = collectNumbers(args);
+    return isFormulaError(numbers) ? numbers : numbers.reduce((min, value) => Math.min(min, value), numbers[0] ?? 0);
+  },
+  COUNT: (_context, ...args) =>
+    args.reduce((count, arg) => count + (isMatrix(arg)
+      ? arg.flat().filter(value => typeof value === 'number').length
+      : isEmpty(arg) || isFormulaError(toNumber(arg)) ? 0 : 1), 0),
+  COUNTA: (_context, ...args) =>
+    args.reduce((count, arg) => count + flatten(arg).filter(value => !isEmpty(value)).length, 0),
+  COUNTBLANK: (_context, range) =>
+    flatten(range).filter(value => isEmpty(value) || value === '').length,
+  COUNTIF: (_context, range, criteria) => conditional(undefined, [range, criteria], 'count'),
+  COUNTIFS: (_context, ...pairs) => conditional(undefined, pairs, 'count')
+};
+
+const logicalFunctions: FunctionRegistry = {
+  IF: (_context, condition, whenTrue, whenFalse) => {
+    const test = toBoolean(condition);
+    if (isFormulaError(test)) return test;
+    return test ? whenTrue ?? 0 : whenFalse === undefined ? false : whenFalse;
+  },
+  IFS: (_context, ...args) => {
+    for (let index = 0; index < args.length - 1; index += 2) {
+      const test = toBoolean(args[index]);
+      if (isFormulaError(test)) return test;
+      if (test) return args[index + 1];
+    }
+    return errors.na;
+  },
+  AND: (_context, ...args) => {
+    const error = firstError(args);
+    if (error) return error;
+    const values = args.flatMap(arg => (isMatrix(arg) ? arg.flat().filter(value => typeof value !== 'string') : [arg]));
+    const tests = values.filter(value => !isEmpty(value)).map(toBoolean);
+    return tests.find(isFormulaError) ?? (tests.length === 0 ? errors.value : tests.every(Boolean));
+  },
+  OR: (_context, ...args) => {
+    const error = firstError(args);
+    if (error) return error;
+    const values = args.flatMap(arg => (isMatrix(arg) ? arg.flat().filter(value => typeof value !== 'string') : [arg]));
+    const tests = values.filter(value => !isEmpty(value)).map(toBoolean);
+    return tests.find(isFormulaError) ?? (tests.length === 0 ? errors.value : tests.some(Boolean));
+  },
+  NOT: (_context, value) => {
+    const test = toBoolean(value);
+    return isFormulaError(test) ? test : !test;
+  },
+  IFERROR: (_context, value, fallback) => (isFormulaError(value) ? fallback ?? 0 : value),
+  IFNA: (_context, value, fallback) => (isFormulaError(value) && value.code === '#N/A' ? fallback ?? 0 : value),
+  TRUE: () => true,
+  FALSE: () => false
+};
+
+const lookupFunctions: FunctionRegistry = {
+  VLOOKUP: strict((lookup, table, columnIndex, approximate = true) => {
+    const rows = toMatrix(table);
+    const column = toInteger(columnIndex);
+    if (isFormulaError(column)) return column;
+    if (column < 1) return errors.value;
+    if (column > (rows[0]?.length || 0)) return errors.ref;
+    const exact = toBoolean(approximate) === false;
+    const index = lookupIndex(rows.map(row => row[0]), lookup, exact ? 0 : 1);
+    return index < 0 ? errors.na : rows[index][column - 1];
+  }),
+  HLOOKUP: strict((lookup, table, rowIndex, approximate = true) => {
+    const rows = toMatrix(table);
+    const row = toInteger(rowIndex);
+    if (isFormulaError(row)) return row;
+    if (row < 1) return errors.value;
+    if (row > rows.length) return errors.ref;
+    const exact = toBoolean(approximate) === false;
+    const index = lookupIndex(rows[0], lookup, exact ? 0 : 1);
+    return index < 0 ? errors.na : rows[row - 1][index];
+  }),
+  MATCH: strict((lookup, array, matchType = 1) => {
+    const type = toNumber(matchType);
+    if (isFormulaError(type)) return type;
+    const index = lookupIndex(flatten(array), lookup, Math.sign(type));
+    return index < 0 ? errors.na : index + 1;
+  }),
+  INDEX: strict((array, rowNumber, columnNumber) => {
+    const rows = toMatrix(array);
+    let row = toInteger(rowNumber ?? 0);
+    let column = columnNumber === undefined ? undefined : toInteger(columnNumber);
+    if (isFormulaError(row)) return row;
+    if (isFormulaError(column)) return column;
+
+    // A single row takes one index as the column
+    if (column === undefined) {
+      if (rows.length === 1) {
+        column = row;
+        row = 1;
+      } else {
+        column = 1;
+      }
+    }
+    if (row < 0 || column < 0 || row > rows.length || column > (rows[0]?.length || 0)) return errors.ref;
+    if (row === 0 && column === 0) return rows;
+    if (row === 0) return rows.map(values => [values[column! - 1]]);
+    if (column === 0) return [rows[row - 1]];
+    return rows[row - 1][column - 1];
+  }),
+  CHOOSE: (_context, index, ...values) => {
+    const choice = toNumber(index);
+    if (isFormulaError(choice)) return choice;
+    return choice >= 1 && choice <= values.length ? values[Math.trunc(choice) - 1] : errors.value;
+  }
+};
+
+const textFunctions: FunctionRegistry = {
+  CONCATENATE: strict((...values) => joinText(values.map(toText), '')),
+  CONCAT: strict((...values) => joinText(values.flatMap(flatten).map(toText), '')),
+  TEXTJOIN: strict((delimiter, ignoreEmpty, ...values) => {
+    const separator = toText(delimiter);
+    const skipEmpty = toBoolean(ignoreEmpty);
+    if (isFormulaError(separator)) return separator;
+    if (isFormulaError(skipEmpty)) return skipEmpty;
+    const texts = values.flatMap(flatten).map(toText);
+    return joinText(skipEmpty ? texts.filter(text => text !== '') : texts, separator);
+  }),
+  LEFT: strict((text, count = 1) => {
+    const value = toText(text);
+    const length = toInteger(count);
+    if (isFormulaError(value)) return value;
+    if (isFormulaError(length)) return length;
+    return length < 0 ? errors.value : value.slice(0, length);
+  }),
+  RIGHT: strict((text, count = 1) => {
+    const value = toText(text);
+    const length = toInteger(count);
+    if (isFormulaError(value)) return value;
+    if (isFormulaError(length)) return length;
+    if (length < 0) return errors.value;
+    return length === 0 ? '' : value.slice(-length);
+  }),
+  MID: strict((text, start, count) => {
+    const value = toText(text);
+    const from = toInteger(start);
+    const length = toInteger(count);
+    if (isFormulaError(value)) return value;
+    if (isFormulaError(from)) return from;
+    if (isFormulaError(length)) return length;
+    if (from < 1 || length < 0) return errors.value;
+    return value.substr(from - 1, length);
+  }),
+  LEN: strict(text => mapText(text, value => value.length)),
+  UPPER: strict(text => mapText(text, value => value.toUpperCase())),
+  LOWER: strict(text => mapText(text, value => value.toLowerCase())),
+  PROPER: strict(text => mapText(text, value =>
+    value.toLowerCase().replace(/(^|[^a-z])([a-z])/g, (_match, before, letter) => before + letter.toUpperCase())
+  )),
+  TRIM: strict(text => mapText(text, value => value.trim().replace(/ {2,}/g, ' '))),
+  SUBSTITUTE: strict((text, search, replacement, instance) => {
+    const value = toText(text);
+    const find = toText(search);
+    const replace = toText(replacement);
+    if (isFormulaError(value)) return value;
+    if (isFormulaError(find)) return find;
+    if (isFormulaError(replace)) return replace;
+    if (find === '') return value;
+    if (instance === undefined) return value.split(find).join(replace);
+
+    const occurrence = toInteger(instance);
+    if (isFormulaError(occurrence)) return occurrence;
+    if (occurrence < 1) return errors.value;
+    let index = -1;
+    for (let count = 0; count < occurrence; count++) {
+      index = value.indexOf(find, index + 1);
+      if (index < 0) return value;
+    }
+    return value.slice(0, index) + replace + value.slice(index + find.length);
+  }),
+  FIND: strict((search, text, start = 1) => findText(search, text, start, false)),
+  SEARCH: strict((search, text, start = 1) => findText(search, text, start, true)),
+  REPT: strict((text, count) => {
+    const value = toText(text);
+    const times = toInteger(count);
+    if (isFormulaError(value)) return value;
+    if (isFormulaError(times)) return times;
+    return times < 0 ? errors.value : value.repeat(times);
+  }),
+  TEXT: strict((value, format) => {
+    const pattern = toText(format);
+    if (isFormulaError(pattern)) return pattern;
+    const number = toNumber(value);
+    if (isFormulaError(number)) return typeof value === 'string' ? value : number;
+    if (pattern.toLowerCase() === 'general') return toText(value);
+    return isDateFormat(pattern) ? formatDate(number, pattern) : formatNumber(number, pattern);
+  }),
+  VALUE: strict(text => toNumber(text))
+};
+
+const dateTimeFunctions: FunctionRegistry = {
+  TODAY: () => Math.floor(dateToSerial(new Date())),
+  NOW: () => dateToSerial(new Date()),
+  DATE: numeric((year = 0, month = 0, day = 0) => {
+    // Two-digit style years count from 1900
+    const fullYear = year < 1900 ? year + 1900 : year;
+    return fromUtc(Math.trunc(fullYear), Math.trunc(month) - 1, Math.trunc(day));
+  }),
+  YEAR: strict(value => {
+    const serial = toSerial(value);
+    return isFormulaError(serial) ? serial : serialToDate(serial).getUTCFullYear();
+  }),
+  MONTH: strict(value => {
+    const serial = toSerial(value);
+    return isFormulaError(serial) ? serial : serialToDate(serial).getUTCMonth() + 1;
+  }),
+  DAY: strict(value => {
+    const serial = toSerial(value);
+    return isFormulaError(serial) ? serial : serialToDate(serial).getUTCDate();
+  }),
+  WEEKDAY: strict((value, returnType = 1) => {
+    const serial = toSerial(value);
+    if (isFormulaError(serial)) return serial;
+    const day = serialToDate(serial).getUTCDay(); // 0 is Sunday
+    switch (toNumber(returnType)) {
+      case 1: return day + 1;
+      case 2: return ((day + 6) % 7) + 1;
+      case 3: return (day + 6) % 7;
+      default: return errors.num;
+    }
+  }),
+  EDATE: strict((start, months) => {
+    const serial = toSerial(start);
+    if (isFormulaError(serial)) return serial;
+    const date = serialToDate(Math.floor(serial));
+    const offset = toInteger(months);
+    if (isFormulaError(offset)) return offset;
+    const month = date.getUTCMonth() + offset;
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), month + 1, 0)).getUTCDate();
+    return fromUtc(date.getUTCFullYear(), month, Math.min(date.getUTCDate(), lastDay));
+  }),
+  EOMONTH: strict((start, months) => {
+    const serial = toSerial(start);
+    if (isFormulaError(serial)) return serial;
+    const offset = toInteger(months);
+    if (isFormulaError(offset)) return offset;
+    const date = serialToDate(Math.floor(serial));
+    return fromUtc(date.getUTCFullYear(), date.getUTCMonth() + offset + 1, 0);
+  }),
+  DAYS: strict((end, start) => {
+    const to = toSerial(end);
+    const from = toSerial(start);
+    if (isFormulaError(to)) return to;
+    if (isFormulaError(from)) return from;
+    return Math.floor(to) - Math.floor(from);
+  }),
+  NETWORKDAYS: strict((start, end, holidays) => {
+    const from = toSerial(start);
+    const to = toSerial(end);
+    if (isFormulaError(from)) return from;
+    if (isFormulaError(to)) return to;
+
+    const excluded = new Set(flatten(holidays).filter(value => typeof value === 'number').map(Math.floor));
+    const step = from <= to ? 1 : -1;
+    let days = 0;
+    for (let serial = Math.floor(from); step > 0 ? serial <= to : serial >= to; serial += step) {
+      const weekday = serialToDate(serial).getUTCDay();
+      if (weekday !== 0 && weekday !== 6 && !excluded.has(serial)) days += step;
+    }
+    return days;
+  })
+};
+
+const otherFunctions: FunctionRegistry = {
+  ISERROR: (_context, value) => isFormulaError(value),
+  ISNA: (_context, value) => isFormulaError(value) && value.code === '#N/A',
+  ISBLANK: (_context, value) => isEmpty(value),
+  ISNUMBER: (_context, value) => typeof value === 'number',
+  ISTEXT: (_context, value) => typeof value === 'string',
+  NA: () => errors.na
+};
+
+export const functionsByCategory: Partial<Record<FormulaCategory, FunctionRegistry>> = {
+  Financial: financialFunctions,
+  Math: mathFunctions,
+  Statistical: statisticalFunctions,
+  Logical: logicalFunctions,
+  Lookup: lookupFunctions,
+  Text: textFunctions,
+  DateTime: dateTimeFunctions,
+  Other: otherFunctions
+};
+
+export const excelFunctions: FunctionRegistry = Object.assign({}, ...Object.values(functionsByCategory));
+
+export function getFunctionCategory(name: string): FormulaCategory | undefined {
+  return (Object.keys(functionsByCategory) as FormulaCategory[]).find(category =>
+    name.toUpperCase() in functionsByCategory[category]!
+  );
+}
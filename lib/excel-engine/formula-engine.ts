@@ -0,0 +1,308 @@
+/**
+ * Formula Engine
+ * Evaluates parsed formulas against an EvaluationContext: resolves cells,
+ * ranges and named ranges, applies Excel operators with Decimal.js
+ * arithmetic and calls functions through a FunctionRegistry
+ */
+
+import DecimalJs from 'decimal.js';
+import { formulaParser, formatCellAddress, columnToIndex, indexToColumn } from './formula-parser';
+import {
+  FormulaError,
+  compareValues,
+  excelFunctions,
+  fromDecimal,
+  isFormulaError,
+  isMatrix,
+  toNumber,
+  toText,
+  type Matrix
+} from './excel-functions';
+import type {
+  BinaryOperator,
+  CalculationOptions,
+  CellReference,
+  CellValue,
+  EvaluationContext,
+  ExcelFunction,
+  FormulaNode,
+  FunctionRegistry,
+  Sheet
+} from './types';
+
+// Operators keep 20 significant digits whatever Decimal.set the app calls
+const Decimal = DecimalJs.clone({ defaults: true, precision: 20 });
+type Decimal = DecimalJs;
+
+const DEFAULT_MAX_ITERATIONS = 100;
+const DEFAULT_EPSILON = 0.001;
+
+export function createEvaluationContext(
+  sheets: Map<string, Sheet>,
+  currentSheet: string,
+  namedRanges: EvaluationContext['namedRanges'] = new Map(),
+  options: CalculationOptions = {}
+): EvaluationContext {
+  return {
+    currentSheet,
+    sheets,
+    namedRanges: new Map(Array.from(namedRanges, ([name, target]) => [name.toUpperCase(), target])),
+    iteration: 0,
+    maxIterations: options.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+    epsilon: options.epsilon ?? DEFAULT_EPSILON
+  };
+}
+
+/**
+ * Target of a name as seen from a sheet: sheet-scoped (sheet!name) before
+ * workbook names. Names are case-insensitive; the context keys them
+ * upper-cased.
+ */
+export function resolveNamedRange(
+  context: EvaluationContext,
+  name: string,
+  sheet: string
+): CellReference | CellReference[] | undefined {
+  return context.namedRanges.get(`${sheet}!${name}`.toUpperCase()) ?? context.namedRanges.get(name.toUpperCase());
+}
+
+/**
+ * Apply an operator element by element when either side is an array, so
+ * SUMPRODUCT((A1:A5>0)*B1:B5) works; a scalar is used against every element
+ */
+function broadcast(left: any, right: any, apply: (a: any, b: any) => any): any {
+  if (!isMatrix(left) && !isMatrix(right)) {
+    return apply(left, right);
+  }
+  const a = isMatrix(left) ? left : [[left]];
+  const b = isMatrix(right) ? right : [[right]];
+  const rows = Math.max(a.length, b.length);
+  const columns = Math.max(a[0]?.length || 0, b[0]?.length || 0);
+  const pick = (matrix: Matrix, row: number, column: number) =>
+    matrix[matrix.length === 1 ? 0 : row]?.[matrix[0].length === 1 ? 0 : column] ?? new FormulaError('#N/A');
+
+  return Array.from({ length: rows }, (_row, row) =>
+    Array.from({ length: columns }, (_column, column) => apply(pick(a, row, column), pick(b, row, column)))
+  );
+}
+
+function applyOperator(operator: BinaryOperator, left: any, right: any): any {
+  if (isFormulaError(left)) return left;
+  if (isFormulaError(right)) return right;
+
+  if (operator === '&') {
+    return `${toText(left)}${toText(right)}`;
+  }
+  if (['=', '<>', '<', '<=', '>', '>='].includes(operator)) {
+    const comparison = compareValues(left, right);
+    switch (operator) {
+      case '=': return comparison === 0;
+      case '<>': return comparison !== 0;
+      case '<': return comparison < 0;
+      case '<=': return comparison <= 0;
+      case '>': return comparison > 0;
+      default: return comparison >= 0;
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (isFormulaError(a)) return a;
+  if (isFormulaError(b)) return b;
+
+  switch (operator) {
+    case '+':
+      return fromDecimal(new Decimal(a).plus(b));
+    case '-':
+      return fromDecimal(new Decimal(a).minus(b));
+    case '*':
+      return fromDecimal(new Decimal(a).times(b));
+    case '/':
+      return b === 0 ? new FormulaError('#DIV/0!') : fromDecimal(new Decimal(a).dividedBy(b));
+    default:
+      if (a === 0 && b === 0) return new FormulaError('#NUM!');
+      if (a === 0 && b < 0) return new FormulaError('#DIV/0!');
+      return fromDecimal(new Decimal(a).pow(b));
+  }
+}
+
+function mapValues(value: any, apply: (value: any) => any): any {
+  return isMatrix(value) ? value.map(row => row.map(apply)) : apply(value);
+}
+
+export class FormulaEngine {
+  private functions: FunctionRegistry;
+  private formulas = new Map<string, FormulaNode>();
+
+  constructor(functions: FunctionRegistry = excelFunctions) {
+    this.functions = { ...functions };
+  }
+
+  registerFunction(name: string, fn: ExcelFunction): void {
+    this.functions[name.toUpperCase()] = fn;
+  }
+
+  hasFunction(name: string): boolean {
+    return name.toUpperCase() in this.functions;
+  }
+
+  /**
+   * Evaluate a formula string or parsed formula on the context's current
+   * sheet. Errors come back as FormulaError values, ranges as 2D arrays.
+   */
+  evaluate(formula: string | FormulaNode, context: EvaluationContext): any {
+    let ast: FormulaNode;
+    try {
+      ast = typeof formula === 'string' ? this.getFormula(formula) : formula;
+    } catch {
+      return new FormulaError('#NAME?');
+    }
+    // Results carry Excel's 15 significant digits, so 1/3*3 is 1
+    return mapValues(this.evaluateNode(ast, context), value =>
+      typeof value === 'number' && Number.isFinite(value)
+        ? new Decimal(value).toSignificantDigits(15).toNumber()
+        : value
+    );
+  }
+
+  /**
+   * Recalculate the formula in one cell and store its value; cells without
+   * a formula are returned as they are
+   */
+  evaluateCell(sheetName: string, address: string, context: EvaluationContext): CellValue {
+    const sheet = context.sheets.get(sheetName);
+    if (!sheet) {
+      throw new Error(`Sheet ${sheetName} not found`);
+    }
+    const cell = sheet.cells.get(address);
+    if (!cell?.formula) {
+      return cell || { value: undefined };
+    }
+
+    const result = this.evaluate(cell.formula, { ...context, currentSheet: sheetName });
+    // A formula returning a range shows its top-left value
+    const value = isMatrix(result) ? result[0]?.[0] : result;
+
+    if (isFormulaError(value)) {
+      cell.value = value.code;
+      cell.error = value.code;
+    } else {
+      cell.value = value ?? 0;
+      delete cell.error;
+    }
+    return cell;
+  }
+
+  private getFormula(formula: string): FormulaNode {
+    let ast = this.formulas.get(formula);
+    if (!ast) {
+      ast = formulaParser.parseFormula(formula);
+      this.formulas.set(formula, ast);
+    }
+    return ast;
+  }
+
+  private evaluateNode(node: FormulaNode, context: EvaluationContext): any {
+    switch (node.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return node.value;
+      case 'error':
+        return new FormulaError(node.value);
+      case 'missing':
+        return undefined;
+      case 'cell':
+        return this.getCellValue(node.reference, context);
+      case 'range':
+        return this.getRangeValues(node.start, node.end, context);
+      case 'name':
+        return this.getNamedValue(node.name, node.sheet, context);
+      case 'array':
+        return node.rows.map(row => row.map(value => this.evaluateNode(value, context)));
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, context);
+        return node.operator === '+'
+          ? operand
+          : mapValues(operand, value => applyOperator('-', 0, value));
+      }
+      case 'percent':
+        return mapValues(this.evaluateNode(node.operand, context), value => applyOperator('/', value, 100));
+      case 'binary':
+        return broadcast(
+          this.evaluateNode(node.left, context),
+          this.evaluateNode(node.right, context),
+          (left, right) => applyOperator(node.operator, left, right)
+        );
+      case 'function': {
+        const fn = this.functions[node.name];
+        if (!fn) {
+          return new FormulaError('#NAME?');
+        }
+        const args = node.args.map(arg => this.evaluateNode(arg, context));
+        return fn(context, ...args);
+      }
+    }
+  }
+
+  private getCellValue(reference: CellReference, context: EvaluationContext): any {
+    const sheet = context.sheets.get(reference.sheet || context.currentSheet);
+    if (!sheet) {
+      return new FormulaError('#REF!');
+    }
+    const cell = sheet.cells.get(formatCellAddress(reference));
+    if (!cell) {
+      return undefined;
+    }
+    return cell.error ? new FormulaError(cell.error as FormulaError['code']) : cell.value;
+  }
+
+  /**
+   * Values of a range, row-major; whole rows and columns stop at the last
+   * used row and column of the sheet
+   */
+  private getRangeValues(start: CellReference, end: CellReference, context: EvaluationContext): any {
+    const sheetName = start.sheet || context.currentSheet;
+    const sheet = context.sheets.get(sheetName);
+    if (!sheet) {
+      return new FormulaError('#REF!');
+    }
+
+    const firstRow = Math.min(start.row, end.row);
+    const lastRow = Math.min(Math.max(start.row, end.row), Math.max(sheet.lastRow, firstRow));
+    const firstColumn = Math.min(columnToIndex(start.column), columnToIndex(end.column));
+    const lastColumn = Math.min(
+      Math.max(columnToIndex(start.column), columnToIndex(end.column)),
+      Math.max(sheet.lastColumn, firstColumn)
+    );
+
+    const rows: Matrix = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      const values: any[] = [];
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        values.push(this.getCellValue({ sheet: sheetName, column: indexToColumn(column), row }, context));
+      }
+      rows.push(values);
+    }
+    return rows;
+  }
+
+  /**
+   * Named ranges hold one cell, or the first and last cells of a range
+   */
+  private getNamedValue(name: string, sheet: string | undefined, context: EvaluationContext): any {
+    const target = resolveNamedRange(context, name, sheet || context.currentSheet);
+    if (!target) {
+      return new FormulaError('#NAME?');
+    }
+    if (!Array.isArray(target)) {
+      return this.getCellValue(target, context);
+    }
+    if (target.length === 1) {
+      return this.getCellValue(target[0], context);
+    }
+    return this.getRangeValues(target[0], target[target.length - 1], context);
+  }
+}
+
+export const formulaEngine = new FormulaEngine();
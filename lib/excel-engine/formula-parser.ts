@@ -0,0 +1,563 @@
+/**
+ * Formula Parser
+ * Tokenizes Excel formula strings and parses them into a typed AST with
+ * Excel operator precedence, collecting the cells, ranges and names each
+ * formula depends on
+ */
+
+import type {
+  BinaryOperator,
+  CellReference,
+  ExcelError,
+  FormulaNode,
+  FormulaParseResult
+} from './types';
+
+export const MAX_ROW = 1048576;
+export const MAX_COLUMN = 16384; // XFD
+
+export const excelErrors: ExcelError[] = [
+  '#NULL!',
+  '#DIV/0!',
+  '#VALUE!',
+  '#REF!',
+  '#NAME?',
+  '#NUM!',
+  '#N/A',
+  '#GETTING_DATA',
+  '#SPILL!',
+  '#CALC!'
+];
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'boolean'; value: boolean; position: number }
+  | { type: 'error'; value: ExcelError; position: number }
+  | { type: 'reference'; node: FormulaNode; position: number }
+  | { type: 'function'; name: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'punctuation'; value: '(' | ')' | '{' | '}' | ',' | ';'; position: number }
+  | { type: 'end'; position: number };
+
+export interface ParseOptions {
+  sheet?: string; // sheet the formula lives on; qualifies unqualified dependencies
+}
+
+// Binding power of binary operators, lowest first. Negation and percent
+// bind tighter than all of them, so -2^2 is 4 as in Excel.
+const precedence: Record<BinaryOperator, number> = {
+  '=': 1,
+  '<>': 1,
+  '<': 1,
+  '<=': 1,
+  '>': 1,
+  '>=': 1,
+  '&': 2,
+  '+': 3,
+  '-': 3,
+  '*': 4,
+  '/': 4,
+  '^': 5
+};
+
+const sheetPattern = /(?:'((?:[^']|'')+)'|([A-Za-z_\u00C0-\uFFFF][\w.\u00C0-\uFFFF]*))!/y;
+const cellPattern = /(\$?)([A-Za-z]{1,3})(\$?)(\d+)(?![\w.(])/y;
+const columnRangePattern = /(\$?)([A-Za-z]{1,3}):(\$?)([A-Za-z]{1,3})(?![\w.(])/y;
+const rowRangePattern = /(\$?)(\d+):(\$?)(\d+)(?![\w.(])/y;
+const namePattern = /[A-Za-z_\\\u00C0-\uFFFF][\w.\u00C0-\uFFFF]*/y;
+const numberPattern = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const operatorPattern = /<>|<=|>=|[-+*/^&=<>%]/y;
+
+export function columnToIndex(column: string): number {
+  return column
+    .toUpperCase()
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0);
+}
+
+export function indexToColumn(index: number): string {
+  let column = '';
+  for (let remaining = index; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    column = String.fromCharCode(65 + ((remaining - 1) % 26)) + column;
+  }
+  return column;
+}
+
+/**
+ * Cell address without sheet or $ markers, e.g. B12
+ */
+export function formatCellAddress(reference: CellReference): string {
+  return `${reference.column}${reference.row}`;
+}
+
+/**
+ * Dependency id for a cell, sheet!cell as used by the dependency graph
+ */
+export function formatReference(reference: CellReference, sheet?: string): string {
+  const qualifier = reference.sheet || sheet;
+  return qualifier ? `${qualifier}!${formatCellAddress(reference)}` : formatCellAddress(reference);
+}
+
+function match(pattern: RegExp, input: string, position: number): RegExpExecArray | null {
+  pattern.lastIndex = position;
+  return pattern.exec(input);
+}
+
+function isValidCell(column: string, row: number): boolean {
+  return columnToIndex(column) <= MAX_COLUMN && row >= 1 && row <= MAX_ROW;
+}
+
+function toCellReference(
+  sheet: string | undefined,
+  columnAbsolute: string,
+  column: string,
+  rowAbsolute: string,
+  row: number
+): CellReference {
+  return {
+    ...(sheet ? { sheet } : {}),
+    column: column.toUpperCase(),
+    row,
+    absolute: { column: columnAbsolute === '$', row: rowAbsolute === '$' }
+  };
+}
+
+/**
+ * Parse a single cell address such as Sheet1!$A$1 or 'Job Costs'!B4
+ */
+export function parseCellReference(text: string): CellReference {
+  const sheet = match(sheetPattern, text, 0);
+  const start = sheet ? sheet[0].length : 0;
+  const cell = match(cellPattern, text, start);
+  if (!cell || start + cell[0].length !== text.length || !isValidCell(cell[2], Number(cell[4]))) {
+    throw new Error(`Invalid cell reference: ${text}`);
+  }
+  const sheetName = sheet ? sheet[1]?.replace(/''/g, "'") ?? sheet[2] : undefined;
+  return toCellReference(sheetName, cell[1], cell[2], cell[3], Number(cell[4]));
+}
+
+class Tokenizer {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      if (this.position >= this.input.length) {
+        tokens.push({ type: 'end', position: this.position });
+        return tokens;
+      }
+      tokens.push(this.next());
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.input[this.position] || '')) {
+      this.position++;
+    }
+  }
+
+  private next(): Token {
+    const position = this.position;
+    const char = this.input[position];
+
+    if (char === '"') {
+      return this.readString();
+    }
+    if (char === '#') {
+      const error = excelErrors.find(candidate =>
+        this.input.substr(position, candidate.length).toUpperCase() === candidate
+      );
+      if (!error) {
+        throw new Error(`Unknown error literal at position ${position}`);
+      }
+      this.position += error.length;
+      return { type: 'error', value: error, position };
+    }
+    if ('(){},;'.includes(char)) {
+      this.position++;
+      return { type: 'punctuation', value: char as '(' | ')' | '{' | '}' | ',' | ';', position };
+    }
+
+    const reference = this.readReference();
+    if (reference) {
+      return reference;
+    }
+
+    const number = match(numberPattern, this.input, position);
+    if (number) {
+      this.position += number[0].length;
+      return { type: 'number', value: Number(number[0]), position };
+    }
+
+    const operator = match(operatorPattern, this.input, position);
+    if (operator) {
+      this.position += operator[0].length;
+      return { type: 'operator', value: operator[0], position };
+    }
+
+    throw new Error(`Unexpected "${char}" at position ${position}`);
+  }
+
+  private readString(): Token {
+    const position = this.position;
+    let value = '';
+    this.position++;
+    for (;;) {
+      if (this.position >= this.input.length) {
+        throw new Error(`Unterminated string starting at position ${position}`);
+      }
+      const char = this.input[this.position++];
+      if (char === '"') {
+        if (this.input[this.position] !== '"') {
+          return { type: 'string', value, position };
+        }
+        this.position++;
+      }
+      value += char;
+    }
+  }
+
+  /**
+   * Cells, ranges, whole columns and rows, names, booleans and function
+   * names, optionally qualified by a sheet
+   */
+  private readReference(): Token | null {
+    const position = this.position;
+    const sheetMatch = match(sheetPattern, this.input, position);
+    const sheet = sheetMatch ? sheetMatch[1]?.replace(/''/g, "'") ?? sheetMatch[2] : undefined;
+    const start = sheetMatch ? position + sheetMatch[0].length : position;
+
+    const reference = (node: FormulaNode, end: number): Token => {
+      this.position = end;
+      return { type: 'reference', node, position };
+    };
+
+    if (sheetMatch && this.input.substr(start, 5).toUpperCase() === '#REF!') {
+      this.position = start + 5;
+      return { type: 'error', value: '#REF!', position };
+    }
+
+    const columns = match(columnRangePattern, this.input, start);
+    if (columns && columnToIndex(columns[2]) <= MAX_COLUMN && columnToIndex(columns[4]) <= MAX_COLUMN) {
+      return reference({
+        type: 'range',
+        start: toCellReference(sheet, columns[1], columns[2], '$', 1),
+        end: toCellReference(sheet, columns[3], columns[4], '$', MAX_ROW)
+      }, start + columns[0].length);
+    }
+
+    const rows = match(rowRangePattern, this.input, start);
+    if (rows && Number(rows[2]) >= 1 && Number(rows[4]) <= MAX_ROW) {
+      return reference({
+        type: 'range',
+        start: toCellReference(sheet, '$', 'A', rows[1], Number(rows[2])),
+        end: toCellReference(sheet, '$', indexToColumn(MAX_COLUMN), rows[3], Number(rows[4]))
+      }, start + rows[0].length);
+    }
+
+    const cell = match(cellPattern, this.input, start);
+    if (cell && isValidCell(cell[2], Number(cell[4]))) {
+      const first = toCellReference(sheet, cell[1], cell[2], cell[3], Number(cell[4]));
+      let end = start + cell[0].length;
+
+      // A1:B2, also written Sheet1!A1:Sheet1!B2
+      if (this.input[end] === ':') {
+        const endSheet = match(sheetPattern, this.input, end + 1);
+        const endStart = endSheet ? end + 1 + endSheet[0].length : end + 1;
+        const last = match(cellPattern, this.input, endStart);
+        if (last && isValidCell(last[2], Number(last[4]))) {
+          end = endStart + last[0].length;
+          return reference({
+            type: 'range',
+            start: first,
+            end: toCellReference(sheet, last[1], last[2], last[3], Number(last[4]))
+          }, end);
+        }
+      }
+      return reference({ type: 'cell', reference: first }, end);
+    }
+
+    const name = match(namePattern, this.input, start);
+    if (!name) {
+      if (sheetMatch) {
+        throw new Error(`Expected a reference after ${sheetMatch[0]} at position ${position}`);
+      }
+      return null;
+    }
+
+    const end = start + name[0].length;
+    this.position = end;
+    const upper = name[0].toUpperCase();
+
+    if (!sheetMatch && this.input[end] === '(') {
+      // Newer functions are stored with a compatibility prefix, e.g. _xlfn.IFS
+      return { type: 'function', name: upper.replace(/^(_XL(FN|WS)\.)+/, ''), position };
+    }
+    if (!sheetMatch && (upper === 'TRUE' || upper === 'FALSE')) {
+      return { type: 'boolean', value: upper === 'TRUE', position };
+    }
+    return reference({ type: 'name', name: name[0], ...(sheet ? { sheet } : {}) }, end);
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseExpression(0);
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new Error(`Unexpected ${describe(token)} at position ${token.position}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(value: string): void {
+    const token = this.advance();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new Error(`Expected "${value}" but found ${describe(token)} at position ${token.position}`);
+    }
+  }
+
+  private parseExpression(minimum: number): FormulaNode {
+    let left = this.parsePostfix();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !(token.value in precedence)) {
+        return left;
+      }
+      const operator = token.value as BinaryOperator;
+      const power = precedence[operator];
+      if (power <= minimum) {
+        return left;
+      }
+      this.advance();
+      // All binary operators are left-associative, including ^
+      const right = this.parseExpression(power);
+      left = { type: 'binary', operator, left, right };
+    }
+  }
+
+  private parsePostfix(): FormulaNode {
+    let node = this.parsePrefix();
+    while (this.peek().type === 'operator' && (this.peek() as { value: string }).value === '%') {
+      this.advance();
+      node = { type: 'percent', operand: node };
+    }
+    return node;
+  }
+
+  private parsePrefix(): FormulaNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.advance();
+      return { type: 'unary', operator: token.value, operand: this.parsePrefix() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.advance();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+      case 'error':
+        return { type: token.type, value: token.value } as FormulaNode;
+      case 'reference':
+        return token.node;
+      case 'function':
+        return this.parseFunction(token.name);
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseExpression(0);
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '{') {
+          return this.parseArray();
+        }
+        break;
+    }
+    throw new Error(`Unexpected ${describe(token)} at position ${token.position}`);
+  }
+
+  private parseFunction(name: string): FormulaNode {
+    this.expect('(');
+    const args: FormulaNode[] = [];
+    if (this.isPunctuation(')')) {
+      this.advance();
+      return { type: 'function', name, args };
+    }
+
+    for (;;) {
+      args.push(this.isPunctuation(',') || this.isPunctuation(')') ? { type: 'missing' } : this.parseExpression(0));
+      const token = this.advance();
+      if (token.type === 'punctuation' && token.value === ')') {
+        return { type: 'function', name, args };
+      }
+      if (token.type !== 'punctuation' || token.value !== ',') {
+        throw new Error(`Expected "," or ")" in ${name} but found ${describe(token)} at position ${token.position}`);
+      }
+    }
+  }
+
+  /**
+   * Array constants: columns separated by commas, rows by semicolons
+   */
+  private parseArray(): FormulaNode {
+    const rows: FormulaNode[][] = [[]];
+    for (;;) {
+      rows[rows.length - 1].push(this.parseArrayConstant());
+      const token = this.advance();
+      if (token.type === 'punctuation' && token.value === '}') {
+        break;
+      }
+      if (token.type === 'punctuation' && token.value === ';') {
+        rows.push([]);
+      } else if (token.type !== 'punctuation' || token.value !== ',') {
+        throw new Error(`Unexpected ${describe(token)} in array at position ${token.position}`);
+      }
+    }
+
+    if (rows.some(row => row.length !== rows[0].length)) {
+      throw new Error('Array constant rows must have the same number of columns');
+    }
+    return { type: 'array', rows };
+  }
+
+  private parseArrayConstant(): FormulaNode {
+    const token = this.advance();
+    if (token.type === 'operator' && token.value === '-') {
+      const number = this.advance();
+      if (number.type !== 'number') {
+        throw new Error(`Expected a number in array at position ${number.position}`);
+      }
+      return { type: 'number', value: -number.value };
+    }
+    if (token.type === 'number' || token.type === 'string' || token.type === 'boolean' || token.type === 'error') {
+      return { type: token.type, value: token.value } as FormulaNode;
+    }
+    throw new Error(`Array constants may only contain values, found ${describe(token)} at position ${token.position}`);
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'end of formula';
+    case 'reference':
+      return 'reference';
+    case 'function':
+      return `function ${token.name}`;
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+/**
+ * Cells, ranges and names a formula reads, in order of appearance.
+ * Cells and ranges are sheet-qualified when the sheet is known.
+ */
+export function getDependencies(ast: FormulaNode, sheet?: string): string[] {
+  const dependencies = new Set<string>();
+  const visit = (node: FormulaNode) => {
+    switch (node.type) {
+      case 'cell':
+        dependencies.add(formatReference(node.reference, sheet));
+        break;
+      case 'range':
+        dependencies.add(`${formatReference(node.start, sheet)}:${formatCellAddress(node.end)}`);
+        break;
+      case 'name':
+        dependencies.add(node.sheet ? `${node.sheet}!${node.name}` : node.name);
+        break;
+      case 'function':
+        node.args.forEach(visit);
+        break;
+      case 'unary':
+      case 'percent':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+    }
+  };
+  visit(ast);
+  return Array.from(dependencies);
+}
+
+/**
+ * Constant cell contents: numbers, booleans and error literals are typed,
+ * anything else stays text
+ */
+function parseConstant(input: string): any {
+  const trimmed = input.trim();
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    return upper === 'TRUE';
+  }
+  return input;
+}
+
+export class FormulaParser {
+  /**
+   * Parse a formula into its AST; throws on syntax errors
+   */
+  parseFormula(formula: string): FormulaNode {
+    const body = formula.startsWith('=') ? formula.slice(1) : formula;
+    return new Parser(new Tokenizer(body).tokenize()).parse();
+  }
+
+  /**
+   * Parse cell contents. Formulas start with "=" and come back with their
+   * AST and dependencies; anything else is a constant value.
+   */
+  parse(input: string, options: ParseOptions = {}): FormulaParseResult {
+    if (!input.startsWith('=')) {
+      return { type: 'value', value: parseConstant(input) };
+    }
+
+    try {
+      const ast = this.parseFormula(input);
+      return {
+        type: 'formula',
+        formula: input,
+        ast,
+        dependencies: getDependencies(ast, options.sheet)
+      };
+    } catch (error) {
+      return {
+        type: 'error',
+        formula: input,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+}
+
+export const formulaParser = new FormulaParser();
@@ -9,4 +9,5 @@ export * from './formula-parser';
 export * from './excel-functions';
 export * from './types';
 export * from './sheet-manager';
-export * from './dependency-graph';
\ No newline at end of file
+export * from './dependency-graph';
+export * from './workbook-importer';
\ No newline at end of file
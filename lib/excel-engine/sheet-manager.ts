@@ -0,0 +1,117 @@
+/**
+ * Sheet Manager
+ * Holds the loaded estimating workbook: imports it from .xlsx, reads cells,
+ * writes inputs and recomputes only the formulas that depend on them
+ */
+
+import { DependencyGraph, parseCellId, toCellId, type RecalculationResult } from './dependency-graph';
+import { createEvaluationContext, formulaEngine, type FormulaEngine } from './formula-engine';
+import { analyzeWorkbook, importWorkbook, type ImportedWorkbook } from './workbook-importer';
+import type { CalculationOptions, CellValue, EvaluationContext, ExcelAnalysis, Sheet } from './types';
+
+export interface LoadWorkbookOptions extends CalculationOptions {
+  fileName?: string;
+  recalculate?: boolean; // recompute every formula instead of trusting Excel's cached values
+}
+
+export class SheetManager {
+  private workbook?: ImportedWorkbook;
+  private context?: EvaluationContext;
+  private analysis?: ExcelAnalysis;
+  private graph: DependencyGraph;
+
+  constructor(engine: FormulaEngine = formulaEngine) {
+    this.graph = new DependencyGraph(engine);
+  }
+
+  /**
+   * Load (or reload) the workbook. Excel's cached values are kept as
+   * current unless a full recalculation is asked for.
+   */
+  async load(source: string | Buffer | ArrayBuffer, options: LoadWorkbookOptions = {}): Promise<ExcelAnalysis> {
+    const workbook = await importWorkbook(source, options.fileName);
+    const [firstSheet] = Array.from(workbook.sheets.keys());
+    if (!firstSheet) {
+      throw new Error(`Workbook ${workbook.fileName} has no sheets`);
+    }
+
+    this.workbook = workbook;
+    this.context = createEvaluationContext(workbook.sheets, firstSheet, workbook.names, options);
+    this.graph.build(this.context, Boolean(options.recalculate));
+    this.analysis = analyzeWorkbook(workbook);
+
+    if (options.recalculate) {
+      this.graph.recalculate(this.context);
+    }
+    return this.analysis;
+  }
+
+  get isLoaded(): boolean {
+    return this.workbook !== undefined;
+  }
+
+  getAnalysis(): ExcelAnalysis {
+    if (!this.analysis) {
+      throw new Error('No workbook loaded');
+    }
+    return this.analysis;
+  }
+
+  getSheetNames(): string[] {
+    return Array.from(this.getContext().sheets.keys());
+  }
+
+  getSheet(name: string): Sheet {
+    const sheet = this.getContext().sheets.get(name);
+    if (!sheet) {
+      throw new Error(`Sheet ${name} not found`);
+    }
+    return sheet;
+  }
+
+  /**
+   * Cell by sheet!address id, e.g. "Exterior!B12"
+   */
+  getCell(id: string): CellValue | undefined {
+    const { sheet, address } = parseCellId(id);
+    return this.getSheet(sheet).cells.get(address);
+  }
+
+  getValue(id: string): any {
+    const cell = this.getCell(id);
+    return cell?.error ? cell.error : cell?.value;
+  }
+
+  /**
+   * Write input cells, e.g. measurements, and recompute what depends on them
+   */
+  setValues(values: Record<string, any>): RecalculationResult {
+    return this.graph.setValues(this.getContext(), values);
+  }
+
+  /**
+   * Replace the formula in a cell and recompute it and its dependents
+   */
+  setFormula(sheet: string, address: string, formula: string | undefined): RecalculationResult {
+    const context = this.getContext();
+    const id = toCellId(sheet, address);
+    const cells = this.getSheet(sheet).cells;
+    const cell = cells.get(address);
+    cells.set(address, { value: cell?.value, ...cell, formula });
+    this.graph.setFormula(id, formula, context);
+    return this.graph.recalculate(context, this.graph.markDirty([id]));
+  }
+
+  recalculate(): RecalculationResult {
+    return this.graph.recalculate(this.getContext());
+  }
+
+  private getContext(): EvaluationContext {
+    if (!this.context) {
+      throw new Error('No workbook loaded');
+    }
+    return this.context;
+  }
+}
+
+export const sheetManager = new SheetManager();
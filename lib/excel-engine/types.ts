@@ -59,6 +59,7 @@ export interface CellValue {
   formula?: string;
   error?: string;
   formatted?: string;
+  numberFormat?: string; // Excel format code, e.g. "$#,##0.00"
 }
 
 export interface CellReference {
@@ -81,7 +82,7 @@ export interface Sheet {
 export interface EvaluationContext {
   currentSheet: string;
   sheets: Map<string, Sheet>;
-  namedRanges: Map<string, CellReference | CellReference[]>;
+  namedRanges: Map<string, CellReference | CellReference[]>; // upper-cased; sheet-scoped names as SHEET!NAME
   iteration: number;
   maxIterations: number;
   epsilon: number;
@@ -114,10 +115,52 @@ export interface CalculationOptions {
   calcMode?: 'automatic' | 'manual';
 }
 
+export type ExcelError =
+  | '#NULL!'
+  | '#DIV/0!'
+  | '#VALUE!'
+  | '#REF!'
+  | '#NAME?'
+  | '#NUM!'
+  | '#N/A'
+  | '#GETTING_DATA'
+  | '#SPILL!'
+  | '#CALC!';
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '^'
+  | '&'
+  | '='
+  | '<>'
+  | '<'
+  | '<='
+  | '>'
+  | '>=';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; value: ExcelError }
+  | { type: 'cell'; reference: CellReference }
+  | { type: 'range'; start: CellReference; end: CellReference }
+  | { type: 'name'; name: string; sheet?: string }
+  | { type: 'function'; name: string; args: FormulaNode[] }
+  | { type: 'unary'; operator: '+' | '-'; operand: FormulaNode }
+  | { type: 'percent'; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'array'; rows: FormulaNode[][] }
+  | { type: 'missing' }; // an omitted argument, e.g. IF(A1,,0)
+
 export interface FormulaParseResult {
   type: 'value' | 'formula' | 'error';
   value?: any;
   formula?: string;
+  ast?: FormulaNode;
   dependencies?: string[];
   error?: string;
 }
@@ -0,0 +1,368 @@
+/**
+ * Workbook Importer
+ * Loads an .xlsx workbook into the engine's Sheet and NamedRange structures,
+ * keeping formulas, cached values, number formats and defined names, and
+ * analyzes its formulas by category and dependency
+ */
+
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import ExcelJS from 'exceljs';
+import { XMLParser } from 'fast-xml-parser';
+import JSZip from 'jszip';
+import { getFunctionCategory } from './excel-functions';
+import { formulaParser } from './formula-parser';
+import type {
+  CellReference,
+  CellValue,
+  ExcelAnalysis,
+  ExcelFormula,
+  FormulaCategory,
+  FormulaNode,
+  NamedRange,
+  Sheet
+} from './types';
+
+export interface FormulaImportError {
+  sheet: string;
+  cell: string; // the defined name, for names that do not point at cells
+  formula: string;
+  error: string;
+}
+
+export interface ImportedFormula extends ExcelFormula {
+  nesting: number; // function nesting depth
+}
+
+export interface ImportedWorkbook {
+  fileName: string;
+  sheets: Map<string, Sheet>;
+  namedRanges: Record<string, NamedRange>; // sheet-scoped names keyed sheet!name
+  names: Map<string, CellReference | CellReference[]>; // named ranges as the evaluation context holds them
+  formulas: ImportedFormula[];
+  parseErrors: FormulaImportError[]; // formulas and names the parser could not read
+}
+
+// A formula counts as complex at this function nesting depth, dependency
+// count or length
+export const COMPLEX_FORMULA_THRESHOLDS = {
+  nesting: 3,
+  dependencies: 10,
+  length: 150
+};
+
+const categories: FormulaCategory[] = [
+  'Financial',
+  'Lookup',
+  'Statistical',
+  'Math',
+  'Logical',
+  'Text',
+  'DateTime',
+  'Arithmetic',
+  'Other'
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const UNIX_EPOCH_SERIAL = 25569;
+
+/**
+ * Cell contents as the engine stores them. exceljs builds dates from the
+ * serial in UTC, so they convert back without a timezone shift.
+ */
+function toEngineValue(value: any): Pick<CellValue, 'value' | 'error'> {
+  if (value === null || value === undefined) {
+    return { value: undefined };
+  }
+  if (value instanceof Date) {
+    return { value: value.getTime() / MS_PER_DAY + UNIX_EPOCH_SERIAL };
+  }
+  if (typeof value === 'object') {
+    if ('error' in value) return { value: value.error, error: value.error };
+    if ('richText' in value) return { value: value.richText.map((run: { text: string }) => run.text).join('') };
+    if ('text' in value) return { value: value.text };
+    if ('result' in value) return toEngineValue(value.result);
+    return { value: undefined };
+  }
+  return { value };
+}
+
+function getNestingDepth(node: FormulaNode): number {
+  switch (node.type) {
+    case 'function':
+      return 1 + Math.max(0, ...node.args.map(getNestingDepth));
+    case 'unary':
+    case 'percent':
+      return getNestingDepth(node.operand);
+    case 'binary':
+      return Math.max(getNestingDepth(node.left), getNestingDepth(node.right));
+    default:
+      return 0;
+  }
+}
+
+function getFunctionNames(node: FormulaNode, names: string[] = []): string[] {
+  switch (node.type) {
+    case 'function':
+      names.push(node.name);
+      node.args.forEach(arg => getFunctionNames(arg, names));
+      break;
+    case 'unary':
+    case 'percent':
+      getFunctionNames(node.operand, names);
+      break;
+    case 'binary':
+      getFunctionNames(node.left, names);
+      getFunctionNames(node.right, names);
+      break;
+  }
+  return names;
+}
+
+function hasOperators(node: FormulaNode): boolean {
+  switch (node.type) {
+    case 'binary':
+    case 'percent':
+      return true;
+    case 'unary':
+      return hasOperators(node.operand);
+    case 'function':
+      return node.args.some(hasOperators);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Category of the highest-ranked function a formula calls, in the order
+ * of FormulaCategory; formulas of operators alone are Arithmetic
+ */
+export function categorizeFormula(ast: FormulaNode): FormulaCategory {
+  const found = new Set(
+    getFunctionNames(ast).map(name => getFunctionCategory(name) || 'Other')
+  );
+  if (found.size === 0) {
+    return hasOperators(ast) ? 'Arithmetic' : 'Other';
+  }
+  return categories.find(category => found.has(category)) || 'Other';
+}
+
+export function isComplexFormula(formula: ExcelFormula, nesting = 0): boolean {
+  return formula.formula.length >= COMPLEX_FORMULA_THRESHOLDS.length ||
+    formula.dependencies.length >= COMPLEX_FORMULA_THRESHOLDS.dependencies ||
+    nesting >= COMPLEX_FORMULA_THRESHOLDS.nesting;
+}
+
+function toNameTarget(namedRange: NamedRange): CellReference | CellReference[] {
+  if (namedRange.destinations.length > 1) {
+    throw new Error(`Name ${namedRange.name} covers ${namedRange.destinations.length} areas; only single-area names are supported`);
+  }
+  const destination = namedRange.destinations[0];
+  if (!destination) {
+    throw new Error(`Name ${namedRange.name} does not point at cells: ${namedRange.value}`);
+  }
+
+  // Parsed as a formula so whole columns and rows resolve too
+  const node = formulaParser.parseFormula(`=${destination.range}`);
+  if (node.type === 'cell') {
+    return { ...node.reference, sheet: destination.sheet };
+  }
+  if (node.type === 'range') {
+    return [node.start, node.end].map(reference => ({ ...reference, sheet: destination.sheet }));
+  }
+  throw new Error(`Name ${namedRange.name} does not point at cells: ${namedRange.value}`);
+}
+
+/**
+ * Defined names as the evaluation context holds them: one cell, or the
+ * first and last cells of a range. Names that do not point at cells, such
+ * as constants or deleted ranges (#REF!), and names over several areas are
+ * left out and reported.
+ */
+export function toEvaluationNames(
+  namedRanges: Record<string, NamedRange>,
+  parseErrors: FormulaImportError[] = []
+): Map<string, CellReference | CellReference[]> {
+  const names = new Map<string, CellReference | CellReference[]>();
+  Object.entries(namedRanges).forEach(([key, namedRange]) => {
+    try {
+      names.set(key, toNameTarget(namedRange));
+    } catch (error) {
+      parseErrors.push({
+        sheet: namedRange.scope || namedRange.destinations[0]?.sheet || '',
+        cell: namedRange.name,
+        formula: `=${namedRange.value}`,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  return names;
+}
+
+// Areas of a name separated by commas outside quoted sheet names
+function splitAreas(text: string): string[] {
+  return text.match(/(?:'(?:[^']|'')*'|[^,])+/g) || [];
+}
+
+const workbookXmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: name => name === 'sheet' || name === 'definedName'
+});
+
+interface WorkbookPart {
+  workbook?: {
+    sheets?: { sheet?: Array<{ name: string }> };
+    definedNames?: { definedName?: Array<{ name: string; localSheetId?: string; '#text'?: string }> };
+  };
+}
+
+/**
+ * Defined names from the xl/workbook.xml part, with the sheet each
+ * sheet-scoped name belongs to. exceljs merges names by name and drops
+ * their scope, constants and #REF! targets, so the part is parsed directly.
+ * Print areas and other built-in names are skipped.
+ */
+async function readNamedRanges(data: ArrayBuffer): Promise<Record<string, NamedRange>> {
+  const zip = await JSZip.loadAsync(data);
+  const xml = await zip.file('xl/workbook.xml')?.async('string');
+  if (!xml) {
+    throw new Error('Workbook has no xl/workbook.xml part');
+  }
+
+  const { workbook }: WorkbookPart = workbookXmlParser.parse(xml);
+  const sheetNames = (workbook?.sheets?.sheet || []).map(sheet => sheet.name);
+  const namedRanges: Record<string, NamedRange> = {};
+  (workbook?.definedNames?.definedName || []).forEach(definedName => {
+    if (definedName.name.startsWith('_xlnm.')) return;
+
+    const value = definedName['#text'] || '';
+    const scope = definedName.localSheetId === undefined ? undefined : sheetNames[Number(definedName.localSheetId)];
+    const destinations = splitAreas(value)
+      .map(area => /^(.*?)!(#REF!|[^!]*)$/.exec(area))
+      .filter((area): area is RegExpExecArray => area !== null)
+      .map(([, sheet, range]) => ({
+        sheet: sheet.replace(/^'(.*)'$/, '$1').replace(/''/g, "'"),
+        range
+      }));
+    const key = scope ? `${scope}!${definedName.name}` : definedName.name;
+    namedRanges[key] = { name: definedName.name, ...(scope ? { scope } : {}), destinations, value };
+  });
+  return namedRanges;
+}
+
+/**
+ * Read a workbook from a file path or the bytes of an .xlsx file
+ */
+export async function importWorkbook(
+  source: string | Buffer | ArrayBuffer,
+  fileName = typeof source === 'string' ? basename(source) : 'workbook.xlsx'
+): Promise<ImportedWorkbook> {
+  const bytes = typeof source === 'string' ? await readFile(source) : source;
+  // exceljs loads an ArrayBuffer; copying a Buffer gives one of its exact length
+  const data = bytes instanceof ArrayBuffer ? bytes : new Uint8Array(bytes).buffer;
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  const namedRanges = await readNamedRanges(data);
+  const parseErrors: FormulaImportError[] = [];
+  const imported: ImportedWorkbook = {
+    fileName,
+    sheets: new Map(),
+    namedRanges,
+    names: toEvaluationNames(namedRanges, parseErrors),
+    formulas: [],
+    parseErrors
+  };
+
+  workbook.eachSheet(worksheet => {
+    const sheet: Sheet = { name: worksheet.name, cells: new Map(), lastRow: 0, lastColumn: 0 };
+
+    worksheet.eachRow({ includeEmpty: false }, row => {
+      row.eachCell({ includeEmpty: false }, cell => {
+        if (cell.type === ExcelJS.ValueType.Merge) return;
+
+        const formula = cell.type === ExcelJS.ValueType.Formula && cell.formula ? `=${cell.formula}` : undefined;
+        const value: CellValue = {
+          ...toEngineValue(cell.value),
+          ...(formula ? { formula } : {}),
+          ...(cell.numFmt ? { numberFormat: cell.numFmt } : {})
+        };
+        if (value.value === undefined && !formula) return;
+
+        sheet.cells.set(cell.address, value);
+        sheet.lastRow = Math.max(sheet.lastRow, Number(cell.row));
+        sheet.lastColumn = Math.max(sheet.lastColumn, Number(cell.col));
+
+        if (formula) {
+          const parsed = formulaParser.parse(formula, { sheet: worksheet.name });
+          if (parsed.type === 'error') {
+            imported.parseErrors.push({ sheet: worksheet.name, cell: cell.address, formula, error: parsed.error || '' });
+          }
+          imported.formulas.push({
+            sheet: worksheet.name,
+            cell: cell.address,
+            formula,
+            category: parsed.ast ? categorizeFormula(parsed.ast) : 'Other',
+            dependencies: parsed.dependencies || [],
+            row: Number(cell.row),
+            column: Number(cell.col),
+            nesting: parsed.ast ? getNestingDepth(parsed.ast) : 0
+          });
+        }
+      });
+    });
+
+    imported.sheets.set(worksheet.name, sheet);
+  });
+
+  return imported;
+}
+
+/**
+ * Formula counts by sheet and category, the dependency map and the formulas
+ * complex enough to review by hand
+ */
+export function analyzeWorkbook(workbook: ImportedWorkbook): ExcelAnalysis {
+  const categorySummary = Object.fromEntries(categories.map(category => [category, 0])) as Record<FormulaCategory, number>;
+  const formulasBySheet: Record<string, ExcelFormula[]> = {};
+  const dependencies: Record<string, string[]> = {};
+  const complexFormulas: ExcelFormula[] = [];
+
+  workbook.sheets.forEach((_sheet, name) => {
+    formulasBySheet[name] = [];
+  });
+
+  workbook.formulas.forEach(formula => {
+    categorySummary[formula.category]++;
+    formulasBySheet[formula.sheet].push(formula);
+    dependencies[`${formula.sheet}!${formula.cell}`] = formula.dependencies;
+
+    if (isComplexFormula(formula, formula.nesting)) {
+      complexFormulas.push(formula);
+    }
+  });
+
+  return {
+    metadata: {
+      excel_file: workbook.fileName,
+      total_formulas: workbook.formulas.length,
+      sheet_count: workbook.sheets.size,
+      sheets_info: Object.fromEntries(
+        Array.from(workbook.sheets.values()).map(sheet => [sheet.name, {
+          max_row: sheet.lastRow,
+          max_column: sheet.lastColumn,
+          cell_count: sheet.cells.size
+        }])
+      ),
+      category_summary: categorySummary
+    },
+    named_ranges: workbook.namedRanges,
+    formulas_by_sheet: formulasBySheet,
+    complex_formulas: complexFormulas,
+    dependencies
+  };
+}
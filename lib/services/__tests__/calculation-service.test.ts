@@ -0,0 +1,111 @@
+import { recordPayment } from '@/lib/calculations/payment-schedule';
+import { calculationService, type EstimateData } from '../calculation-service';
+import { apiClient } from '../api-client';
+
+const estimateData: EstimateData = {
+  exteriorMeasurements: [
+    { name: 'Front', width: 40, height: 10, condition: 'fair', substrate: 'wood-siding' }
+  ],
+  interiorMeasurements: [
+    { name: 'Living Room', width: 15, length: 18, height: 9, doors: 1, windows: 2 }
+  ],
+  clientInfo: { zipCode: '98101' }
+};
+
+function sum(values: number[]): number {
+  return Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+}
+
+describe('CalculationService.calculateEstimate', () => {
+  it('returns line items that sum to the estimate cost', async () => {
+    const result = await calculationService.calculateEstimate(estimateData);
+
+    expect(result.lineItems.map(item => item.name)).toEqual(
+      expect.arrayContaining(['Front', 'Living Room'])
+    );
+    expect(sum(result.lineItems.map(item => item.cost.total))).toBe(result.totals.subtotal);
+    expect(sum(result.lineItems.map(item => item.cost.labor))).toBe(result.totals.laborCost);
+  });
+});
+
+describe('CalculationService schedules', () => {
+  it('schedules each tier with its own coats', async () => {
+    const result = await calculationService.calculateEstimate({ ...estimateData, schedule: { startDate: '2024-06-03' } });
+    const maxCoat = (schedule: { days: Array<{ phases: Array<{ coat?: number }> }> }) =>
+      Math.max(...schedule.days.flatMap(day => day.phases.map(phase => phase.coat || 0)));
+
+    expect(maxCoat(result.timeline.schedule)).toBe(2);
+    expect(maxCoat(result.pricingTiers.best.schedule)).toBe(3);
+  });
+
+  it('sizes the rough timeline with the scheduled paint crew', async () => {
+    const crewOf = async (paint: number) =>
+      (await calculationService.calculateEstimate({ ...estimateData, schedule: { crews: { paint } } })).timeline;
+    const [solo, crew] = await Promise.all([crewOf(1), crewOf(3)]);
+
+    expect(solo.schedule.phases.find(phase => phase.phase === 'paint')?.crewSize).toBe(1);
+    expect(solo.days).toBeGreaterThan(crew.days);
+  });
+});
+
+describe('CalculationService material list', () => {
+  it('returns the containers to buy for the estimate', async () => {
+    const result = await calculationService.calculateEstimate(estimateData);
+
+    expect(result.materialList.map(item => item.productLine)).toEqual(
+      expect.arrayContaining(['Emerald Exterior', 'Emerald Interior'])
+    );
+    result.materialList.forEach(item => {
+      expect(item.gallonsPurchased).toBeGreaterThanOrEqual(item.gallonsNeeded);
+    });
+  });
+});
+
+describe('CalculationService.saveEstimate', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('appends a version to an existing estimate', async () => {
+    const createVersion = jest.spyOn(apiClient, 'createEstimateVersion')
+      .mockResolvedValue({ success: true, data: { estimateId: 'EST-1', version: 3 } });
+    const updateEstimate = jest.spyOn(apiClient, 'updateEstimate');
+
+    await expect(calculationService.saveEstimate({ id: 'EST-1', ...estimateData }))
+      .resolves.toEqual({ success: true, id: 'EST-1', version: 3 });
+    expect(createVersion).toHaveBeenCalledWith('EST-1', expect.objectContaining({ inputs: expect.any(Object) }));
+    expect(updateEstimate).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed version save instead of succeeding', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(apiClient, 'createEstimateVersion').mockResolvedValue({ success: false, error: 'HTTP error! status: 500' });
+
+    await expect(calculationService.saveEstimate({ id: 'EST-1', ...estimateData }))
+      .resolves.toEqual({ success: false, id: 'EST-1' });
+  });
+});
+
+describe('CalculationService.finalizePrice', () => {
+  it('taxes the adjusted price and schedules payments on the taxed total', async () => {
+    const calculation = await calculationService.calculateEstimate(estimateData);
+    const price = calculation.pricingTiers.better.total + 250;
+    const final = calculationService.finalizePrice(estimateData, calculation, 'better', price);
+
+    expect(final.tax).toBeGreaterThan(0);
+    expect(final.total).toBeCloseTo(price + final.tax, 2);
+    expect(final.paymentSchedule.total).toBe(final.total);
+    expect(sum(final.paymentSchedule.milestones.map(milestone => milestone.amount))).toBe(final.total);
+  });
+
+  it('keeps payments already recorded', async () => {
+    const calculation = await calculationService.calculateEstimate(estimateData);
+    const deposit = calculation.paymentSchedule.milestones[0];
+    const paid = {
+      ...calculation,
+      paymentSchedule: recordPayment(calculation.paymentSchedule, deposit.id, { paidAt: '2024-06-01' })
+    };
+    const final = calculationService.finalizePrice(estimateData, paid, 'best', calculation.pricingTiers.best.total);
+
+    expect(final.paymentSchedule.template).toEqual(calculation.paymentSchedule.template);
+    expect(final.paymentSchedule.milestones[0]).toMatchObject({ amount: deposit.amount, status: 'paid' });
+  });
+});
@@ -0,0 +1,139 @@
+import { apiClient } from '../api-client';
+import { calculationService } from '../calculation-service';
+import {
+  applyMeasurementChanges,
+  changeOrderService,
+  getJobTotal,
+  type ChangeOrder
+} from '../change-orders';
+import { buildEstimateSnapshot, type EstimateVersion } from '../estimate-versions';
+
+const mockSalesforce = { isConnected: true, initialize: jest.fn(), updateOpportunityAmount: jest.fn() };
+jest.mock('@/lib/services/salesforce', () => ({ salesforceService: mockSalesforce }));
+
+const front = { name: 'Front', width: 40, height: 10, condition: 'fair', substrate: 'wood-siding' };
+const back = { name: 'Back', width: 30, height: 10, condition: 'fair', substrate: 'wood-siding' };
+
+async function acceptedVersion(): Promise<EstimateVersion> {
+  const inputs = { exteriorMeasurements: [front], clientInfo: { zipCode: '98101', opportunityId: 'OPP-1' } };
+  const calculations = await calculationService.calculateEstimate(inputs);
+  return {
+    ...buildEstimateSnapshot({ ...inputs, calculations: { ...calculations, finalPrice: 10000 } }),
+    estimateId: 'EST-1',
+    version: 2,
+    createdAt: '2024-06-01T00:00:00.000Z',
+    acceptedAt: '2024-06-02T00:00:00.000Z'
+  };
+}
+
+function changeOrder(accepted: EstimateVersion, amount: number, status: ChangeOrder['status']): ChangeOrder {
+  const changes = { added: { exteriorMeasurements: [back] }, removed: [] };
+  return {
+    id: `CO-${amount}`,
+    estimateId: accepted.estimateId,
+    estimateVersion: accepted.version,
+    number: 1,
+    description: 'Paint the back wall',
+    ...changes,
+    rateCard: accepted.rateCard!,
+    pricing: { ...changeOrderService.priceChange(accepted, accepted.inputs, changes), amount },
+    status,
+    createdAt: accepted.createdAt,
+    updatedAt: accepted.createdAt
+  };
+}
+
+describe('applyMeasurementChanges', () => {
+  it('removes measurements by key and appends added ones', () => {
+    const inputs = applyMeasurementChanges({ exteriorMeasurements: [front, back] }, {
+      added: { exteriorMeasurements: [{ ...back, name: 'Garage' }] },
+      removed: [{ group: 'exteriorMeasurements', key: 'Front#1', name: 'Front' }]
+    });
+    expect(inputs.exteriorMeasurements?.map(measurement => measurement.name)).toEqual(['Back', 'Garage']);
+  });
+});
+
+describe('ChangeOrderService.priceChange', () => {
+  it('prices only the added work', async () => {
+    const accepted = await acceptedVersion();
+    const pricing = changeOrderService.priceChange(accepted, accepted.inputs, {
+      added: { exteriorMeasurements: [back] },
+      removed: []
+    });
+
+    expect(pricing.lineItems.map(item => item.name)).toEqual(['Back']);
+    expect(pricing.amount).toBeGreaterThan(0);
+    expect(pricing.total).toBeCloseTo(pricing.amount + pricing.tax, 2);
+  });
+});
+
+describe('getJobTotal', () => {
+  it('adds approved changes and shows pending ones separately', async () => {
+    const accepted = await acceptedVersion();
+    expect(getJobTotal(accepted, [
+      changeOrder(accepted, 1200, 'approved'),
+      changeOrder(accepted, -300, 'approved'),
+      changeOrder(accepted, 500, 'pending-approval'),
+      changeOrder(accepted, 800, 'void')
+    ])).toEqual({ original: 10000, approvedChanges: 900, pendingChanges: 500, total: 10900 });
+  });
+});
+
+describe('ChangeOrderService.approve', () => {
+  const signature = { name: 'Pat Customer', signature: 'data:image/png;base64,AAAA' };
+  let accepted: EstimateVersion;
+  let pending: ChangeOrder;
+
+  beforeEach(async () => {
+    accepted = await acceptedVersion();
+    pending = changeOrder(accepted, 1200, 'pending-approval');
+    mockSalesforce.isConnected = true;
+    mockSalesforce.initialize.mockReset().mockResolvedValue(undefined);
+    mockSalesforce.updateOpportunityAmount.mockReset().mockResolvedValue(true);
+    jest.spyOn(apiClient, 'updateChangeOrder').mockImplementation(async (_estimateId, _id, updated) => ({
+      success: true,
+      data: updated
+    }));
+    jest.spyOn(apiClient, 'listChangeOrders').mockImplementation(async () => ({
+      success: true,
+      data: [{ ...pending, status: 'approved' }]
+    }));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('signs the change order and syncs the job total', async () => {
+    const approval = await changeOrderService.approve(pending, signature, accepted);
+
+    expect(approval.changeOrder).toMatchObject({ status: 'approved', signature: { name: 'Pat Customer' } });
+    expect(approval.jobTotal.total).toBe(11200);
+    expect(approval.opportunitySynced).toBe(true);
+    expect(mockSalesforce.updateOpportunityAmount).toHaveBeenCalledWith('OPP-1', 11200);
+  });
+
+  it('stays approved when Salesforce is not configured', async () => {
+    mockSalesforce.isConnected = false;
+    const approval = await changeOrderService.approve(pending, signature, accepted);
+
+    expect(approval.changeOrder.status).toBe('approved');
+    expect(approval.opportunitySynced).toBe(false);
+    expect(mockSalesforce.updateOpportunityAmount).not.toHaveBeenCalled();
+  });
+
+  it('stays approved when the Salesforce login fails', async () => {
+    mockSalesforce.initialize.mockRejectedValue(new Error('INVALID_LOGIN'));
+    const approval = await changeOrderService.approve(pending, signature, accepted);
+
+    expect(approval.changeOrder.status).toBe('approved');
+    expect(approval.opportunitySynced).toBe(false);
+  });
+
+  it('requires a signature and a pending change order', async () => {
+    await expect(changeOrderService.approve(pending, { ...signature, signature: '' }, accepted))
+      .rejects.toThrow(/needs a signature/);
+    await expect(changeOrderService.approve({ ...pending, status: 'draft' }, signature, accepted))
+      .rejects.toThrow(/cannot move from draft to approved/);
+  });
+});
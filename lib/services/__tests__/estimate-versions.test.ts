@@ -0,0 +1,48 @@
+import { calculationService } from '../calculation-service';
+import { buildEstimateSnapshot, diffEstimates, getMeasurementKeys } from '../estimate-versions';
+
+const front = { name: 'Front', width: 40, height: 10, condition: 'fair', substrate: 'wood-siding' };
+
+async function estimate(exteriorMeasurements: any[], finalPrice?: number) {
+  const calculations = await calculationService.calculateEstimate({ exteriorMeasurements });
+  return { exteriorMeasurements, calculations: { ...calculations, finalPrice, adjustments: [] } };
+}
+
+describe('buildEstimateSnapshot', () => {
+  it('detaches and freezes the snapshot', async () => {
+    const working = await estimate([{ ...front }]);
+    const snapshot = buildEstimateSnapshot(working);
+
+    working.exteriorMeasurements[0].width = 60;
+    expect(snapshot.inputs.exteriorMeasurements?.[0].width).toBe(40);
+    expect(Object.isFrozen(snapshot.inputs.exteriorMeasurements?.[0])).toBe(true);
+  });
+});
+
+describe('getMeasurementKeys', () => {
+  it('keys by id, or by name and occurrence', () => {
+    expect(Array.from(getMeasurementKeys([front, front, { ...front, id: 7 }]).keys()))
+      .toEqual(['Front#1', 'Front#2', '7']);
+  });
+});
+
+describe('diffEstimates', () => {
+  it('reports measurement, line item and price changes', async () => {
+    const before = buildEstimateSnapshot(await estimate([front]));
+    const after = buildEstimateSnapshot(await estimate([{ ...front, width: 50 }, { ...front, name: 'Back' }]));
+    const diff = diffEstimates(before, after);
+
+    expect(diff.measurements.added.map(ref => ref.name)).toEqual(['Back']);
+    expect(diff.measurements.changed).toEqual([
+      expect.objectContaining({ name: 'Front', changes: [{ field: 'width', before: 40, after: 50 }] })
+    ]);
+    expect(diff.lineItems.map(item => [item.name, item.status])).toEqual([['Front', 'changed'], ['Back', 'added']]);
+    expect(diff.price.delta).toBeGreaterThan(0);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('finds no changes between identical snapshots', async () => {
+    const snapshot = buildEstimateSnapshot(await estimate([front], 5000));
+    expect(diffEstimates(snapshot, snapshot).hasChanges).toBe(false);
+  });
+});
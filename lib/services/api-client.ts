@@ -125,6 +125,46 @@ class ApiClient {
     });
   }
 
+  async createEstimateVersion(id: string, version: any) {
+    return this.request(`/api/v1/estimates/${id}/versions`, {
+      method: 'POST',
+      body: JSON.stringify(version),
+    });
+  }
+
+  async listEstimateVersions(id: string) {
+    return this.request(`/api/v1/estimates/${id}/versions`);
+  }
+
+  async getEstimateVersion(id: string, version: number) {
+    return this.request(`/api/v1/estimates/${id}/versions/${version}`);
+  }
+
+  async markEstimateVersionPresented(id: string, version: number) {
+    return this.request(`/api/v1/estimates/${id}/versions/${version}/presented`, {
+      method: 'POST',
+    });
+  }
+
+  // Change orders against an accepted estimate
+  async listChangeOrders(estimateId: string) {
+    return this.request(`/api/v1/estimates/${estimateId}/change-orders`);
+  }
+
+  async createChangeOrder(estimateId: string, changeOrder: any) {
+    return this.request(`/api/v1/estimates/${estimateId}/change-orders`, {
+      method: 'POST',
+      body: JSON.stringify(changeOrder),
+    });
+  }
+
+  async updateChangeOrder(estimateId: string, id: string, changeOrder: any) {
+    return this.request(`/api/v1/estimates/${estimateId}/change-orders/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(changeOrder),
+    });
+  }
+
   // Health check
   async healthCheck() {
     return this.request('/health');
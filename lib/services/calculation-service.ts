@@ -3,26 +3,108 @@
  * Integrates the painting calculator with the estimate data
  */
 
-import { paintingCalculator, type Surface, type Room } from '@/lib/calculations/painting-calculator';
+import Decimal from 'decimal.js';
+import {
+  PaintingCalculator,
+  type CalculationResult as EstimateCalculation,
+  type EstimateScope,
+  type LineItem,
+  type Surface,
+  type Room,
+  type TierEstimate
+} from '@/lib/calculations/painting-calculator';
+import {
+  isCabinetFinish,
+  type CabinetSet,
+  type GutterRun,
+  type HolidayLightingRun
+} from '@/lib/calculations/service-lines';
+import {
+  rateCardRegistry,
+  defaultRateCard,
+  type RateCard,
+  type RateCardReference
+} from '@/lib/calculations/rate-cards';
+import type { TierKey } from '@/lib/calculations/pricing-tiers';
+import type { RuleContext } from '@/lib/calculations/business-rules';
+import type { PrepWork } from '@/lib/calculations/prep-tasks';
+import {
+  getOpeningArea,
+  getPitchedArea,
+  type Opening,
+  type Wall
+} from '@/lib/calculations/room-geometry';
+import {
+  assessRrp,
+  buildRrpChecklist,
+  type PropertyInfo,
+  type RrpChecklist
+} from '@/lib/calculations/lead-safety';
+import { salesTaxEngine, type TaxBreakdown } from '@/lib/calculations/sales-tax';
+import type { MarginAnalysis } from '@/lib/calculations/cost-model';
+import type { MaterialListItem } from '@/lib/calculations/paint-catalog';
+import {
+  defaultCrews,
+  type ProjectSchedule,
+  type ScheduleOptions,
+  type TimelinePhase
+} from '@/lib/calculations/timeline';
+import {
+  buildPaymentSchedule,
+  rescalePaymentSchedule,
+  selectPaymentTemplate,
+  type PaymentSchedule
+} from '@/lib/calculations/payment-schedule';
+import type { PriceOption, TargetPriceRequest } from '@/lib/calculations/target-price';
 import { apiClient } from './api-client';
+import { buildEstimateSnapshot, estimateVersionService } from './estimate-versions';
 
 export interface EstimateData {
   exteriorMeasurements?: any[];
+  exteriorPrepWork?: PrepWork; // toggled prep tasks, priced per task
   interiorMeasurements?: any[];
+  gutterMeasurements?: any[];
+  cabinetMeasurements?: any[];
+  holidayMeasurements?: any[];
   clientInfo?: any;
+  property?: PropertyInfo; // year built and lead inspection results
+  certifiedRenovator?: string; // RRP certified renovator assigned to the job
+  // Set on saved estimates; new estimates use the branch's current rate card
+  rateCard?: RateCardReference;
+  rateCardId?: string;
+  // Start date, working calendar and crew per phase for the projected schedule
+  schedule?: ScheduleOptions;
+  // Payment terms; the rate card's template for the job total by default
+  paymentTemplateId?: string;
+  signedDate?: string; // YYYY-MM-DD; deposits fall due on signing
 }
 
 export interface CalculationResult {
   exterior: any;
   interior: any;
+  gutters: any;
+  cabinets: any;
+  holidayLighting: any;
+  leadSafety: any;
   totals: {
     laborHours: number;
     laborCost: number;
     materialCost: number;
-    subtotal: number;
+    equipmentCost: number;
+    subtotal: number; // cost
+    overhead: number;
+    profit: number;
+    margin: MarginAnalysis;
+    price: number; // before tax
     tax: number;
+    taxBreakdown: TaxBreakdown;
     total: number;
   };
+  // Per-surface and per-room breakdown; sums exactly to the totals
+  lineItems: LineItem[];
+  // Paint and primer to buy, in whole containers
+  materialList: MaterialListItem[];
+  // Each tier carries its own schedule
   pricingTiers: {
     good: any;
     better: any;
@@ -32,132 +114,370 @@ export interface CalculationResult {
     days: number;
     weeks: number;
     calendarDays: number;
+    schedule: ProjectSchedule;
   };
+  rateCard: RateCardReference;
+  // Travels with the estimate to the crew work order
+  compliance: RrpChecklist;
+  // Deposit and progress payments for proposals and invoices
+  paymentSchedule: PaymentSchedule;
+}
+
+export interface FinalPrice {
+  price: number; // before tax
+  tax: number;
+  taxBreakdown: TaxBreakdown;
+  total: number;
+  paymentSchedule: PaymentSchedule;
 }
 
 class CalculationService {
+  /**
+   * Saved estimates pin the exact rate card version they were priced with;
+   * new estimates pick up whichever version is currently effective.
+   */
+  resolveRateCard(estimateData: EstimateData): RateCard {
+    if (estimateData.rateCard) {
+      const rateCard = rateCardRegistry.get(estimateData.rateCard);
+      if (!rateCard) {
+        throw new Error(
+          `Rate card ${estimateData.rateCard.id} v${estimateData.rateCard.version} is not loaded`
+        );
+      }
+      return rateCard;
+    }
+
+    return rateCardRegistry.resolve(estimateData.rateCardId || defaultRateCard.id);
+  }
+
   async calculateEstimate(estimateData: EstimateData): Promise<CalculationResult> {
-    // Transform exterior measurements to Surface format
-    const exteriorSurfaces: Surface[] = (estimateData.exteriorMeasurements || []).map(m => ({
-      name: m.name || 'Surface',
-      width: m.width || 0,
-      height: m.height || 0,
-      sqft: m.sqft || (m.width * m.height),
-      condition: m.condition || 'good',
-      substrate: m.substrate || 'wood-siding',
-      coats: m.coats || 2
-    }));
+    const rateCard = this.resolveRateCard(estimateData);
+    const paintingCalculator = new PaintingCalculator(rateCard);
 
-    // Transform interior measurements to Room format
-    const interiorRooms: Room[] = (estimateData.interiorMeasurements || []).map(m => ({
-      name: m.name || 'Room',
-      walls: {
-        width: m.width || 0,
-        height: m.height || 0,
-        sqft: m.wallSqft || ((m.width + m.length) * 2 * m.height)
-      },
-      ceiling: {
-        width: m.width || 0,
-        height: m.length || 0,
-        sqft: m.ceilingSqft || (m.width * m.length)
-      },
-      trim: {
-        linear_feet: m.trimLinearFeet || ((m.width + m.length) * 2 + (m.doors || 0) * 7 + (m.windows || 0) * 12)
-      },
-      doors: m.doors || 0,
-      windows: m.windows || 0,
-      cabinets: m.cabinets
-    }));
+    const scope = this.buildScope(estimateData);
+
+    // Calculate each service line (an empty list yields a zeroed result)
+    const exteriorCalc = paintingCalculator.calculateExterior(scope.surfaces || [], scope.exteriorOptions);
+    const interiorCalc = paintingCalculator.calculateInterior(scope.rooms || []);
+    const gutterCalc = paintingCalculator.calculateGutters(scope.gutters || []);
+    const cabinetCalc = paintingCalculator.calculateCabinets(scope.cabinets || []);
+    const holidayCalc = paintingCalculator.calculateHolidayLighting(scope.holidayLighting || []);
 
-    // Calculate exterior
-    const exteriorCalc = exteriorSurfaces.length > 0 
-      ? paintingCalculator.calculateExterior(exteriorSurfaces)
-      : { labor: { total: 0 }, materials: { total: 0 }, subtotal: 0, total: 0 };
+    const serviceLines = paintingCalculator.combine([
+      exteriorCalc,
+      interiorCalc,
+      gutterCalc,
+      cabinetCalc,
+      holidayCalc
+    ]);
 
-    // Calculate interior
-    const interiorCalc = interiorRooms.length > 0
-      ? paintingCalculator.calculateInterior(interiorRooms)
-      : { labor: { total: 0 }, materials: { total: 0 }, subtotal: 0, total: 0 };
+    // Lead-safe work practices for pre-1978 homes
+    const leadSafetyCalc = paintingCalculator.calculateLeadSafety(serviceLines, scope.property, scope.exteriorOptions?.crewSize);
+    const compliance = buildRrpChecklist(assessRrp(scope.property), estimateData.certifiedRenovator);
+    const baseEstimate = paintingCalculator.combine([serviceLines, leadSafetyCalc]);
 
     // Calculate totals
-    const totalLabor = exteriorCalc.labor.total + interiorCalc.labor.total;
-    const totalMaterials = exteriorCalc.materials.total + interiorCalc.materials.total;
-    const subtotal = totalLabor + totalMaterials;
-    const taxRate = 0.0875; // Colorado tax rate
-    const tax = subtotal * taxRate;
-    const total = subtotal + tax;
-
-    // Calculate pricing tiers
-    const baseEstimate = {
-      labor: {
-        prep: {
-          hours: (exteriorCalc.labor.prep?.hours || 0) + (interiorCalc.labor.prep?.hours || 0),
-          rate: 65,
-          total: (exteriorCalc.labor.prep?.total || 0) + (interiorCalc.labor.prep?.total || 0)
-        },
-        painting: {
-          hours: (exteriorCalc.labor.painting?.hours || 0) + (interiorCalc.labor.painting?.hours || 0),
-          rate: 65,
-          total: (exteriorCalc.labor.painting?.total || 0) + (interiorCalc.labor.painting?.total || 0)
-        },
-        total: totalLabor
-      },
-      materials: {
-        primer: {
-          gallons: (exteriorCalc.materials.primer?.gallons || 0) + (interiorCalc.materials.primer?.gallons || 0),
-          pricePerGallon: 45,
-          total: (exteriorCalc.materials.primer?.total || 0) + (interiorCalc.materials.primer?.total || 0)
-        },
-        paint: {
-          gallons: (exteriorCalc.materials.paint?.gallons || 0) + (interiorCalc.materials.paint?.gallons || 0),
-          pricePerGallon: 55,
-          total: (exteriorCalc.materials.paint?.total || 0) + (interiorCalc.materials.paint?.total || 0)
-        },
-        supplies: (exteriorCalc.materials.supplies || 0) + (interiorCalc.materials.supplies || 0),
-        total: totalMaterials
-      },
-      subtotal,
-      markup: 0,
-      total: subtotal
-    };
+    const totalLabor = baseEstimate.labor.total;
+    const totalMaterials = baseEstimate.materials.total;
+    const totalEquipment = baseEstimate.equipment;
+    const subtotal = baseEstimate.subtotal;
+    const price = baseEstimate.total;
+    const taxBreakdown = this.calculateTax(estimateData, baseEstimate, price);
+    const tax = taxBreakdown.total;
+    const total = new Decimal(price).plus(tax).toNumber();
 
-    const pricingTiers = paintingCalculator.calculatePricingTiers(baseEstimate);
+    // Calculate pricing tiers, each recalculated with its own inputs
+    const pricingTiers = paintingCalculator.calculatePricingTiers(scope);
 
-    // Apply business rules to each tier
+    // Apply business rules to each tier and schedule it with its own coats
+    const ruleContext = this.getRuleContext(estimateData);
+    const finalizeTier = (tier: TierEstimate) => {
+      const estimate = paintingCalculator.applyBusinessRules(tier, ruleContext);
+      return { ...estimate, schedule: paintingCalculator.scheduleProject(estimate, estimateData.schedule) };
+    };
     const tiersWithRules = {
-      good: paintingCalculator.applyBusinessRules(pricingTiers.good),
-      better: paintingCalculator.applyBusinessRules(pricingTiers.better),
-      best: paintingCalculator.applyBusinessRules(pricingTiers.best)
+      good: finalizeTier(pricingTiers.good),
+      better: finalizeTier(pricingTiers.better),
+      best: finalizeTier(pricingTiers.best)
     };
 
     // Calculate timeline
-    const totalHours = baseEstimate.labor.prep.hours + baseEstimate.labor.painting.hours;
-    const timeline = paintingCalculator.calculateTimeline(totalHours, 3);
+    const totalHours = baseEstimate.labor.prep.hours +
+      baseEstimate.labor.painting.hours +
+      baseEstimate.labor.specialty.hours;
+    const timeline = {
+      ...paintingCalculator.calculateTimeline(totalHours, this.getCrews(estimateData).paint),
+      schedule: paintingCalculator.scheduleProject(baseEstimate, estimateData.schedule)
+    };
 
     return {
       exterior: exteriorCalc,
       interior: interiorCalc,
+      gutters: gutterCalc,
+      cabinets: cabinetCalc,
+      holidayLighting: holidayCalc,
+      leadSafety: leadSafetyCalc,
       totals: {
         laborHours: totalHours,
         laborCost: totalLabor,
         materialCost: totalMaterials,
+        equipmentCost: totalEquipment,
         subtotal,
+        overhead: baseEstimate.overhead,
+        profit: baseEstimate.profit,
+        margin: baseEstimate.margin,
+        price,
         tax,
+        taxBreakdown,
         total
       },
+      lineItems: baseEstimate.lineItems,
+      materialList: baseEstimate.materialList,
       pricingTiers: tiersWithRules,
-      timeline
+      timeline,
+      rateCard: paintingCalculator.getRateCardReference(),
+      compliance,
+      paymentSchedule: this.getPaymentSchedule(rateCard, estimateData, total, timeline.schedule)
+    };
+  }
+
+  /**
+   * Ranked scope and price alternatives near a customer's budget, priced
+   * with the same rate card and business rules as the estimate
+   */
+  async solveTargetPrice(estimateData: EstimateData, request: TargetPriceRequest): Promise<PriceOption[]> {
+    const paintingCalculator = new PaintingCalculator(this.resolveRateCard(estimateData));
+    return paintingCalculator.solveTargetPrice(
+      this.buildScope(estimateData),
+      request,
+      this.getRuleContext(estimateData)
+    );
+  }
+
+  /**
+   * Calculator scope from the estimate's measurements
+   */
+  buildScope(estimateData: EstimateData): EstimateScope {
+    // Transform exterior measurements to Surface format
+    const exteriorSurfaces: Surface[] = (estimateData.exteriorMeasurements || []).map(m => ({
+      name: m.name || 'Surface',
+      width: m.width || 0,
+      height: m.height || 0,
+      sqft: m.sqft || (m.width * m.height),
+      condition: m.condition || 'good',
+      substrate: m.substrate || 'wood-siding',
+      coats: m.coats || 2,
+      applicationMethod: m.applicationMethod,
+      stories: m.stories,
+      accessEquipment: m.accessEquipment,
+      prepWork: m.prepWork,
+      caulkLinearFeet: m.caulkLinearFeet,
+      colorChange: m.colorChange
+    }));
+
+    // Transform interior measurements to Room format
+    const interiorRooms: Room[] = (estimateData.interiorMeasurements || []).map(m => {
+      const walls = this.transformWalls(m.walls);
+      const openings = walls?.flatMap(wall => wall.openings || []) || [];
+      const countOpenings = (type: Opening['type']) =>
+        openings.filter(opening => opening.type === type).reduce((sum, opening) => sum + (opening.count ?? 1), 0);
+      const doors = m.doors ?? countOpenings('door');
+      const windows = m.windows ?? countOpenings('window');
+
+      // Aggregate walls: gross perimeter area less standard door and window openings
+      const grossWallSqft = (m.width + m.length) * 2 * m.height;
+      const openingSqft = getOpeningArea({ type: 'door', count: doors }) +
+        getOpeningArea({ type: 'window', count: windows });
+
+      return {
+        name: m.name || 'Room',
+        walls: walls || {
+          width: m.width || 0,
+          height: m.height || 0,
+          sqft: m.wallSqft || Math.max(0, grossWallSqft - openingSqft),
+          applicationMethod: m.applicationMethod,
+          colorChange: m.colorChange
+        },
+        ceiling: {
+          width: m.width || 0,
+          height: m.length || 0,
+          sqft: m.ceilingSqft || getPitchedArea(m.width * m.length, m.ceilingPitch)
+        },
+        trim: {
+          linear_feet: m.trimLinearFeet || ((m.width + m.length) * 2 + doors * 7 + windows * 12)
+        },
+        doors,
+        windows,
+        cabinets: m.cabinets
+      };
+    });
+
+    // Transform gutter, cabinet and holiday measurements (Measurement.dimensions
+    // or flat fields) to their service line formats
+    const gutterRuns: GutterRun[] = (estimateData.gutterMeasurements || []).map(m => ({
+      name: m.name || m.description || 'Gutters',
+      linearFeet: m.linearFeet || m.dimensions?.length || 0,
+      downspouts: m.downspouts || m.dimensions?.quantity || 0
+    }));
+
+    const cabinetSets: CabinetSet[] = (estimateData.cabinetMeasurements || []).map(m => ({
+      name: m.name || m.description || 'Cabinets',
+      doors: m.doors || m.dimensions?.quantity || 0,
+      drawerFronts: m.drawerFronts || 0,
+      finish: isCabinetFinish(m.finish) ? m.finish : 'paint'
+    }));
+
+    const holidayRuns: HolidayLightingRun[] = (estimateData.holidayMeasurements || []).map(m => ({
+      name: m.name || m.description || 'Holiday Lighting',
+      rooflineFeet: m.rooflineFeet || m.dimensions?.length || 0,
+      includeRemoval: m.includeRemoval !== false
+    }));
+
+    return {
+      surfaces: exteriorSurfaces,
+      rooms: interiorRooms,
+      gutters: gutterRuns,
+      cabinets: cabinetSets,
+      holidayLighting: holidayRuns,
+      exteriorOptions: { crewSize: this.getCrews(estimateData).paint, prepWork: estimateData.exteriorPrepWork },
+      property: estimateData.property
+    };
+  }
+
+  /**
+   * Tax and payment terms for the price offered: the selected tier with
+   * manual adjustments, which are taxed like markup. Payments already
+   * recorded on the schedule are kept.
+   */
+  finalizePrice(estimateData: EstimateData, calculation: CalculationResult, tier: TierKey, price: number): FinalPrice {
+    const estimate = calculation.pricingTiers[tier];
+    const taxBreakdown = this.calculateTax(estimateData, estimate, price);
+    const total = new Decimal(price).plus(taxBreakdown.total).toNumber();
+    const rateCard = this.resolveRateCard({ ...estimateData, rateCard: calculation.rateCard });
+
+    return {
+      price,
+      tax: taxBreakdown.total,
+      taxBreakdown,
+      total,
+      paymentSchedule: rescalePaymentSchedule(
+        calculation.paymentSchedule,
+        total,
+        estimate.schedule || calculation.timeline.schedule,
+        {
+          templates: estimateData.paymentTemplateId ? undefined : rateCard.paymentTemplates,
+          signedDate: estimateData.signedDate
+        }
+      )
     };
   }
 
-  async saveEstimate(estimate: any): Promise<{ success: boolean; id: string }> {
+  private calculateTax(
+    estimateData: EstimateData,
+    estimate: Pick<EstimateCalculation, 'labor' | 'materials' | 'equipment' | 'subtotal'>,
+    price: number
+  ): TaxBreakdown {
+    return salesTaxEngine.calculate({
+      zip: estimateData.clientInfo?.zipCode,
+      labor: estimate.labor.total,
+      materials: estimate.materials.total,
+      equipment: estimate.equipment,
+      markup: new Decimal(price).minus(estimate.subtotal).toNumber(),
+      exempt: Boolean(estimateData.clientInfo?.taxExempt),
+      exemptionId: estimateData.clientInfo?.taxExemptionId
+    });
+  }
+
+  /**
+   * Payment milestones for the job total, dated from the projected schedule
+   */
+  private getPaymentSchedule(
+    rateCard: RateCard,
+    estimateData: EstimateData,
+    total: number,
+    schedule: ProjectSchedule
+  ): PaymentSchedule {
+    const template = estimateData.paymentTemplateId
+      ? rateCard.paymentTemplates.find(candidate => candidate.id === estimateData.paymentTemplateId)
+      : selectPaymentTemplate(rateCard.paymentTemplates, total);
+    if (!template) {
+      throw new Error(`Payment schedule template ${estimateData.paymentTemplateId} is not on rate card ${rateCard.id}`);
+    }
+    return buildPaymentSchedule(template, total, schedule, estimateData.signedDate);
+  }
+
+  /**
+   * Crew per phase from the schedule options, so rough timelines and rental
+   * days agree with the projected schedule
+   */
+  private getCrews(estimateData: EstimateData): Record<TimelinePhase, number> {
+    return { ...defaultCrews, ...estimateData.schedule?.crews };
+  }
+
+  private getRuleContext(estimateData: EstimateData): RuleContext {
+    return {
+      repeatCustomer: Boolean(estimateData.clientInfo?.repeatCustomer),
+      date: new Date()
+    };
+  }
+
+  /**
+   * Individual walls from a measurement's wall list (array or keyed object).
+   * Returns undefined for rooms measured as a single wall area.
+   */
+  private transformWalls(walls: any): Wall[] | undefined {
+    if (!walls || typeof walls !== 'object' || 'sqft' in walls) {
+      return undefined;
+    }
+
+    const list: any[] = Array.isArray(walls) ? walls : Object.values(walls);
+    if (list.length === 0) {
+      return undefined;
+    }
+
+    return list.map(wall => ({
+      name: wall.name,
+      length: wall.length || wall.width || 0,
+      height: wall.height || 0,
+      peakHeight: wall.peakHeight,
+      shape: wall.shape,
+      sqft: wall.sqft,
+      openings: wall.openings,
+      location: wall.location,
+      accent: wall.accent,
+      color: wall.color,
+      sheen: wall.sheen,
+      coats: wall.coats,
+      applicationMethod: wall.applicationMethod,
+      colorChange: wall.colorChange
+    }));
+  }
+
+  async saveEstimate(estimate: any): Promise<{ success: boolean; id: string; version?: number }> {
+    let id: string | undefined = estimate.id;
     try {
-      const response = await apiClient.saveEstimate(estimate);
-      return response.data || { success: false, id: '' };
+      // Pin the rate card version so re-opening reproduces the same numbers
+      const rateCard: RateCardReference | undefined =
+        estimate.rateCard || estimate.calculations?.rateCard;
+
+      if (!id) {
+        const response = await apiClient.saveEstimate({ ...estimate, rateCard });
+        const saved = response.data as { success: boolean; id: string } | undefined;
+        if (!saved?.success) {
+          return saved || { success: false, id: '' };
+        }
+        id = saved.id;
+      }
+
+      // Every save appends an immutable version
+      const version = await estimateVersionService.createVersion(
+        id,
+        buildEstimateSnapshot({ ...estimate, rateCard })
+      );
+      return { success: true, id, version: version.version };
     } catch (error) {
       console.error('Failed to save estimate:', error);
-      // Return mock success for demo
-      return { success: true, id: `EST-${Date.now()}` };
+      return { success: false, id: id || '' };
     }
   }
 }
@@ -0,0 +1,352 @@
+/**
+ * Change Orders
+ * On-site scope changes to a sold job: child documents of the accepted
+ * estimate version, priced with its rate card and tier, approved and signed
+ * on their own, and rolled up into the job total
+ */
+
+import Decimal from 'decimal.js';
+import { PaintingCalculator, type CalculationResult as EstimateCalculation, type LineItem } from '@/lib/calculations/painting-calculator';
+import type { TierKey } from '@/lib/calculations/pricing-tiers';
+import type { RateCardReference } from '@/lib/calculations/rate-cards';
+import { salesTaxEngine, type TaxBreakdown } from '@/lib/calculations/sales-tax';
+import { calculationService, type EstimateData } from './calculation-service';
+import {
+  getMeasurementKeys,
+  getSnapshotPrice,
+  measurementGroups,
+  type EstimateVersion,
+  type MeasurementGroup,
+  type MeasurementRef
+} from './estimate-versions';
+import { apiClient } from './api-client';
+
+export type ChangeOrderStatus = 'draft' | 'pending-approval' | 'approved' | 'rejected' | 'void';
+
+export type MeasurementChanges = Partial<Record<MeasurementGroup, any[]>>;
+
+export interface ChangeOrderSignature {
+  name: string;
+  signature: string; // data URL of the captured signature
+  signedAt: string;
+}
+
+export interface ChangeOrderPricing {
+  tier?: TierKey;
+  lineItems: LineItem[]; // line items that changed; removed work has negative amounts
+  cost: number;
+  amount: number; // price before tax; negative for credits
+  tax: number;
+  taxBreakdown: TaxBreakdown;
+  total: number;
+}
+
+export interface ChangeOrderInput {
+  description: string;
+  added?: MeasurementChanges;
+  removed?: MeasurementRef[];
+  createdBy?: string;
+}
+
+export interface ChangeOrder {
+  id: string;
+  estimateId: string;
+  estimateVersion: number; // the accepted version this changes
+  number: number;
+  description: string;
+  added: MeasurementChanges;
+  removed: MeasurementRef[];
+  rateCard: RateCardReference;
+  pricing: ChangeOrderPricing;
+  status: ChangeOrderStatus;
+  signature?: ChangeOrderSignature;
+  approvedAt?: string;
+  rejectedReason?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobTotal {
+  original: number;
+  approvedChanges: number;
+  pendingChanges: number;
+  total: number; // original plus approved changes, before tax
+}
+
+export interface ChangeOrderApproval {
+  changeOrder: ChangeOrder;
+  jobTotal: JobTotal;
+  opportunitySynced: boolean; // false when there is no opportunity or Salesforce could not be updated
+}
+
+const transitions: Record<ChangeOrderStatus, ChangeOrderStatus[]> = {
+  draft: ['pending-approval', 'void'],
+  'pending-approval': ['approved', 'rejected', 'void'],
+  approved: [],
+  rejected: ['draft', 'void'],
+  void: []
+};
+
+/**
+ * Measurements after a set of changes: removed measurements are matched by
+ * key, added ones appended
+ */
+export function applyMeasurementChanges(
+  inputs: EstimateData,
+  changes: Pick<ChangeOrder, 'added' | 'removed'>
+): EstimateData {
+  const result: EstimateData = { ...inputs };
+  measurementGroups.forEach(group => {
+    const removedKeys = new Set(changes.removed.filter(ref => ref.group === group).map(ref => ref.key));
+    const kept = Array.from(getMeasurementKeys(inputs[group]).entries())
+      .filter(([key]) => !removedKeys.has(key))
+      .map(([, entry]) => entry.measurement);
+    result[group] = [...kept, ...(changes.added[group] || [])];
+  });
+  return result;
+}
+
+/**
+ * Job scope as it stands: the accepted version plus approved change orders
+ */
+export function getJobInputs(accepted: EstimateVersion, changeOrders: ChangeOrder[]): EstimateData {
+  return changeOrders
+    .filter(changeOrder => changeOrder.status === 'approved')
+    .sort((a, b) => a.number - b.number)
+    .reduce((inputs, changeOrder) => applyMeasurementChanges(inputs, changeOrder), accepted.inputs);
+}
+
+/**
+ * Sold price plus approved change orders; pending ones are shown separately
+ */
+export function getJobTotal(accepted: EstimateVersion, changeOrders: ChangeOrder[]): JobTotal {
+  const sum = (status: ChangeOrderStatus) =>
+    changeOrders
+      .filter(changeOrder => changeOrder.status === status)
+      .reduce((total, changeOrder) => total.plus(changeOrder.pricing.amount), new Decimal(0));
+
+  const original = getSnapshotPrice(accepted);
+  const approvedChanges = sum('approved');
+  return {
+    original,
+    approvedChanges: approvedChanges.toNumber(),
+    pendingChanges: sum('pending-approval').toNumber(),
+    total: approvedChanges.plus(original).toNumber()
+  };
+}
+
+function assertAccepted(accepted: EstimateVersion): RateCardReference {
+  if (!accepted.acceptedAt) {
+    throw new Error(`Version ${accepted.version} of estimate ${accepted.estimateId} has not been accepted`);
+  }
+  const rateCard = accepted.rateCard || accepted.inputs.rateCard;
+  if (!rateCard) {
+    throw new Error(`Estimate ${accepted.estimateId} has no pinned rate card`);
+  }
+  return rateCard;
+}
+
+/**
+ * Line item for the change in work: after less before, so removed work
+ * has negative amounts. Parts are dropped; the change is one line.
+ */
+function getLineItemChange(after: LineItem | undefined, before: LineItem | undefined): LineItem {
+  const item = (after || before)!;
+  const subtract = <T extends Record<string, number>>(next: T | undefined, previous: T | undefined) =>
+    Object.fromEntries(
+      Object.keys((next || previous)!).map(field => [
+        field,
+        new Decimal(next?.[field] || 0).minus(previous?.[field] || 0).toNumber()
+      ])
+    ) as T;
+
+  return {
+    id: item.id,
+    name: item.name,
+    kind: item.kind,
+    unit: item.unit,
+    quantity: item.quantity === undefined
+      ? undefined
+      : new Decimal(after?.quantity || 0).minus(before?.quantity || 0).toNumber(),
+    hours: subtract(after?.hours, before?.hours),
+    gallons: subtract(after?.gallons, before?.gallons),
+    cost: subtract(after?.cost, before?.cost)
+  };
+}
+
+class ChangeOrderService {
+  /**
+   * Price a change as the difference between the job with and without it,
+   * in the sold tier and rate card, so fixed costs are not charged twice
+   */
+  priceChange(
+    accepted: EstimateVersion,
+    jobInputs: EstimateData,
+    changes: Pick<ChangeOrder, 'added' | 'removed'>
+  ): ChangeOrderPricing {
+    const rateCard = calculationService.resolveRateCard({ rateCard: assertAccepted(accepted) });
+    const calculator = new PaintingCalculator(rateCard);
+    const tier = accepted.selectedTier;
+    const price = (inputs: EstimateData): EstimateCalculation => {
+      const scope = calculationService.buildScope(inputs);
+      return tier ? calculator.calculatePricingTiers(scope)[tier] : calculator.calculateScope(scope);
+    };
+
+    const before = price(jobInputs);
+    const after = price(applyMeasurementChanges(jobInputs, changes));
+
+    const delta = (field: (estimate: EstimateCalculation) => number) =>
+      new Decimal(field(after)).minus(field(before)).toNumber();
+    const taxBreakdown = salesTaxEngine.calculate({
+      zip: jobInputs.clientInfo?.zipCode,
+      labor: delta(estimate => estimate.labor.total),
+      materials: delta(estimate => estimate.materials.total),
+      equipment: delta(estimate => estimate.equipment),
+      markup: delta(estimate => estimate.markup),
+      exempt: Boolean(jobInputs.clientInfo?.taxExempt),
+      exemptionId: jobInputs.clientInfo?.taxExemptionId
+    });
+    const amount = delta(estimate => estimate.total);
+
+    // Ids are positional, so line items are matched on kind and name
+    const key = (item: LineItem) => `${item.kind}:${item.name}`;
+    const previous = new Map(before.lineItems.map(item => [key(item), item]));
+    const current = new Map(after.lineItems.map(item => [key(item), item]));
+    const lineItems = Array.from(new Set([...current.keys(), ...previous.keys()]))
+      .map(itemKey => getLineItemChange(current.get(itemKey), previous.get(itemKey)))
+      .filter(item => item.kind !== 'container-rounding' && (item.cost.total !== 0 || item.quantity));
+
+    return {
+      tier,
+      lineItems,
+      cost: delta(estimate => estimate.subtotal),
+      amount,
+      tax: taxBreakdown.total,
+      taxBreakdown,
+      total: new Decimal(amount).plus(taxBreakdown.total).toNumber()
+    };
+  }
+
+  async list(estimateId: string): Promise<ChangeOrder[]> {
+    const response = await apiClient.listChangeOrders(estimateId);
+    if (!response.success) {
+      throw new Error(`Failed to list change orders for estimate ${estimateId}: ${response.error}`);
+    }
+    return ((response.data as ChangeOrder[] | undefined) || []).sort((a, b) => a.number - b.number);
+  }
+
+  /**
+   * Draft a change order against the job as it stands (accepted version
+   * plus approved change orders)
+   */
+  async create(accepted: EstimateVersion, input: ChangeOrderInput): Promise<ChangeOrder> {
+    const rateCard = assertAccepted(accepted);
+    const existing = await this.list(accepted.estimateId);
+    const changes = { added: input.added || {}, removed: input.removed || [] };
+    const now = new Date().toISOString();
+
+    const changeOrder: Omit<ChangeOrder, 'id'> = {
+      estimateId: accepted.estimateId,
+      estimateVersion: accepted.version,
+      number: existing.reduce((max, changeOrder) => Math.max(max, changeOrder.number), 0) + 1,
+      description: input.description,
+      ...changes,
+      rateCard,
+      pricing: this.priceChange(accepted, getJobInputs(accepted, existing), changes),
+      status: 'draft',
+      createdBy: input.createdBy,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const response = await apiClient.createChangeOrder(accepted.estimateId, changeOrder);
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to save change order for estimate ${accepted.estimateId}: ${response.error}`);
+    }
+    return response.data as ChangeOrder;
+  }
+
+  async submit(changeOrder: ChangeOrder): Promise<ChangeOrder> {
+    return this.transition(changeOrder, 'pending-approval');
+  }
+
+  /**
+   * Customer approval with signature; the job total and Salesforce
+   * opportunity amount follow. The approval stands even when Salesforce
+   * cannot be updated.
+   */
+  async approve(
+    changeOrder: ChangeOrder,
+    signature: Omit<ChangeOrderSignature, 'signedAt'>,
+    accepted: EstimateVersion
+  ): Promise<ChangeOrderApproval> {
+    if (!signature.name || !signature.signature) {
+      throw new Error(`Change order ${changeOrder.number} needs a signature to be approved`);
+    }
+
+    const signedAt = new Date().toISOString();
+    const approved = await this.transition(changeOrder, 'approved', {
+      signature: { ...signature, signedAt },
+      approvedAt: signedAt
+    });
+
+    const jobTotal = getJobTotal(accepted, await this.list(accepted.estimateId));
+    const opportunityId = accepted.inputs.clientInfo?.opportunityId;
+    const opportunitySynced = opportunityId
+      ? await this.syncOpportunityAmount(opportunityId, jobTotal)
+      : false;
+    return { changeOrder: approved, jobTotal, opportunitySynced };
+  }
+
+  async reject(changeOrder: ChangeOrder, reason: string): Promise<ChangeOrder> {
+    return this.transition(changeOrder, 'rejected', { rejectedReason: reason });
+  }
+
+  async void(changeOrder: ChangeOrder): Promise<ChangeOrder> {
+    return this.transition(changeOrder, 'void');
+  }
+
+  /**
+   * Push the rolled-up job total to the Salesforce opportunity; false when
+   * Salesforce is not configured or the update fails
+   */
+  async syncOpportunityAmount(opportunityId: string, jobTotal: JobTotal): Promise<boolean> {
+    try {
+      const { salesforceService } = await import('@/lib/services/salesforce');
+      await salesforceService.initialize();
+      if (!salesforceService.isConnected) {
+        console.warn(`Salesforce not connected; opportunity ${opportunityId} amount not updated`);
+        return false;
+      }
+      return await salesforceService.updateOpportunityAmount(opportunityId, jobTotal.total);
+    } catch (error) {
+      console.error(`Failed to sync opportunity ${opportunityId} amount:`, error);
+      return false;
+    }
+  }
+
+  private async transition(
+    changeOrder: ChangeOrder,
+    status: ChangeOrderStatus,
+    updates: Partial<ChangeOrder> = {}
+  ): Promise<ChangeOrder> {
+    if (!transitions[changeOrder.status].includes(status)) {
+      throw new Error(`Change order ${changeOrder.number} cannot move from ${changeOrder.status} to ${status}`);
+    }
+
+    const updated: ChangeOrder = {
+      ...changeOrder,
+      ...updates,
+      status,
+      updatedAt: new Date().toISOString()
+    };
+    const response = await apiClient.updateChangeOrder(changeOrder.estimateId, changeOrder.id, updated);
+    if (!response.success) {
+      throw new Error(`Failed to update change order ${changeOrder.number}: ${response.error}`);
+    }
+    return (response.data as ChangeOrder | undefined) || updated;
+  }
+}
+
+export const changeOrderService = new ChangeOrderService();
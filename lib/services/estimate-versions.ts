@@ -0,0 +1,411 @@
+/**
+ * Estimate Versions
+ * Every save appends an immutable snapshot of the inputs, rate card, results
+ * and adjustments; any two snapshots can be compared with a structured diff
+ */
+
+import Decimal from 'decimal.js';
+import type { LineItem } from '@/lib/calculations/painting-calculator';
+import type { TierKey } from '@/lib/calculations/pricing-tiers';
+import type { RateCardReference } from '@/lib/calculations/rate-cards';
+import type { CalculationResult, EstimateData } from './calculation-service';
+import { apiClient } from './api-client';
+
+export interface PriceAdjustment {
+  reason: string;
+  percentage: number;
+  amount: number;
+}
+
+/**
+ * Everything needed to reproduce and explain a price
+ */
+export interface EstimateSnapshot {
+  inputs: EstimateData;
+  rateCard?: RateCardReference;
+  results?: CalculationResult;
+  selectedTier?: TierKey;
+  adjustments: PriceAdjustment[];
+  finalPrice?: number;
+}
+
+export interface EstimateVersion extends EstimateSnapshot {
+  estimateId: string;
+  version: number;
+  createdAt: string;
+  createdBy?: string;
+  note?: string;
+  presentedAt?: string; // when this version was sent to the customer
+  acceptedAt?: string; // when the customer accepted it; the job is sold at this version
+}
+
+export type EstimateVersionSummary = Pick<
+  EstimateVersion,
+  'estimateId' | 'version' | 'createdAt' | 'createdBy' | 'note' | 'presentedAt' | 'acceptedAt' | 'finalPrice'
+>;
+
+export type MeasurementGroup =
+  | 'exteriorMeasurements'
+  | 'interiorMeasurements'
+  | 'gutterMeasurements'
+  | 'cabinetMeasurements'
+  | 'holidayMeasurements';
+
+export interface MeasurementRef {
+  group: MeasurementGroup;
+  key: string; // measurement id, or name and occurrence
+  name: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface MeasurementChange extends MeasurementRef {
+  changes: FieldChange[];
+}
+
+export interface LineItemChange {
+  key: string;
+  name: string;
+  kind: LineItem['kind'];
+  status: 'added' | 'removed' | 'changed';
+  quantity: { before?: number; after?: number };
+  price: { before: number; after: number; delta: number };
+}
+
+export interface AmountChange {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface EstimateDiff {
+  fromVersion?: number;
+  toVersion?: number; // undefined for unsaved changes
+  measurements: {
+    added: MeasurementRef[];
+    removed: MeasurementRef[];
+    changed: MeasurementChange[];
+  };
+  lineItems: LineItemChange[];
+  rateCard?: { before?: RateCardReference; after?: RateCardReference };
+  selectedTier?: { before?: TierKey; after?: TierKey };
+  adjustments: { added: PriceAdjustment[]; removed: PriceAdjustment[] };
+  price: AmountChange;
+  hasChanges: boolean;
+}
+
+export const measurementGroups: MeasurementGroup[] = [
+  'exteriorMeasurements',
+  'interiorMeasurements',
+  'gutterMeasurements',
+  'cabinetMeasurements',
+  'holidayMeasurements'
+];
+
+const serviceLineResults = ['exterior', 'interior', 'gutters', 'cabinets', 'holidayLighting', 'leadSafety'] as const;
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function toAmountChange(before: number, after: number): AmountChange {
+  return { before, after, delta: new Decimal(after).minus(before).toNumber() };
+}
+
+/**
+ * Detached, frozen copy so later edits to the working estimate cannot
+ * change a saved version
+ */
+export function freezeSnapshot<T extends EstimateSnapshot>(snapshot: T): T {
+  return deepFreeze(JSON.parse(JSON.stringify(snapshot)) as T);
+}
+
+/**
+ * Snapshot of a working estimate: measurements and client details as
+ * inputs, plus the reviewed calculation with its tier and adjustments
+ */
+export function buildEstimateSnapshot(estimate: any): EstimateSnapshot {
+  const calculations = estimate.calculations;
+  const inputs: EstimateData = {
+    exteriorMeasurements: estimate.exteriorMeasurements,
+    exteriorPrepWork: estimate.exteriorPrepWork,
+    interiorMeasurements: estimate.interiorMeasurements,
+    gutterMeasurements: estimate.gutterMeasurements,
+    cabinetMeasurements: estimate.cabinetMeasurements,
+    holidayMeasurements: estimate.holidayMeasurements,
+    clientInfo: estimate.clientInfo,
+    property: estimate.property,
+    certifiedRenovator: estimate.certifiedRenovator,
+    rateCard: estimate.rateCard,
+    rateCardId: estimate.rateCardId,
+    schedule: estimate.schedule,
+    paymentTemplateId: estimate.paymentTemplateId,
+    signedDate: estimate.signedDate
+  };
+
+  return freezeSnapshot({
+    inputs,
+    rateCard: estimate.rateCard || calculations?.rateCard,
+    results: calculations,
+    selectedTier: calculations?.selectedTier,
+    adjustments: calculations?.adjustments || [],
+    finalPrice: calculations?.finalPrice
+  });
+}
+
+/**
+ * Price before tax: the finalized price when there is one
+ */
+export function getSnapshotPrice(snapshot: EstimateSnapshot): number {
+  const totals = snapshot.results?.totals;
+  return snapshot.finalPrice ?? totals?.price ?? totals?.total ?? 0;
+}
+
+/**
+ * Measurements by key: id when they have one, otherwise name and occurrence
+ */
+export function getMeasurementKeys(measurements: any[] = []): Map<string, { name: string; measurement: any }> {
+  const keys = new Map<string, { name: string; measurement: any }>();
+  const occurrences = new Map<string, number>();
+  measurements.forEach((measurement, index) => {
+    const name = measurement?.name || measurement?.description || `#${index + 1}`;
+    const occurrence = (occurrences.get(name) || 0) + 1;
+    occurrences.set(name, occurrence);
+    keys.set(measurement?.id ? String(measurement.id) : `${name}#${occurrence}`, { name, measurement });
+  });
+  return keys;
+}
+
+function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return Array.from(fields)
+    .filter(field => !isSame(before?.[field], after?.[field]))
+    .map(field => ({ field, before: before?.[field], after: after?.[field] }));
+}
+
+function diffMeasurements(before: EstimateData, after: EstimateData): EstimateDiff['measurements'] {
+  const result: EstimateDiff['measurements'] = { added: [], removed: [], changed: [] };
+
+  measurementGroups.forEach(group => {
+    const previous = getMeasurementKeys(before[group]);
+    const current = getMeasurementKeys(after[group]);
+
+    current.forEach(({ name, measurement }, key) => {
+      const match = previous.get(key);
+      if (!match) {
+        result.added.push({ group, key, name });
+        return;
+      }
+      const changes = diffFields(match.measurement, measurement);
+      if (changes.length > 0) {
+        result.changed.push({ group, key, name, changes });
+      }
+    });
+    previous.forEach(({ name }, key) => {
+      if (!current.has(key)) {
+        result.removed.push({ group, key, name });
+      }
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Top-level line items priced at the estimate's markup: each carries the
+ * price over direct cost (labor with its burden, materials, equipment) in
+ * proportion to its own direct cost
+ */
+function getLineItemPrices(results?: CalculationResult): Map<string, { item: LineItem; price: number }> {
+  const prices = new Map<string, { item: LineItem; price: number }>();
+  if (!results) {
+    return prices;
+  }
+
+  const { totals } = results;
+  const margin = totals?.margin;
+  const burden = margin && totals.laborCost ? new Decimal(margin.laborBurden).dividedBy(totals.laborCost) : new Decimal(0);
+  const ratio = margin?.directCost
+    ? new Decimal(margin.price).dividedBy(margin.directCost)
+    : new Decimal(1);
+  const occurrences = new Map<string, number>();
+
+  serviceLineResults
+    .flatMap(line => (results[line]?.lineItems || []) as LineItem[])
+    .filter(item => item.kind !== 'container-rounding')
+    .forEach(item => {
+      // Ids are positional, so match on kind and name instead
+      const base = `${item.kind}:${item.name}`;
+      const occurrence = (occurrences.get(base) || 0) + 1;
+      occurrences.set(base, occurrence);
+      prices.set(`${base}#${occurrence}`, {
+        item,
+        price: ratio
+          .times(burden.times(item.cost.labor).plus(item.cost.total))
+          .toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+          .toNumber()
+      });
+    });
+
+  return prices;
+}
+
+function diffLineItems(before?: CalculationResult, after?: CalculationResult): LineItemChange[] {
+  const previous = getLineItemPrices(before);
+  const current = getLineItemPrices(after);
+  const changes: LineItemChange[] = [];
+
+  current.forEach(({ item, price }, key) => {
+    const match = previous.get(key);
+    const beforePrice = match?.price ?? 0;
+    if (match && match.item.quantity === item.quantity && beforePrice === price) {
+      return;
+    }
+    changes.push({
+      key,
+      name: item.name,
+      kind: item.kind,
+      status: match ? 'changed' : 'added',
+      quantity: { before: match?.item.quantity, after: item.quantity },
+      price: toAmountChange(beforePrice, price)
+    });
+  });
+  previous.forEach(({ item, price }, key) => {
+    if (!current.has(key)) {
+      changes.push({
+        key,
+        name: item.name,
+        kind: item.kind,
+        status: 'removed',
+        quantity: { before: item.quantity },
+        price: toAmountChange(price, 0)
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Structured diff from one snapshot to another
+ */
+export function diffEstimates(
+  from: EstimateSnapshot | EstimateVersion,
+  to: EstimateSnapshot | EstimateVersion
+): EstimateDiff {
+  const measurements = diffMeasurements(from.inputs, to.inputs);
+  const lineItems = diffLineItems(from.results, to.results);
+  const adjustments = {
+    added: to.adjustments.filter(adjustment => !from.adjustments.some(other => isSame(adjustment, other))),
+    removed: from.adjustments.filter(adjustment => !to.adjustments.some(other => isSame(adjustment, other)))
+  };
+  const rateCard = isSame(from.rateCard, to.rateCard) ? undefined : { before: from.rateCard, after: to.rateCard };
+  const selectedTier = from.selectedTier === to.selectedTier
+    ? undefined
+    : { before: from.selectedTier, after: to.selectedTier };
+  const price = toAmountChange(getSnapshotPrice(from), getSnapshotPrice(to));
+
+  return {
+    fromVersion: 'version' in from ? from.version : undefined,
+    toVersion: 'version' in to ? to.version : undefined,
+    measurements,
+    lineItems,
+    rateCard,
+    selectedTier,
+    adjustments,
+    price,
+    hasChanges:
+      measurements.added.length + measurements.removed.length + measurements.changed.length > 0 ||
+      lineItems.length > 0 ||
+      adjustments.added.length + adjustments.removed.length > 0 ||
+      Boolean(rateCard || selectedTier) ||
+      price.delta !== 0
+  };
+}
+
+class EstimateVersionService {
+  /**
+   * Append a version; earlier versions are never modified
+   */
+  async createVersion(
+    estimateId: string,
+    snapshot: EstimateSnapshot,
+    options: { createdBy?: string; note?: string } = {}
+  ): Promise<EstimateVersion> {
+    const response = await apiClient.createEstimateVersion(estimateId, {
+      ...freezeSnapshot(snapshot),
+      ...options
+    });
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to save version of estimate ${estimateId}: ${response.error || 'no version returned'}`);
+    }
+    return freezeSnapshot(response.data as EstimateVersion);
+  }
+
+  async listVersions(estimateId: string): Promise<EstimateVersionSummary[]> {
+    const response = await apiClient.listEstimateVersions(estimateId);
+    if (!response.success) {
+      throw new Error(`Failed to list versions of estimate ${estimateId}: ${response.error}`);
+    }
+    const versions = (response.data as EstimateVersionSummary[] | undefined) || [];
+    return [...versions].sort((a, b) => a.version - b.version);
+  }
+
+  async getVersion(estimateId: string, version: number): Promise<EstimateVersion> {
+    const response = await apiClient.getEstimateVersion(estimateId, version);
+    if (!response.success || !response.data) {
+      throw new Error(`Version ${version} of estimate ${estimateId} not found`);
+    }
+    return freezeSnapshot(response.data as EstimateVersion);
+  }
+
+  async diffVersions(estimateId: string, fromVersion: number, toVersion: number): Promise<EstimateDiff> {
+    const [from, to] = await Promise.all([
+      this.getVersion(estimateId, fromVersion),
+      this.getVersion(estimateId, toVersion)
+    ]);
+    return diffEstimates(from, to);
+  }
+
+  /**
+   * Record that a version was sent to the customer
+   */
+  async markPresented(estimateId: string, version: number): Promise<void> {
+    const response = await apiClient.markEstimateVersionPresented(estimateId, version);
+    if (!response.success) {
+      throw new Error(`Failed to mark version ${version} of estimate ${estimateId} as presented: ${response.error}`);
+    }
+  }
+
+  /**
+   * The last version sent to the customer, if any
+   */
+  async getLastPresentedVersion(estimateId: string): Promise<EstimateVersion | undefined> {
+    const versions = await this.listVersions(estimateId);
+    const presented = versions.filter(version => version.presentedAt).pop();
+    return presented ? this.getVersion(estimateId, presented.version) : undefined;
+  }
+
+  /**
+   * Changes from the last version the customer saw to the working estimate;
+   * undefined when no version has been presented
+   */
+  async diffSincePresented(estimateId: string, current: EstimateSnapshot): Promise<EstimateDiff | undefined> {
+    const presented = await this.getLastPresentedVersion(estimateId);
+    return presented ? diffEstimates(presented, current) : undefined;
+  }
+}
+
+export const estimateVersionService = new EstimateVersionService();
@@ -84,6 +84,10 @@ class SalesforceService {
     }
   }
 
+  get isConnected(): boolean {
+    return this.isInitialized && this.conn !== null;
+  }
+
   async searchContacts(query: string, limit: number = 10): Promise<SalesforceContact[]> {
     if (!this.conn) {
       throw new Error('Salesforce connection not initialized');
@@ -163,6 +167,23 @@ class SalesforceService {
     }
   }
 
+  /**
+   * Set an opportunity's amount, e.g. when change orders move the job total
+   */
+  async updateOpportunityAmount(opportunityId: string, amount: number): Promise<boolean> {
+    if (!this.conn) {
+      throw new Error('Salesforce connection not initialized');
+    }
+
+    try {
+      const result = await this.conn.sobject('Opportunity').update({ Id: opportunityId, Amount: amount });
+      return result.success;
+    } catch (error) {
+      console.error('Failed to update opportunity amount:', error);
+      return false;
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       if (!this.conn) {